@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { runAlertCheck } from "@/lib/alerts";
+
+// Runs the scheduled alert check immediately ("Check now", external cron)
+export async function POST() {
+    try {
+        return NextResponse.json(await runAlertCheck());
+    } catch (error: unknown) {
+        console.error("Alert check Error:", error);
+        return NextResponse.json({ error: "Alert check failed" }, { status: 500 });
+    }
+}
@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { AlertRuleError, describeCondition, parseCondition } from "@/lib/alerts/rules";
+import { readAlertStore, updateAlertStore } from "@/lib/alerts/store";
+import type { AlertRule } from "@/lib/alerts";
+import { resolveSymbol, StockRequestError } from "@/lib/stock";
+
+const MAX_RULES = 50;
+
+function errorResponse(error: unknown) {
+    if (error instanceof AlertRuleError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof StockRequestError) {
+        return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Alerts API Error:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+}
+
+// Rules and the alert log (newest first); the page polls this for browser notifications
+export async function GET() {
+    try {
+        const { rules, log, active, lastCheck } = await readAlertStore();
+        return NextResponse.json({ rules, log, active, lastCheck });
+    } catch (error: unknown) {
+        return errorResponse(error);
+    }
+}
+
+// Creates a rule: { name?, condition: { kind: "sigmaMove" | "bandCross" | "market", ... } }
+export async function POST(req: Request) {
+    try {
+        const { name, condition: input } = await req.json();
+        const condition = parseCondition(input);
+
+        // Store the ticker the scheduler will poll, not the free text ("samsung")
+        if (condition.kind !== "market") {
+            condition.symbol = await resolveSymbol(condition.symbol);
+        }
+
+        const rule: AlertRule = {
+            id: crypto.randomUUID(),
+            name: typeof name === "string" && name.trim() ? name.trim() : describeCondition(condition),
+            enabled: true,
+            createdAt: new Date().toISOString(),
+            condition
+        };
+
+        await updateAlertStore((data) => {
+            if (data.rules.length >= MAX_RULES) throw new AlertRuleError(`At most ${MAX_RULES} alert rules`);
+            data.rules.push(rule);
+        });
+        return NextResponse.json({ rule }, { status: 201 });
+    } catch (error: unknown) {
+        return errorResponse(error);
+    }
+}
+
+// Renames or enables/disables a rule: { id, name?, enabled? }
+export async function PATCH(req: Request) {
+    try {
+        const { id, name, enabled } = await req.json();
+        const rule = await updateAlertStore((data) => {
+            const found = data.rules.find(r => r.id === id);
+            if (!found) return null;
+            if (typeof name === "string" && name.trim()) found.name = name.trim();
+            if (typeof enabled === "boolean") found.enabled = enabled;
+            return found;
+        });
+        if (!rule) return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+        return NextResponse.json({ rule });
+    } catch (error: unknown) {
+        return errorResponse(error);
+    }
+}
+
+// DELETE /api/alerts?id=<rule id>; the rule's past log entries are kept
+export async function DELETE(req: Request) {
+    try {
+        const id = new URL(req.url).searchParams.get("id");
+        const removed = await updateAlertStore((data) => {
+            const before = data.rules.length;
+            data.rules = data.rules.filter(r => r.id !== id);
+            if (id) delete data.active[id];
+            return data.rules.length < before;
+        });
+        if (!removed) return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+        return NextResponse.json({ ok: true });
+    } catch (error: unknown) {
+        return errorResponse(error);
+    }
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { dashboardTables, EXPORT_FORMATS, ExportError, exportFile, type ExportFormat } from "@/lib/export";
+import { MIN_BIN_SIZE } from "@/lib/analytics";
+import { readDashboardUrl } from "@/lib/dashboardUrl";
+import { toBaseCurrency } from "@/lib/fx";
+import { IndicatorError, type IndicatorRequest } from "@/lib/indicators";
+import { loadStockData, StockRequestError } from "@/lib/stock";
+
+// The dashboard's export files for scripts:
+// { query, range, start?, end?, format: "csv" | "json" | "xlsx", table?, basis?, zones?: ["-2", "-1"],
+//   indicators?: [{ type: "bollinger", period: 20, k: 2 }], returnKind?: "simple" | "log",
+//   binWidth?: "auto" | "fd" | number, baseCurrency? }
+// With baseCurrency the values are converted the way the dashboard's base view shows them.
+export async function POST(req: Request) {
+    try {
+        const { query, range = '1y', start, end, format = 'csv', table, basis = 'adjusted', zones, indicators, returnKind = 'simple', binWidth = 'auto', baseCurrency } = await req.json();
+
+        if (!EXPORT_FORMATS.includes(format)) {
+            return NextResponse.json({ error: `format must be one of ${EXPORT_FORMATS.join(", ")}` }, { status: 400 });
+        }
+        if (basis !== 'adjusted' && basis !== 'raw') {
+            return NextResponse.json({ error: 'basis must be "adjusted" or "raw"' }, { status: 400 });
+        }
+        if (zones !== undefined && !Array.isArray(zones)) {
+            return NextResponse.json({ error: "zones must be an array" }, { status: 400 });
+        }
+        if (indicators !== undefined && !Array.isArray(indicators)) {
+            return NextResponse.json({ error: "indicators must be an array" }, { status: 400 });
+        }
+        if (returnKind !== 'simple' && returnKind !== 'log') {
+            return NextResponse.json({ error: 'returnKind must be "simple" or "log"' }, { status: 400 });
+        }
+        if (binWidth !== 'auto' && binWidth !== 'fd' && !(typeof binWidth === 'number' && binWidth >= MIN_BIN_SIZE)) {
+            return NextResponse.json({ error: `binWidth must be "auto", "fd" or a number of at least ${MIN_BIN_SIZE} (%)` }, { status: 400 });
+        }
+
+        const data = await loadStockData({ query, range, start, end, baseCurrency }, { includeGeminiMetrics: false });
+        const tables = dashboardTables(baseCurrency ? toBaseCurrency(data) : data, {
+            basis,
+            // Same zone parsing as dashboard links
+            zones: zones ? readDashboardUrl(`?zones=${zones.join(",")}`).zones : undefined,
+            indicators: indicators as IndicatorRequest[] | undefined,
+            returnKind,
+            binWidth
+        });
+        const file = exportFile(data, tables, format as ExportFormat, table);
+
+        return new NextResponse(file.body, {
+            headers: {
+                "Content-Type": file.contentType,
+                "Content-Disposition": `attachment; filename="${file.fileName}"`
+            }
+        });
+
+    } catch (error: unknown) {
+        if (error instanceof StockRequestError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        if (error instanceof ExportError || error instanceof IndicatorError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        console.error("Export API Error:", error);
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+    }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { priceSeries, type PriceBasis } from "@/lib/adjustments";
+import { computeIndicators, IndicatorError, INDICATORS, type IndicatorRequest } from "@/lib/indicators";
+import { loadStockData, StockRequestError } from "@/lib/stock";
+
+const MAX_INDICATORS = 20;
+
+// Lists the available indicators and their default parameters
+export async function GET() {
+    return NextResponse.json({
+        indicators: Object.entries(INDICATORS).map(([type, def]) => ({ type, label: def.label, pane: def.pane, defaults: def.defaults }))
+    });
+}
+
+// Same numbers as the dashboard for scripts and other views:
+// { query, range, start?, end?, basis?: "adjusted" | "raw", indicators: [{ type: "bollinger", period: 20, k: 2 }, ...] }
+export async function POST(req: Request) {
+    try {
+        const { query, range = '1y', start, end, basis = 'adjusted', indicators } = await req.json();
+
+        if (!Array.isArray(indicators) || indicators.length === 0) {
+            return NextResponse.json({ error: "indicators must be a non-empty array" }, { status: 400 });
+        }
+        if (indicators.length > MAX_INDICATORS) {
+            return NextResponse.json({ error: `At most ${MAX_INDICATORS} indicators per request` }, { status: 400 });
+        }
+        if (basis !== 'adjusted' && basis !== 'raw') {
+            return NextResponse.json({ error: 'basis must be "adjusted" or "raw"' }, { status: 400 });
+        }
+
+        const data = await loadStockData({ query, range, start, end }, { includeGeminiMetrics: false });
+        const series = priceSeries(data.history, data.splits || [], data.dividends || [], basis as PriceBasis);
+
+        return NextResponse.json({
+            symbol: data.symbol,
+            range: data.range,
+            interval: data.interval,
+            basis,
+            dates: series.history.map(bar => bar.date),
+            indicators: computeIndicators({ ...series, interval: data.interval }, indicators as IndicatorRequest[])
+        });
+
+    } catch (error: unknown) {
+        if (error instanceof StockRequestError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        if (error instanceof IndicatorError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        console.error("Indicators API Error:", error);
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+    }
+}
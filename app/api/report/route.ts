@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { readDashboardUrl } from "@/lib/dashboardUrl";
+import { toBaseCurrency } from "@/lib/fx";
+import { loadMarketData } from "@/lib/market";
+import { renderReport } from "@/lib/report";
+import { loadStockData, StockRequestError } from "@/lib/stock";
+
+// Printable HTML research report, taking the same parameters as dashboard links:
+// /api/report?symbol=AAPL&range=5y&zones=-2,-1[&basis=raw][&baseCurrency=EUR][&download=1]
+export async function GET(req: Request) {
+    try {
+        const params = new URL(req.url).searchParams;
+        const { symbol, range, customRange, zones } = readDashboardUrl(params.toString());
+        const basis = params.get("basis") ?? "adjusted";
+        const baseCurrency = params.get("baseCurrency") || undefined;
+
+        if (!symbol) {
+            return NextResponse.json({ error: "symbol is required" }, { status: 400 });
+        }
+        if (basis !== "adjusted" && basis !== "raw") {
+            return NextResponse.json({ error: 'basis must be "adjusted" or "raw"' }, { status: 400 });
+        }
+
+        const [data, market] = await Promise.all([
+            loadStockData({ query: symbol, range, ...(range === "custom" ? customRange : {}), baseCurrency }),
+            // The report still renders without the market cards
+            loadMarketData().catch((e: unknown) => {
+                console.warn("Report market snapshot failed:", e);
+                return null;
+            })
+        ]);
+
+        const html = renderReport({
+            stock: baseCurrency ? toBaseCurrency(data) : data,
+            market,
+            generatedAt: new Date(),
+            basis,
+            zones
+        });
+
+        const headers: Record<string, string> = { "Content-Type": "text/html; charset=utf-8" };
+        if (params.get("download") === "1") {
+            headers["Content-Disposition"] = `attachment; filename="${data.symbol.replace(/[^A-Za-z0-9.-]/g, "_")}_${data.range ?? "custom"}_report.html"`;
+        }
+        return new NextResponse(html, { headers });
+
+    } catch (error: unknown) {
+        if (error instanceof StockRequestError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Report API Error:", error);
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+    }
+}
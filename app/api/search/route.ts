@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { MAX_SUGGESTIONS, searchInstruments } from "@/lib/search";
+
+const MAX_QUERY_LENGTH = 100;
+
+// Suggestions for the search box: GET /api/search?q=samsung&limit=5
+// -> { results: [{ symbol, name, localName, exchange, type, currency, sources }] }
+export async function GET(req: Request) {
+    const params = new URL(req.url).searchParams;
+    const query = (params.get("q") || "").trim();
+    const limit = Number(params.get("limit") || MAX_SUGGESTIONS);
+
+    if (query.length > MAX_QUERY_LENGTH) {
+        return NextResponse.json({ error: `q must be at most ${MAX_QUERY_LENGTH} characters` }, { status: 400 });
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SUGGESTIONS) {
+        return NextResponse.json({ error: `limit must be between 1 and ${MAX_SUGGESTIONS}` }, { status: 400 });
+    }
+    if (!query) return NextResponse.json({ results: [] });
+
+    try {
+        const results = await searchInstruments(query);
+        return NextResponse.json({ results: results.slice(0, limit) });
+    } catch (e: unknown) {
+        console.error("Search failed:", e);
+        return NextResponse.json({ error: (e as Error).message }, { status: 502 });
+    }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { loadStockData, resolveBaseCurrency, resolveRequestRange, StockRequestError } from "@/lib/stock";
+
+const MAX_SYMBOLS = 10;
+
+// Batch variant of /api/stock for the comparison view: one range, many queries.
+// Each query succeeds or fails on its own so one bad ticker doesn't sink the rest.
+export async function POST(req: Request) {
+    try {
+        const { queries, range = '1y', start, end, baseCurrency } = await req.json();
+
+        if (!Array.isArray(queries) || queries.length === 0) {
+            return NextResponse.json({ error: "queries must be a non-empty array" }, { status: 400 });
+        }
+        if (queries.length > MAX_SYMBOLS) {
+            return NextResponse.json({ error: `At most ${MAX_SYMBOLS} symbols per request` }, { status: 400 });
+        }
+
+        // Validate the shared range and currency once up front instead of failing every item
+        resolveRequestRange({ range, start, end });
+        resolveBaseCurrency(baseCurrency);
+
+        const settled = await Promise.allSettled(
+            queries.map((query: string) => loadStockData({ query, range, start, end, baseCurrency }, { includeGeminiMetrics: false }))
+        );
+
+        const results = [];
+        const errors = [];
+        for (let i = 0; i < settled.length; i++) {
+            const outcome = settled[i];
+            if (outcome.status === "fulfilled") {
+                results.push(outcome.value);
+            } else {
+                errors.push({ query: queries[i], error: (outcome.reason as Error).message || "Failed to load" });
+            }
+        }
+
+        return NextResponse.json({ results, errors });
+
+    } catch (error: unknown) {
+        if (error instanceof StockRequestError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Batch API Error:", error);
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+    }
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { cached } from "@/lib/cache";
+import { getMarketDataProvider } from "@/lib/providers";
+import { resolveRange } from "@/lib/ranges";
+import { priceSeries } from "@/lib/adjustments";
+import { returnDistribution, rollingStdDev, sigmaZone } from "@/lib/analytics";
+import { koreanName, resolveSymbol } from "@/lib/stock";
+
+const MAX_SYMBOLS = 50;
+
+// One row of the watchlist table
+async function loadWatchlistQuote(symbol: string) {
+    const provider = getMarketDataProvider();
+    const { period1, period2 } = resolveRange('1y');
+
+    // Same cache keys and TTLs as loadStockData's 1y view, so a watchlist
+    // refresh and the dashboard share entries instead of refetching
+    const rangeKey = `${symbol}:1y::`;
+    const [quote, bars, dividends, splits] = await Promise.all([
+        cached("quote", symbol, () => provider.quote(symbol)),
+        cached("history", `${rangeKey}:1d`, () => provider.history(symbol, { period1, period2 }, '1d')),
+        cached("events", `dividends:${rangeKey}`, () => provider.dividends(symbol, { period1, period2 })),
+        cached("events", `splits:${rangeKey}`, () => provider.splits(symbol, { period1, period2 }))
+    ]);
+
+    const toPoint = <T extends { date: Date }>(row: T) => ({ ...row, date: row.date.toISOString() });
+    const splitPoints = splits.map(toPoint);
+    const history = bars.map((bar) => ({ ...toPoint(bar), adjClose: bar.adjClose ?? bar.close }));
+    const changes = priceSeries(history, splitPoints, dividends.map(toPoint)).changes.slice(1);
+
+    // Today's zone uses the same 1y distribution as the dashboard's default view
+    const { mean, sd } = returnDistribution(changes);
+    const rolling = rollingStdDev(changes, 20);
+    const changePercent = quote.regularMarketChangePercent ?? changes[changes.length - 1] ?? 0;
+
+    return {
+        symbol: quote.symbol,
+        // KRX listings show their Korean name
+        name: quote.localName || await koreanName(symbol) || quote.shortName || quote.longName,
+        currency: quote.currency,
+        price: quote.regularMarketPrice,
+        changePercent,
+        rollingSD: rolling[rolling.length - 1] ?? 0,
+        zone: sigmaZone(changePercent, mean, sd)
+    };
+}
+
+// Live quote rows for a watchlist. With `resolve: true` entries are free-text
+// queries (used when adding a symbol) and are resolved to tickers first.
+export async function POST(req: Request) {
+    try {
+        const { symbols, resolve = false } = await req.json();
+
+        if (!Array.isArray(symbols)) {
+            return NextResponse.json({ error: "symbols must be an array" }, { status: 400 });
+        }
+        if (symbols.length > MAX_SYMBOLS) {
+            return NextResponse.json({ error: `At most ${MAX_SYMBOLS} symbols per request` }, { status: 400 });
+        }
+
+        const settled = await Promise.allSettled(symbols.map(async (entry: string) =>
+            loadWatchlistQuote(resolve ? await resolveSymbol(entry) : entry)
+        ));
+
+        const quotes = [];
+        const errors = [];
+        for (let i = 0; i < settled.length; i++) {
+            const outcome = settled[i];
+            if (outcome.status === "fulfilled") quotes.push(outcome.value);
+            else errors.push({ symbol: symbols[i], error: (outcome.reason as Error).message || "Failed to load" });
+        }
+
+        return NextResponse.json({ quotes, errors });
+
+    } catch (error) {
+        console.error("Watchlist API Error:", error);
+        return NextResponse.json({ error: "Failed to fetch watchlist quotes" }, { status: 500 });
+    }
+}
@@ -1,17 +1,48 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useEffectEvent, useRef } from "react";
 import SearchArea from "@/components/SearchArea";
 import StockDashboard, { StockData } from "@/components/StockDashboard";
 import MarketStatus, { MarketData } from "@/components/MarketStatus";
+import ComparisonView from "@/components/ComparisonView";
+import Watchlists from "@/components/Watchlists";
+import Portfolio from "@/components/Portfolio";
+import Alerts from "@/components/Alerts";
 import { motion, AnimatePresence } from "framer-motion"; // Consolidated framer-motion import
+import { RANGE_PRESETS, type CustomRange } from "@/lib/ranges";
+import type { SigmaZone } from "@/lib/analytics";
+import { dashboardSearch, DEFAULT_RANGE, DEFAULT_ZONES, readDashboardUrl, type DashboardUrlState } from "@/lib/dashboardUrl";
+import { AUTO_REFRESH_MS } from "@/lib/refresh";
+import { BASE_CURRENCIES, DEFAULT_BASE_CURRENCY } from "@/lib/fx";
+import { STORAGE_KEYS, useStoredState } from "@/lib/storage";
 
 export default function Home() {
   const [loading, setLoading] = useState(false); // Changed from isLoading to loading
   const [stockData, setStockData] = useState<StockData | null>(null);
-  const [error, setError] = useState(null); // Changed initial state from "" to null
+  const [error, setError] = useState<string | null>(null); // Changed initial state from "" to null
 
-  const [timeRange, setTimeRange] = useState("1y"); // New state for time range
+  const [timeRange, setTimeRange] = useState(DEFAULT_RANGE); // New state for time range
+  const [customRange, setCustomRange] = useState<CustomRange>({ start: "", end: "" });
+  const [showCustomRange, setShowCustomRange] = useState(false);
+
+  // Prices come back with FX rates into this currency (see lib/fx)
+  const [baseCurrency, setBaseCurrency] = useStoredState(STORAGE_KEYS.baseCurrency, DEFAULT_BASE_CURRENCY);
+
+  // Volatility simulation buy zones (kept here so they can be part of the URL)
+  const [selectedZones, setSelectedZones] = useState<SigmaZone[]>(DEFAULT_ZONES);
+  // Set while loading a state that came from the URL, so it replaces rather than pushes a history entry
+  const replaceUrlRef = useRef(false);
+
+  // Request fields for a range (custom ranges also send their start/end dates) plus the base currency
+  const rangeParams = (range: string, base = baseCurrency, custom = customRange) => ({
+    ...(range === "custom" ? { range, ...custom } : { range }),
+    baseCurrency: base
+  });
+
+  // Comparison view: extra symbols shown against the current stock
+  const [compareSymbols, setCompareSymbols] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<{ results: StockData[]; errors: { query: string; error: string }[] }>({ results: [], errors: [] });
+  const [compareLoading, setCompareLoading] = useState(false);
 
   const [marketData, setMarketData] = useState<MarketData | null>(null);
   const [marketLoading, setMarketLoading] = useState(true);
@@ -46,7 +77,7 @@ export default function Home() {
       // A better approach for the stock data refresh is to use a ref or check the localStorage history/last searched.
       // For now, let's just refresh market data. To refresh stock data properly, we'd need to refactor handleSearch slightly 
       // or store the current query in a state variable that we can access.
-    }, 10 * 60 * 1000); // 10 minutes
+    }, AUTO_REFRESH_MS);
 
     return () => clearInterval(intervalId);
   }, []);
@@ -63,7 +94,7 @@ export default function Home() {
         fetch("/api/stock", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ query: currentStock.symbol, range: timeRange }),
+          body: JSON.stringify({ query: currentStock.symbol, ...rangeParams(timeRange) }),
         })
           .then(res => res.json())
           .then(data => {
@@ -71,13 +102,51 @@ export default function Home() {
           })
           .catch(err => console.error("Stock auto-refresh failed", err));
       }
-    }, 10 * 60 * 1000); // 10 minutes
+    }, AUTO_REFRESH_MS);
 
     return () => clearInterval(stockRefreshInterval);
-  }, [stockData?.symbol, timeRange]); // Depend on symbol so we refresh the correct stock
+  }, [stockData?.symbol, timeRange, customRange, baseCurrency]); // Depend on symbol so we refresh the correct stock
 
 
-  const handleSearch = async (query: string) => {
+  // Fetches the base stock plus every compared symbol in one batch request
+  const fetchComparison = async (baseSymbol: string, symbols: string[], range: string, base = baseCurrency, custom = customRange) => {
+    if (symbols.length === 0) {
+      setComparison({ results: [], errors: [] });
+      return;
+    }
+    setCompareLoading(true);
+    try {
+      const res = await fetch("/api/stock/batch", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ queries: [baseSymbol, ...symbols], ...rangeParams(range, base, custom) }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to fetch comparison");
+      setComparison(json);
+      // Keep resolved tickers (e.g. "samsung" -> "005930.KS") so removal matches the chips
+      setCompareSymbols(json.results.slice(1).map((r: StockData) => r.symbol));
+    } catch (err) {
+      console.error("Failed to fetch comparison", err);
+    } finally {
+      setCompareLoading(false);
+    }
+  };
+
+  const handleCompareAdd = (query: string) => {
+    if (!stockData) return;
+    fetchComparison(stockData.symbol, [...compareSymbols, query], timeRange);
+  };
+
+  const handleCompareRemove = (symbol: string) => {
+    if (!stockData) return;
+    fetchComparison(stockData.symbol, compareSymbols.filter(s => s !== symbol), timeRange);
+  };
+
+  // `view` overrides the current range and comparison, for states restored from the URL
+  const handleSearch = async (query: string, view?: Pick<DashboardUrlState, "range" | "customRange" | "compare">) => {
+    const { range, customRange: custom, compare } = view ?? { range: timeRange, customRange, compare: compareSymbols };
+    replaceUrlRef.current = view !== undefined;
     setLoading(true);
     setError(null);
     setStockData(null);
@@ -91,7 +160,7 @@ export default function Home() {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ query, range: timeRange }), // Added timeRange to body
+        body: JSON.stringify({ query, ...rangeParams(range, baseCurrency, custom) }), // Added timeRange to body
       });
 
       // Updated error handling
@@ -102,13 +171,9 @@ export default function Home() {
 
       const data = await response.json();
       setStockData(data);
+      fetchComparison(data.symbol, compare, range, baseCurrency, custom);
 
-      // Save to history
-      const history = JSON.parse(localStorage.getItem("searchHistory") || "[]");
-      if (!history.includes(query)) {
-        const newHistory = [query, ...history].slice(0, 5);
-        localStorage.setItem("searchHistory", JSON.stringify(newHistory));
-      }
+      // Search history is recorded by SearchArea (STORAGE_KEYS.searchHistory)
 
     } catch (err: any) {
       setError(err.message);
@@ -117,9 +182,60 @@ export default function Home() {
     }
   };
 
+  // Applies a URL's dashboard state (first load, back/forward) and loads its symbol
+  const restoreFromUrl = (search: string) => {
+    const state = readDashboardUrl(search);
+    setTimeRange(state.range);
+    setCustomRange(state.customRange);
+    setShowCustomRange(state.range === "custom");
+    setSelectedZones(state.zones);
+    setCompareSymbols(state.compare);
+    if (!state.symbol) {
+      setStockData(null);
+      setComparison({ results: [], errors: [] });
+      setError(null);
+      return;
+    }
+    handleSearch(state.symbol, state);
+  };
+
+  const onUrlChange = useEffectEvent(() => restoreFromUrl(window.location.search));
+
+  useEffect(() => {
+    onUrlChange();
+    const handlePopState = () => onUrlChange();
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, []);
+
+  // Mirror the dashboard in the URL: a new symbol is a new history entry
+  // (so back/forward moves between searched symbols), other changes replace it
+  useEffect(() => {
+    if (!stockData) return;
+    const search = dashboardSearch({ symbol: stockData.symbol, range: timeRange, customRange, zones: selectedZones, compare: compareSymbols });
+    const sameSymbol = readDashboardUrl(window.location.search).symbol === stockData.symbol;
+    if (search !== window.location.search) {
+      const url = `${window.location.pathname}${search}`;
+      if (sameSymbol || replaceUrlRef.current) window.history.replaceState(null, "", url);
+      else window.history.pushState(null, "", url);
+    }
+    replaceUrlRef.current = false;
+  }, [stockData, timeRange, customRange, selectedZones, compareSymbols]);
+
   // New function to handle time range changes
-  const handleRangeChange = async (newRange: string) => {
+  const handleRangeChange = (newRange: string) => {
     setTimeRange(newRange);
+    if (newRange !== "custom") setShowCustomRange(false);
+    reloadStock(newRange, baseCurrency);
+  };
+
+  const handleBaseCurrencyChange = (base: string) => {
+    setBaseCurrency(base);
+    reloadStock(timeRange, base);
+  };
+
+  // Re-fetches the current stock and comparison for a new range or base currency
+  const reloadStock = async (newRange: string, base: string) => {
     if (stockData) {
       // Use the current symbol or name to re-fetch
       // Ideally we should store the last query, but using symbol works
@@ -128,12 +244,15 @@ export default function Home() {
         const response = await fetch("/api/stock", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ query: stockData.symbol, range: timeRange }),
+          body: JSON.stringify({ query: stockData.symbol, ...rangeParams(newRange, base) }),
         });
         const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Failed to update range");
         setStockData(data);
-      } catch (err) {
+        fetchComparison(data.symbol, compareSymbols, newRange, base);
+      } catch (err: unknown) {
         console.error("Failed to update range", err);
+        setError((err as Error).message);
       } finally {
         setLoading(false);
       }
@@ -157,6 +276,16 @@ export default function Home() {
           <p className="text-gray-400 text-lg md:text-xl max-w-2xl mx-auto">
             WorkingNow - Youngkyu Lee
           </p>
+          <label className="inline-flex items-center gap-2 text-sm text-gray-400">
+            Base currency
+            <select
+              value={baseCurrency}
+              onChange={(e) => handleBaseCurrencyChange(e.target.value)}
+              className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-white"
+            >
+              {BASE_CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+            </select>
+          </label>
         </motion.div>
 
         {/* Market Status Section */}
@@ -166,6 +295,9 @@ export default function Home() {
           <SearchArea onSearch={handleSearch} isLoading={loading} /> {/* Changed loading to isLoading */}
         </div>
 
+        <Watchlists currentSymbol={stockData?.symbol} onSelect={handleSearch} />
+        <Alerts currentSymbol={stockData?.symbol} />
+
         <AnimatePresence mode="wait"> {/* Added AnimatePresence */}
           {error && (
             <motion.div
@@ -184,24 +316,81 @@ export default function Home() {
           <motion.div
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
-            className="mt-8 flex gap-2 bg-gray-900/50 p-1 rounded-xl border border-gray-800 backdrop-blur-sm"
+            className="mt-8 flex flex-col items-center gap-3"
           >
-            {['1y', '2y', '3y', '5y', '10y'].map((range) => (
+            <div className="flex flex-wrap justify-center gap-2 bg-gray-900/50 p-1 rounded-xl border border-gray-800 backdrop-blur-sm">
+              {RANGE_PRESETS.map((range) => (
+                <button
+                  key={range}
+                  onClick={() => handleRangeChange(range)}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${timeRange === range
+                    ? 'bg-blue-600 text-white shadow-lg shadow-blue-500/25'
+                    : 'text-gray-400 hover:text-white hover:bg-white/5'
+                    }`}
+                >
+                  {range.toUpperCase()}
+                </button>
+              ))}
               <button
-                key={range}
-                onClick={() => handleRangeChange(range)}
-                className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${timeRange === range
+                onClick={() => setShowCustomRange(v => !v)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${timeRange === "custom"
                   ? 'bg-blue-600 text-white shadow-lg shadow-blue-500/25'
                   : 'text-gray-400 hover:text-white hover:bg-white/5'
                   }`}
               >
-                {range.toUpperCase()}
+                CUSTOM
               </button>
-            ))}
+            </div>
+
+            {showCustomRange && (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleRangeChange("custom");
+                }}
+                className="flex flex-wrap items-center justify-center gap-2 bg-gray-900/50 p-2 rounded-xl border border-gray-800 backdrop-blur-sm text-sm"
+              >
+                <input
+                  type="date"
+                  value={customRange.start}
+                  max={customRange.end || undefined}
+                  onChange={(e) => setCustomRange(r => ({ ...r, start: e.target.value }))}
+                  className="bg-gray-800 border border-gray-700 rounded-lg px-3 py-1.5 text-white"
+                  required
+                />
+                <span className="text-gray-500">to</span>
+                <input
+                  type="date"
+                  value={customRange.end}
+                  min={customRange.start || undefined}
+                  onChange={(e) => setCustomRange(r => ({ ...r, end: e.target.value }))}
+                  className="bg-gray-800 border border-gray-700 rounded-lg px-3 py-1.5 text-white"
+                  required
+                />
+                <button
+                  type="submit"
+                  className="px-4 py-1.5 rounded-lg font-medium bg-blue-600 text-white hover:bg-blue-500 transition-colors"
+                >
+                  Apply
+                </button>
+              </form>
+            )}
           </motion.div>
         )}
 
-        <StockDashboard data={stockData} />
+        <StockDashboard data={stockData} selectedZones={selectedZones} onSelectedZonesChange={setSelectedZones} />
+
+        {stockData && (
+          <ComparisonView
+            items={comparison.results.length > 0 ? comparison.results : [stockData]}
+            loading={compareLoading}
+            errors={comparison.errors}
+            onAdd={handleCompareAdd}
+            onRemove={handleCompareRemove}
+          />
+        )}
+
+        <Portfolio currentSymbol={stockData?.symbol} onSelect={handleSearch} />
 
         {!stockData && !loading && !error && ( // Changed isLoading to loading
           <motion.div
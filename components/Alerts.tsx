@@ -0,0 +1,303 @@
+"use client";
+
+import { useEffect, useState, useSyncExternalStore, memo } from "react";
+import { motion } from "framer-motion";
+import { Bell, BellRing, Plus, RefreshCw, Trash2 } from "lucide-react";
+import type { AlertEvent, AlertKind, AlertRule, MarketMetric } from "@/lib/alerts/types";
+import { ALERT_KINDS, MARKET_METRIC_LABELS, describeCondition } from "@/lib/alerts/rules";
+import { ALERT_POLL_MS } from "@/lib/refresh";
+import { STORAGE_KEYS, readStored, writeStored } from "@/lib/storage";
+
+interface AlertsProps {
+    currentSymbol?: string;
+}
+
+interface AlertsState {
+    rules: AlertRule[];
+    log: AlertEvent[];
+    active: Record<string, boolean>;
+    lastCheck: string | null;
+}
+
+// Form fields for every kind; only the ones the selected kind uses are sent
+const DEFAULT_DRAFT = {
+    kind: "sigmaMove" as AlertKind,
+    name: "",
+    symbol: "",
+    direction: "below",
+    sigma: "2",
+    band: "lower",
+    period: "20",
+    k: "2",
+    metric: "vix" as MarketMetric,
+    operator: ">",
+    value: "25",
+};
+
+const LOG_ROWS = 15;
+
+// Browser notification permission as an external store, so the button updates after the prompt
+const permissionListeners = new Set<() => void>();
+const subscribePermission = (listener: () => void) => {
+    permissionListeners.add(listener);
+    return () => { permissionListeners.delete(listener); };
+};
+const readPermission = () => typeof Notification === "undefined" ? "unsupported" : Notification.permission;
+
+async function alertsRequest<T>(method: string, body?: unknown, query = ""): Promise<T> {
+    const res = await fetch(`/api/alerts${query}`, {
+        method,
+        headers: body ? { "Content-Type": "application/json" } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+    });
+    const json = await res.json();
+    if (!res.ok) throw new Error(json.error || "Alerts request failed");
+    return json;
+}
+
+// Shows a browser notification for each log entry newer than the last one seen here
+function notifyNewEvents(log: AlertEvent[]) {
+    const seen = readStored(STORAGE_KEYS.alertsSeen, "");
+    const fresh = log.filter(event => event.firedAt > seen);
+    if (fresh.length === 0) return;
+    writeStored(STORAGE_KEYS.alertsSeen, fresh[0].firedAt);
+
+    // First visit: remember the log position without replaying history
+    if (!seen || readPermission() !== "granted") return;
+    fresh.slice(0, 5).forEach(event => {
+        new Notification(event.ruleName, { body: event.message, tag: event.id });
+    });
+}
+
+function Alerts({ currentSymbol }: AlertsProps) {
+    const [state, setState] = useState<AlertsState>({ rules: [], log: [], active: {}, lastCheck: null });
+    const [draft, setDraft] = useState(DEFAULT_DRAFT);
+    const [error, setError] = useState<string | null>(null);
+    const [checking, setChecking] = useState(false);
+    const permission = useSyncExternalStore(subscribePermission, readPermission, () => "default");
+
+    const load = () => alertsRequest<AlertsState>("GET")
+        .then((json) => {
+            setState(json);
+            notifyNewEvents(json.log);
+        })
+        .catch(err => console.error("Alert log refresh failed", err));
+
+    // The server checks rules on its own schedule; the page only polls the log
+    useEffect(() => {
+        load();
+        const intervalId = setInterval(load, ALERT_POLL_MS);
+        return () => clearInterval(intervalId);
+    }, []);
+
+    const update = (field: keyof typeof DEFAULT_DRAFT, value: string) => setDraft(prev => ({ ...prev, [field]: value }));
+
+    const buildCondition = () => {
+        const symbol = draft.symbol.trim() || currentSymbol || "";
+        switch (draft.kind) {
+            case "sigmaMove":
+                return { kind: draft.kind, symbol, direction: draft.direction, sigma: Number(draft.sigma) };
+            case "bandCross":
+                return { kind: draft.kind, symbol, band: draft.band, period: Number(draft.period), k: Number(draft.k) };
+            case "market":
+                return { kind: draft.kind, metric: draft.metric, operator: draft.operator, value: Number(draft.value) };
+        }
+    };
+
+    const createRule = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError(null);
+        try {
+            await alertsRequest("POST", { name: draft.name, condition: buildCondition() });
+            setDraft(prev => ({ ...prev, name: "", symbol: "" }));
+            await load();
+        } catch (err: unknown) {
+            setError((err as Error).message);
+        }
+    };
+
+    const changeRule = async (request: Promise<unknown>) => {
+        setError(null);
+        try {
+            await request;
+            await load();
+        } catch (err: unknown) {
+            setError((err as Error).message);
+        }
+    };
+
+    const checkNow = async () => {
+        setChecking(true);
+        setError(null);
+        try {
+            const res = await fetch("/api/alerts/check", { method: "POST" });
+            const json = await res.json();
+            if (!res.ok) throw new Error(json.error || "Alert check failed");
+            if (json.errors.length > 0) setError(json.errors.map((e: { source: string; error: string }) => `${e.source}: ${e.error}`).join("; "));
+            await load();
+        } catch (err: unknown) {
+            setError((err as Error).message);
+        } finally {
+            setChecking(false);
+        }
+    };
+
+    const enableNotifications = async () => {
+        await Notification.requestPermission();
+        permissionListeners.forEach(listener => listener());
+    };
+
+    const inputClass = "px-3 py-2 bg-gray-800/50 border border-gray-700 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:border-blue-500";
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="w-full max-w-6xl mx-auto mt-8 bg-gray-900/50 backdrop-blur-xl border border-gray-800 rounded-3xl p-6 shadow-xl"
+        >
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                <div className="flex items-center gap-3">
+                    <div className="p-2 bg-amber-500/10 rounded-xl">
+                        <Bell className="w-6 h-6 text-amber-400" />
+                    </div>
+                    <h3 className="text-xl font-semibold text-white">Alerts</h3>
+                    {state.lastCheck && (
+                        <span className="text-xs text-gray-500">Last check {new Date(state.lastCheck).toLocaleString()}</span>
+                    )}
+                </div>
+                <div className="flex gap-2">
+                    {permission === "default" && (
+                        <button onClick={enableNotifications} className="px-3 py-2 rounded-lg bg-gray-800 border border-gray-700 text-gray-300 text-sm hover:text-white transition-colors">
+                            <BellRing className="w-4 h-4 inline mr-1" />Enable notifications
+                        </button>
+                    )}
+                    <button onClick={checkNow} disabled={checking} className="px-3 py-2 rounded-lg bg-gray-800 border border-gray-700 text-gray-300 text-sm hover:text-white transition-colors disabled:opacity-50">
+                        <RefreshCw className={`w-4 h-4 inline mr-1 ${checking ? 'animate-spin' : ''}`} />Check now
+                    </button>
+                </div>
+            </div>
+
+            <form onSubmit={createRule} className="flex flex-wrap gap-2 mb-4">
+                <select value={draft.kind} onChange={(e) => update("kind", e.target.value)} className={inputClass}>
+                    {Object.entries(ALERT_KINDS).map(([kind, label]) => <option key={kind} value={kind}>{label}</option>)}
+                </select>
+
+                {draft.kind !== "market" && (
+                    <input
+                        type="text"
+                        value={draft.symbol}
+                        onChange={(e) => update("symbol", e.target.value)}
+                        placeholder={currentSymbol || "Symbol"}
+                        className={`${inputClass} w-28`}
+                    />
+                )}
+                {draft.kind === "sigmaMove" && (
+                    <>
+                        <select value={draft.direction} onChange={(e) => update("direction", e.target.value)} className={inputClass}>
+                            <option value="below">below -</option>
+                            <option value="above">above +</option>
+                        </select>
+                        <input type="number" step="0.1" value={draft.sigma} onChange={(e) => update("sigma", e.target.value)} className={`${inputClass} w-20`} title="σ" />
+                        <span className="self-center text-sm text-gray-400">σ</span>
+                    </>
+                )}
+                {draft.kind === "bandCross" && (
+                    <>
+                        <select value={draft.band} onChange={(e) => update("band", e.target.value)} className={inputClass}>
+                            <option value="lower">below lower band</option>
+                            <option value="upper">above upper band</option>
+                        </select>
+                        <input type="number" value={draft.period} onChange={(e) => update("period", e.target.value)} className={`${inputClass} w-20`} title="Period" />
+                        <input type="number" step="0.5" value={draft.k} onChange={(e) => update("k", e.target.value)} className={`${inputClass} w-20`} title="Width (σ)" />
+                    </>
+                )}
+                {draft.kind === "market" && (
+                    <>
+                        <select value={draft.metric} onChange={(e) => update("metric", e.target.value)} className={inputClass}>
+                            {Object.entries(MARKET_METRIC_LABELS).map(([metric, label]) => <option key={metric} value={metric}>{label}</option>)}
+                        </select>
+                        <select value={draft.operator} onChange={(e) => update("operator", e.target.value)} className={inputClass}>
+                            <option value=">">&gt;</option>
+                            <option value="<">&lt;</option>
+                        </select>
+                        <input type="number" value={draft.value} onChange={(e) => update("value", e.target.value)} className={`${inputClass} w-24`} />
+                    </>
+                )}
+
+                <input
+                    type="text"
+                    value={draft.name}
+                    onChange={(e) => update("name", e.target.value)}
+                    placeholder="Name (optional)"
+                    className={inputClass}
+                />
+                <button type="submit" className="px-3 py-2 rounded-lg bg-blue-600 text-white text-sm hover:bg-blue-500 transition-colors">
+                    <Plus className="w-4 h-4" />
+                </button>
+                {error && <span className="self-center text-sm text-red-400">{error}</span>}
+            </form>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div>
+                    <div className="text-gray-400 text-xs font-medium uppercase tracking-wider mb-2">Rules</div>
+                    {state.rules.length === 0 ? (
+                        <div className="text-gray-500 text-sm">No alert rules yet.</div>
+                    ) : (
+                        <ul className="space-y-2">
+                            {state.rules.map(rule => (
+                                <li key={rule.id} className="flex items-center gap-3 px-3 py-2 rounded-lg border border-gray-800 text-sm">
+                                    <span className={`w-2 h-2 rounded-full ${state.active[rule.id] ? 'bg-amber-400' : 'bg-gray-600'}`} title={state.active[rule.id] ? "Condition met" : "Not met"} />
+                                    <div className="flex-1 min-w-0">
+                                        <div className={`font-medium truncate ${rule.enabled ? 'text-white' : 'text-gray-500'}`}>{rule.name}</div>
+                                        {rule.name !== describeCondition(rule.condition) && (
+                                            <div className="text-xs text-gray-500 truncate">{describeCondition(rule.condition)}</div>
+                                        )}
+                                    </div>
+                                    <button
+                                        onClick={() => changeRule(alertsRequest("PATCH", { id: rule.id, enabled: !rule.enabled }))}
+                                        className={`px-2 py-0.5 rounded text-xs ${rule.enabled ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white hover:bg-white/5'}`}
+                                    >
+                                        {rule.enabled ? "On" : "Off"}
+                                    </button>
+                                    <button onClick={() => changeRule(alertsRequest("DELETE", undefined, `?id=${encodeURIComponent(rule.id)}`))} className="text-gray-500 hover:text-red-400" title="Delete rule">
+                                        <Trash2 className="w-4 h-4" />
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                <div>
+                    <div className="text-gray-400 text-xs font-medium uppercase tracking-wider mb-2">Alert Log</div>
+                    {state.log.length === 0 ? (
+                        <div className="text-gray-500 text-sm">Nothing has fired yet.</div>
+                    ) : (
+                        <ul className="space-y-2">
+                            {state.log.slice(0, LOG_ROWS).map(event => (
+                                <li key={event.id} className="px-3 py-2 rounded-lg bg-gray-800/30 text-sm">
+                                    <div className="flex justify-between gap-2">
+                                        <span className="font-medium text-white truncate">{event.ruleName}</span>
+                                        <span className="text-xs text-gray-500 whitespace-nowrap">{new Date(event.firedAt).toLocaleString()}</span>
+                                    </div>
+                                    <div className="text-gray-400">{event.message}</div>
+                                    {event.deliveries.map(d => (
+                                        <span
+                                            key={d.channel}
+                                            className={`inline-block mt-1 mr-1 px-2 py-0.5 rounded-full text-xs ${d.ok ? 'bg-green-500/20 text-green-400' : 'bg-red-500/20 text-red-400'}`}
+                                            title={d.error}
+                                        >
+                                            {d.channel}
+                                        </span>
+                                    ))}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </div>
+        </motion.div>
+    );
+}
+
+export default memo(Alerts);
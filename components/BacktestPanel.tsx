@@ -0,0 +1,285 @@
+"use client";
+
+import { useMemo, useState, memo } from "react";
+import { AreaChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from "recharts";
+import { motion } from "framer-motion";
+import { FlaskConical } from "lucide-react";
+import {
+    allRules, bollingerTouchRule, calendarRule, regimeRule, runBacktest, sigmaZoneRule, smaCrossRule,
+    type BacktestConfig, type BacktestSeries, type Rule, type Sizing
+} from "@/lib/backtest";
+import type { VolatilityRegime } from "@/lib/volatility";
+import { currencySymbol, formatMoney } from "@/lib/format";
+import { performanceMetrics, type PerformanceMetrics } from "@/lib/performance";
+import type { BarInterval } from "@/lib/ranges";
+import PerformanceReport from "@/components/PerformanceReport";
+
+interface BacktestPanelProps {
+    series: BacktestSeries;
+    currentPrice: number;
+    currency: string;
+    interval: BarInterval;
+    benchmark: PerformanceMetrics | null;
+    formatDateTick: (value: string) => string;
+}
+
+// Rule menu shared by the entry and exit selects
+const RULES: Record<string, { label: string; rule: Rule }> = {
+    sigmaDrop: { label: "Drop ≤ -1σ", rule: sigmaZoneRule(["-2", "-1"]) },
+    sigmaCrash: { label: "Drop ≤ -2σ", rule: sigmaZoneRule(["-2"]) },
+    sigmaRally: { label: "Rally ≥ +1σ", rule: sigmaZoneRule(["1", "2"]) },
+    bollingerLower: { label: "Touch lower Bollinger", rule: bollingerTouchRule("lower") },
+    bollingerUpper: { label: "Touch upper Bollinger", rule: bollingerTouchRule("upper") },
+    goldenCross: { label: "SMA 20 crosses above 50", rule: smaCrossRule(20, 50, "above") },
+    deathCross: { label: "SMA 20 crosses below 50", rule: smaCrossRule(20, 50, "below") },
+    monthly: { label: "Every month (DCA)", rule: calendarRule("month") },
+    weekly: { label: "Every week (DCA)", rule: calendarRule("week") },
+    regimeHigh: { label: "High-volatility regime", rule: regimeRule(["high"]) },
+    regimeLow: { label: "Low-volatility regime", rule: regimeRule(["low"]) },
+};
+
+// Entry filter: buy signals only count in these volatility regimes (EWMA against its
+// percentiles so far, see regimeRule)
+const REGIME_FILTERS: Record<string, { label: string; regimes: VolatilityRegime[] | null }> = {
+    any: { label: "Any regime", regimes: null },
+    low: { label: "Low volatility", regimes: ["low"] },
+    normal: { label: "Normal volatility", regimes: ["normal"] },
+    high: { label: "High volatility", regimes: ["high"] },
+    notHigh: { label: "Low or normal", regimes: ["low", "normal"] },
+};
+
+const SIZING_LABELS: Record<Sizing["type"], string> = {
+    shares: "Shares per buy",
+    cash: "Cash per buy",
+    percentEquity: "% of equity per buy",
+};
+
+// Empty input means "not set"
+const optionalNumber = (value: string) => value.trim() === "" ? undefined : parseFloat(value);
+
+function BacktestPanel({ series, currentPrice, currency, interval, benchmark, formatDateTick }: BacktestPanelProps) {
+    const money = (value: number, digits?: number) => formatMoney(value, currency, digits);
+    const moneyTick = (value: number) => `${currencySymbol(currency)}${value.toLocaleString()}`;
+    const [entry, setEntry] = useState("bollingerLower");
+    const [exit, setExit] = useState("bollingerUpper");
+    const [regimeFilter, setRegimeFilter] = useState("any");
+    const [sellPercent, setSellPercent] = useState("100");
+    const [takeProfit, setTakeProfit] = useState("");
+    const [stopLoss, setStopLoss] = useState("");
+    const [sizingType, setSizingType] = useState<Sizing["type"]>("percentEquity");
+    const [sizingValue, setSizingValue] = useState("25");
+    const [initialCash, setInitialCash] = useState("10000");
+    const [perTrade, setPerTrade] = useState("1");
+    const [commissionPercent, setCommissionPercent] = useState("0");
+    const [slippageBps, setSlippageBps] = useState("5");
+    const [dividends, setDividends] = useState<"reinvest" | "cash">("reinvest");
+    const [fractional, setFractional] = useState(false);
+
+    const outcome = useMemo(() => {
+        const value = parseFloat(sizingValue) || 0;
+        const sizing: Sizing = sizingType === "shares"
+            ? { type: "shares", shares: value }
+            : sizingType === "cash" ? { type: "cash", amount: value } : { type: "percentEquity", percent: value };
+
+        const config: BacktestConfig = {
+            entry: [REGIME_FILTERS[regimeFilter].regimes
+                ? allRules(RULES[entry].rule, regimeRule(REGIME_FILTERS[regimeFilter].regimes!))
+                : RULES[entry].rule],
+            exit: exit !== "none" || takeProfit || stopLoss ? {
+                rules: exit !== "none" ? [RULES[exit].rule] : [],
+                takeProfitPercent: optionalNumber(takeProfit),
+                stopLossPercent: optionalNumber(stopLoss),
+                fraction: (parseFloat(sellPercent) || 0) / 100
+            } : undefined,
+            sizing,
+            initialCash: optionalNumber(initialCash),
+            fractional,
+            commission: { perTrade: optionalNumber(perTrade), percent: optionalNumber(commissionPercent) },
+            slippageBps: optionalNumber(slippageBps),
+            dividends
+        };
+
+        try {
+            const result = runBacktest(series, config, currentPrice);
+            return { result, metrics: performanceMetrics(result.history, { interval }), error: null };
+        } catch (err: unknown) {
+            return { result: null, metrics: null, error: (err as Error).message };
+        }
+    }, [series, currentPrice, entry, regimeFilter, exit, sellPercent, takeProfit, stopLoss, sizingType, sizingValue, initialCash, perTrade, commissionPercent, slippageBps, dividends, fractional, interval]);
+
+    const chartData = useMemo(() => {
+        const history = outcome.result?.history || [];
+        const step = Math.max(1, Math.ceil(history.length / 500));
+        return history.filter((_, i) => i % step === 0 || i === history.length - 1);
+    }, [outcome.result]);
+
+    const inputClass = "w-full px-3 py-1.5 bg-gray-800/50 border border-gray-700 rounded-lg text-sm text-white focus:outline-none focus:border-blue-500";
+    const labelClass = "block text-gray-400 text-xs font-medium uppercase tracking-wider mb-1";
+    const result = outcome.result;
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.7 }}
+            className="bg-gray-900/50 backdrop-blur-xl border border-gray-800 rounded-3xl p-6 shadow-xl lg:col-span-2"
+        >
+            <div className="flex items-center gap-3 mb-6">
+                <div className="p-2 bg-purple-500/10 rounded-xl">
+                    <FlaskConical className="w-6 h-6 text-purple-400" />
+                </div>
+                <div>
+                    <h3 className="text-xl font-semibold text-white">Strategy Backtest</h3>
+                    <p className="text-gray-400 text-sm">Custom entry/exit rules with sizing, commissions and slippage</p>
+                </div>
+            </div>
+
+            {/* Strategy Controls */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                <label>
+                    <span className={labelClass}>Buy when</span>
+                    <select value={entry} onChange={(e) => setEntry(e.target.value)} className={inputClass}>
+                        {Object.entries(RULES).map(([id, r]) => <option key={id} value={id}>{r.label}</option>)}
+                    </select>
+                </label>
+                <label>
+                    <span className={labelClass}>Only buy in</span>
+                    <select value={regimeFilter} onChange={(e) => setRegimeFilter(e.target.value)} className={inputClass}>
+                        {Object.entries(REGIME_FILTERS).map(([id, f]) => <option key={id} value={id}>{f.label}</option>)}
+                    </select>
+                </label>
+                <label>
+                    <span className={labelClass}>Sell when</span>
+                    <select value={exit} onChange={(e) => setExit(e.target.value)} className={inputClass}>
+                        <option value="none">Never (hold)</option>
+                        {Object.entries(RULES).map(([id, r]) => <option key={id} value={id}>{r.label}</option>)}
+                    </select>
+                </label>
+                <label>
+                    <span className={labelClass}>Take profit / stop loss %</span>
+                    <div className="flex gap-2">
+                        <input type="number" min="0" step="any" value={takeProfit} onChange={(e) => setTakeProfit(e.target.value)} placeholder="TP" className={inputClass} />
+                        <input type="number" min="0" step="any" value={stopLoss} onChange={(e) => setStopLoss(e.target.value)} placeholder="SL" className={inputClass} />
+                    </div>
+                </label>
+                <label>
+                    <span className={labelClass}>% of position sold</span>
+                    <input type="number" min="1" max="100" value={sellPercent} onChange={(e) => setSellPercent(e.target.value)} className={inputClass} />
+                </label>
+
+                <label>
+                    <span className={labelClass}>Sizing</span>
+                    <select value={sizingType} onChange={(e) => setSizingType(e.target.value as Sizing["type"])} className={inputClass}>
+                        {Object.entries(SIZING_LABELS).map(([id, label]) => <option key={id} value={id}>{label}</option>)}
+                    </select>
+                </label>
+                <label>
+                    <span className={labelClass}>{SIZING_LABELS[sizingType]}</span>
+                    <input type="number" min="0" step="any" value={sizingValue} onChange={(e) => setSizingValue(e.target.value)} className={inputClass} />
+                </label>
+                <label>
+                    <span className={labelClass}>Starting cash</span>
+                    <input type="number" min="0" step="any" value={initialCash} onChange={(e) => setInitialCash(e.target.value)} placeholder="Unlimited contributions" className={inputClass} />
+                </label>
+                <label>
+                    <span className={labelClass}>Dividends</span>
+                    <select value={dividends} onChange={(e) => setDividends(e.target.value as "reinvest" | "cash")} className={inputClass}>
+                        <option value="reinvest">Reinvest</option>
+                        <option value="cash">Keep as cash</option>
+                    </select>
+                </label>
+
+                <label>
+                    <span className={labelClass}>Commission / trade</span>
+                    <input type="number" min="0" step="any" value={perTrade} onChange={(e) => setPerTrade(e.target.value)} className={inputClass} />
+                </label>
+                <label>
+                    <span className={labelClass}>Commission %</span>
+                    <input type="number" min="0" step="any" value={commissionPercent} onChange={(e) => setCommissionPercent(e.target.value)} className={inputClass} />
+                </label>
+                <label>
+                    <span className={labelClass}>Slippage (bps)</span>
+                    <input type="number" min="0" step="any" value={slippageBps} onChange={(e) => setSlippageBps(e.target.value)} className={inputClass} />
+                </label>
+                <label className="flex items-end gap-2 pb-2 text-sm text-gray-300">
+                    <input type="checkbox" checked={fractional} onChange={(e) => setFractional(e.target.checked)} />
+                    Fractional shares
+                </label>
+            </div>
+
+            {outcome.error && <div className="mb-6 text-sm text-red-400">{outcome.error}</div>}
+
+            {result && (
+                <>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                        <div className="bg-gray-800/50 rounded-2xl p-3 border border-gray-700/50">
+                            <div className="text-gray-400 text-xs font-medium uppercase tracking-wider mb-1">Buys / Sells</div>
+                            <div className="text-white font-bold text-lg">{result.totalBuys} / {result.totalSells}</div>
+                        </div>
+                        <div className="bg-gray-800/50 rounded-2xl p-3 border border-gray-700/50">
+                            <div className="text-gray-400 text-xs font-medium uppercase tracking-wider mb-1">Invested</div>
+                            <div className="text-white font-bold text-lg">{money(result.totalInvested, 0)}</div>
+                        </div>
+                        <div className="bg-gray-800/50 rounded-2xl p-3 border border-gray-700/50">
+                            <div className="text-gray-400 text-xs font-medium uppercase tracking-wider mb-1">Realized P&L</div>
+                            <div className={`font-bold text-lg ${result.realized >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                                ${result.realized.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                            </div>
+                        </div>
+                        <div className="bg-gray-800/50 rounded-2xl p-3 border border-gray-700/50">
+                            <div className="text-gray-400 text-xs font-medium uppercase tracking-wider mb-1">Costs</div>
+                            <div className="text-white font-bold text-lg">{money(result.totalCommissions, 2)}</div>
+                        </div>
+                        <div className="bg-gray-800/50 rounded-2xl p-3 border border-gray-700/50">
+                            <div className="text-gray-400 text-xs font-medium uppercase tracking-wider mb-1">Dividends</div>
+                            <div className="text-green-400 font-bold text-lg">+{money(result.totalDividends, 2)}</div>
+                        </div>
+                        <div className="bg-gray-800/50 rounded-2xl p-3 border border-gray-700/50">
+                            <div className="text-gray-400 text-xs font-medium uppercase tracking-wider mb-1">Cash</div>
+                            <div className="text-white font-bold text-lg">{money(result.cash, 0)}</div>
+                        </div>
+                        <div className="bg-gray-800/50 rounded-2xl p-3 border border-gray-700/50">
+                            <div className="text-gray-400 text-xs font-medium uppercase tracking-wider mb-1">Current Value</div>
+                            <div className="text-white font-bold text-lg">{money(result.currentValue, 0)}</div>
+                        </div>
+                        <div className="bg-gray-800/50 rounded-2xl p-3 border border-gray-700/50">
+                            <div className="text-gray-400 text-xs font-medium uppercase tracking-wider mb-1">Total Return</div>
+                            <div className={`font-bold text-lg ${result.totalReturn >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                                {result.totalReturn >= 0 ? '+' : ''}{result.totalReturn.toFixed(2)}%
+                            </div>
+                        </div>
+                    </div>
+
+                    {outcome.metrics && <PerformanceReport metrics={outcome.metrics} benchmark={benchmark} />}
+
+                    <div className="h-[350px] w-full">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <AreaChart data={chartData}>
+                                <defs>
+                                    <linearGradient id="colorBacktestValue" x1="0" y1="0" x2="0" y2="1">
+                                        <stop offset="5%" stopColor="#a855f7" stopOpacity={0.3} />
+                                        <stop offset="95%" stopColor="#a855f7" stopOpacity={0} />
+                                    </linearGradient>
+                                </defs>
+                                <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" vertical={false} />
+                                <XAxis dataKey="date" stroke="#6b7280" tickFormatter={formatDateTick} minTickGap={50} />
+                                <YAxis stroke="#6b7280" tickFormatter={moneyTick} />
+                                <Tooltip
+                                    contentStyle={{ backgroundColor: '#111827', borderColor: '#374151', borderRadius: '12px' }}
+                                    itemStyle={{ color: '#e5e7eb' }}
+                                    labelStyle={{ color: '#9ca3af' }}
+                                    formatter={(value: number) => money(value, 0)}
+                                />
+                                <Legend />
+                                <Area type="monotone" dataKey="value" name="Strategy Value" stroke="#a855f7" fill="url(#colorBacktestValue)" strokeWidth={2} />
+                                <Line type="step" dataKey="invested" name="Invested Capital" stroke="#9ca3af" strokeWidth={2} dot={false} strokeDasharray="5 5" />
+                            </AreaChart>
+                        </ResponsiveContainer>
+                    </div>
+                </>
+            )}
+        </motion.div>
+    );
+}
+
+export default memo(BacktestPanel);
@@ -0,0 +1,225 @@
+"use client";
+
+import { useMemo, useState, memo } from "react";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from "recharts";
+import { motion } from "framer-motion";
+import { GitCompare, Plus, X } from "lucide-react";
+import type { StockData } from "@/components/StockDashboard";
+import { priceSeries } from "@/lib/adjustments";
+import { toBaseCurrency } from "@/lib/fx";
+import { alignCloses, correlationMatrix, pctReturns, rebase, returnDistribution, sigmaZone, SIGMA_ZONE_LABELS } from "@/lib/analytics";
+
+interface ComparisonViewProps {
+    items: StockData[];
+    loading: boolean;
+    errors: { query: string; error: string }[];
+    onAdd: (query: string) => void;
+    onRemove: (symbol: string) => void;
+}
+
+const COLORS = ["#3b82f6", "#10b981", "#f59e0b", "#ef4444", "#8b5cf6", "#ec4899", "#14b8a6", "#f97316", "#a3e635", "#e5e7eb"];
+
+// Red for negative, green for positive correlation, stronger with |r|
+const correlationColor = (r: number) => {
+    if (isNaN(r)) return "transparent";
+    return r >= 0 ? `rgba(16, 185, 129, ${Math.abs(r) * 0.6})` : `rgba(239, 68, 68, ${Math.abs(r) * 0.6})`;
+};
+
+function ComparisonView({ items, loading, errors, onAdd, onRemove }: ComparisonViewProps) {
+    const [input, setInput] = useState("");
+
+    // Same adjusted basis as the dashboard: split-adjusted closes, total-return
+    // changes, and in the base currency so listings in different currencies compare
+    const adjusted = useMemo(() => items.map(toBaseCurrency).map(item => {
+        const { history, changes } = priceSeries(item.history, item.splits || [], item.dividends || []);
+        return { symbol: item.symbol, history, changes: changes.slice(1) };
+    }), [items]);
+
+    const comparison = useMemo(() => {
+        const { dates, closes } = alignCloses(adjusted.map(a => a.history));
+        const rebased = closes.map(c => rebase(c));
+
+        const chartData = dates.map((date, i) => {
+            const point: Record<string, string | number> = { date };
+            adjusted.forEach((a, k) => { point[a.symbol] = rebased[k][i]; });
+            return point;
+        });
+
+        return {
+            chartData,
+            correlations: correlationMatrix(closes.map(pctReturns)),
+            overlapDays: dates.length
+        };
+    }, [adjusted]);
+
+    const sigmaStats = useMemo(() => adjusted.map((a, k) => {
+        const dist = returnDistribution(a.changes);
+        const lastChange = a.changes[a.changes.length - 1] ?? 0;
+        const rebased = comparison.chartData.length ? (comparison.chartData[comparison.chartData.length - 1][a.symbol] as number) : 100;
+        return {
+            symbol: a.symbol,
+            color: COLORS[k % COLORS.length],
+            mean: dist.mean,
+            sd: dist.sd,
+            within1: dist.totalDays ? (dist.count1Sigma / dist.totalDays) * 100 : 0,
+            within2: dist.totalDays ? (dist.count2Sigma / dist.totalDays) * 100 : 0,
+            lastChange,
+            zone: sigmaZone(lastChange, dist.mean, dist.sd),
+            totalReturn: rebased - 100
+        };
+    }), [adjusted, comparison.chartData]);
+
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!input.trim()) return;
+        onAdd(input.trim());
+        setInput("");
+    };
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="w-full max-w-6xl mx-auto mt-8 bg-gray-900/50 backdrop-blur-xl border border-gray-800 rounded-3xl p-6 shadow-xl"
+        >
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+                <div className="flex items-center gap-3">
+                    <div className="p-2 bg-indigo-500/10 rounded-xl">
+                        <GitCompare className="w-6 h-6 text-indigo-400" />
+                    </div>
+                    <div>
+                        <h3 className="text-xl font-semibold text-white">Compare</h3>
+                        <p className="text-gray-400 text-sm">Rebased to 100 over {comparison.overlapDays} common trading days</p>
+                    </div>
+                </div>
+                <form onSubmit={handleAdd} className="flex gap-2">
+                    <input
+                        type="text"
+                        value={input}
+                        onChange={(e) => setInput(e.target.value)}
+                        placeholder="Add symbol (e.g., SPY)"
+                        className="px-3 py-2 bg-gray-800/50 border border-gray-700 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:border-blue-500"
+                        disabled={loading}
+                    />
+                    <button
+                        type="submit"
+                        disabled={loading}
+                        className="px-3 py-2 rounded-lg bg-blue-600 text-white text-sm hover:bg-blue-500 transition-colors disabled:opacity-50"
+                    >
+                        <Plus className="w-4 h-4" />
+                    </button>
+                </form>
+            </div>
+
+            {/* Symbol chips */}
+            <div className="flex flex-wrap gap-2 mb-6">
+                {sigmaStats.map((s, i) => (
+                    <span key={s.symbol} className="flex items-center gap-2 px-3 py-1 rounded-full bg-gray-800/70 border border-gray-700 text-sm text-white">
+                        <span className="w-2 h-2 rounded-full" style={{ backgroundColor: s.color }} />
+                        {s.symbol}
+                        {i > 0 && (
+                            <button onClick={() => onRemove(s.symbol)} className="text-gray-500 hover:text-red-400">
+                                <X className="w-3 h-3" />
+                            </button>
+                        )}
+                    </span>
+                ))}
+                {loading && <span className="text-gray-500 text-sm">Loading…</span>}
+                {errors.map(e => (
+                    <span key={e.query} className="px-3 py-1 rounded-full bg-red-500/10 border border-red-500/20 text-sm text-red-400">
+                        {e.query}: {e.error}
+                    </span>
+                ))}
+            </div>
+
+            {items.length > 1 && (
+                <>
+                    <div className="h-[350px] w-full mb-8">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <LineChart data={comparison.chartData}>
+                                <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" vertical={false} />
+                                <XAxis dataKey="date" stroke="#6b7280" minTickGap={50} tickFormatter={(str) => str.slice(0, 7)} />
+                                <YAxis stroke="#6b7280" domain={['auto', 'auto']} />
+                                <Tooltip
+                                    contentStyle={{ backgroundColor: '#111827', borderColor: '#374151', borderRadius: '12px' }}
+                                    itemStyle={{ color: '#e5e7eb' }}
+                                    labelStyle={{ color: '#9ca3af' }}
+                                    formatter={(value: number) => value.toFixed(2)}
+                                />
+                                <Legend />
+                                <ReferenceLine y={100} stroke="#6b7280" strokeDasharray="3 3" />
+                                {sigmaStats.map(s => (
+                                    <Line key={s.symbol} type="monotone" dataKey={s.symbol} stroke={s.color} strokeWidth={2} dot={false} />
+                                ))}
+                            </LineChart>
+                        </ResponsiveContainer>
+                    </div>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                        {/* Correlation Matrix */}
+                        <div>
+                            <div className="text-gray-400 text-xs font-medium uppercase tracking-wider mb-2">Return Correlation</div>
+                            <div className="overflow-x-auto">
+                                <table className="text-sm text-white">
+                                    <thead>
+                                        <tr>
+                                            <th />
+                                            {sigmaStats.map(s => <th key={s.symbol} className="px-2 py-1 text-gray-400 font-medium">{s.symbol}</th>)}
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {comparison.correlations.map((row, i) => (
+                                            <tr key={sigmaStats[i].symbol}>
+                                                <td className="px-2 py-1 text-gray-400 font-medium">{sigmaStats[i].symbol}</td>
+                                                {row.map((r, j) => (
+                                                    <td key={j} className="px-2 py-1 text-center rounded" style={{ backgroundColor: correlationColor(r) }}>
+                                                        {isNaN(r) ? "–" : r.toFixed(2)}
+                                                    </td>
+                                                ))}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+
+                        {/* Side-by-side Sigma Statistics */}
+                        <div>
+                            <div className="text-gray-400 text-xs font-medium uppercase tracking-wider mb-2">Sigma Statistics</div>
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-sm text-white">
+                                    <thead>
+                                        <tr className="text-gray-400 text-left">
+                                            <th className="py-1 pr-2 font-medium">Symbol</th>
+                                            <th className="py-1 pr-2 font-medium">Return</th>
+                                            <th className="py-1 pr-2 font-medium">Mean</th>
+                                            <th className="py-1 pr-2 font-medium">1σ</th>
+                                            <th className="py-1 pr-2 font-medium">In 1σ / 2σ</th>
+                                            <th className="py-1 font-medium">Today</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {sigmaStats.map(s => (
+                                            <tr key={s.symbol} className="border-t border-gray-800">
+                                                <td className="py-1 pr-2 font-medium" style={{ color: s.color }}>{s.symbol}</td>
+                                                <td className={`py-1 pr-2 ${s.totalReturn >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                                                    {s.totalReturn >= 0 ? '+' : ''}{s.totalReturn.toFixed(1)}%
+                                                </td>
+                                                <td className="py-1 pr-2">{s.mean.toFixed(2)}%</td>
+                                                <td className="py-1 pr-2">±{s.sd.toFixed(2)}%</td>
+                                                <td className="py-1 pr-2">{s.within1.toFixed(1)}% / {s.within2.toFixed(1)}%</td>
+                                                <td className="py-1">{s.lastChange.toFixed(2)}% <span className="text-gray-500">({SIGMA_ZONE_LABELS[s.zone]})</span></td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    </div>
+                </>
+            )}
+        </motion.div>
+    );
+}
+
+export default memo(ComparisonView);
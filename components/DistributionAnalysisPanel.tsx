@@ -0,0 +1,92 @@
+"use client";
+
+import { memo } from "react";
+import type { DistributionAnalysis, ReturnKind, TailEstimate, TailRisk } from "@/lib/distribution";
+
+interface DistributionAnalysisPanelProps {
+    analysis: DistributionAnalysis;
+    returnKind: ReturnKind;
+    barUnit: string; // "day" or "bar"
+}
+
+const loss = (estimate: TailEstimate | null, key: keyof TailEstimate) => estimate ? `-${estimate[key].toFixed(2)}%` : "–";
+
+const MODELS: { label: string; estimate: (risk: TailRisk) => TailEstimate | null }[] = [
+    { label: "Historical", estimate: risk => risk.historical },
+    { label: "Normal", estimate: risk => risk.normal },
+    { label: "Student-t", estimate: risk => risk.studentT },
+];
+
+function DistributionAnalysisPanel({ analysis, returnKind, barUnit }: DistributionAnalysisPanelProps) {
+    const { skewness, excessKurtosis, jarqueBera, studentT, tailRisk } = analysis;
+    const rejected = jarqueBera.pValue < 0.05;
+
+    // How much a normal model understates the worst tail compared with history
+    const worst = tailRisk[tailRisk.length - 1];
+    const understated = worst.historical.cvar > worst.normal.cvar
+        ? (worst.historical.cvar / worst.normal.cvar - 1) * 100
+        : null;
+
+    return (
+        <div className="mt-6 space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="bg-gray-800/50 rounded-2xl p-3 border border-gray-700/50 text-center">
+                    <div className="text-gray-400 text-xs font-medium uppercase tracking-wider mb-1">Skewness</div>
+                    <div className="text-white font-bold text-lg">{skewness.toFixed(2)}</div>
+                    <div className="text-gray-400 text-xs mt-1">{skewness < -0.1 ? "Left tail heavier" : skewness > 0.1 ? "Right tail heavier" : "Roughly symmetric"}</div>
+                </div>
+                <div className="bg-gray-800/50 rounded-2xl p-3 border border-gray-700/50 text-center">
+                    <div className="text-gray-400 text-xs font-medium uppercase tracking-wider mb-1">Excess Kurtosis</div>
+                    <div className="text-white font-bold text-lg">{excessKurtosis.toFixed(2)}</div>
+                    <div className="text-gray-400 text-xs mt-1">{excessKurtosis > 0.5 ? "Fat tails" : "Near normal (0)"}</div>
+                </div>
+                <div className="bg-gray-800/50 rounded-2xl p-3 border border-gray-700/50 text-center">
+                    <div className="text-gray-400 text-xs font-medium uppercase tracking-wider mb-1">Student-t Fit</div>
+                    <div className="text-white font-bold text-lg">{studentT ? `ν = ${studentT.df}` : "–"}</div>
+                    <div className="text-gray-400 text-xs mt-1">Lower ν, fatter tails</div>
+                </div>
+                <div className="bg-gray-800/50 rounded-2xl p-3 border border-gray-700/50 text-center">
+                    <div className="text-gray-400 text-xs font-medium uppercase tracking-wider mb-1">Jarque-Bera</div>
+                    <div className="text-white font-bold text-lg">{jarqueBera.statistic.toFixed(1)}</div>
+                    <div className={`text-xs mt-1 ${rejected ? 'text-red-400' : 'text-green-400'}`}>
+                        p = {jarqueBera.pValue < 0.001 ? "<0.001" : jarqueBera.pValue.toFixed(3)} · {rejected ? "Not normal" : "Normal not rejected"}
+                    </div>
+                </div>
+            </div>
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm text-white">
+                    <thead>
+                        <tr className="text-gray-400 text-left">
+                            <th className="py-1 pr-2 text-xs font-medium uppercase tracking-wider">Model</th>
+                            {tailRisk.map(risk => (
+                                <th key={risk.confidence} colSpan={2} className="py-1 pr-2 text-xs font-medium uppercase tracking-wider text-right">
+                                    {Math.round(risk.confidence * 100)}% VaR / CVaR
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {MODELS.map(model => (
+                            <tr key={model.label} className="border-t border-gray-800">
+                                <td className="py-1 pr-2 text-gray-400">{model.label}</td>
+                                {tailRisk.map(risk => [
+                                    <td key={`${risk.confidence}-var`} className="py-1 pr-2 text-right">{loss(model.estimate(risk), "var")}</td>,
+                                    <td key={`${risk.confidence}-cvar`} className="py-1 pr-2 text-right text-red-300">{loss(model.estimate(risk), "cvar")}</td>
+                                ])}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <p className="text-gray-500 text-xs mt-2">
+                    One-{barUnit} loss of {returnKind === "log" ? "log" : "simple"} returns; CVaR is the average loss beyond the VaR.
+                    {understated !== null && (
+                        <span className="text-amber-400"> A normal model understates the {Math.round(worst.confidence * 100)}% CVaR by {understated.toFixed(0)}%.</span>
+                    )}
+                </p>
+            </div>
+        </div>
+    );
+}
+
+export default memo(DistributionAnalysisPanel);
@@ -0,0 +1,67 @@
+"use client";
+
+import { memo, useState } from "react";
+import { Download } from "lucide-react";
+import type { StockData } from "@/components/StockDashboard";
+import { dashboardTables, EXPORT_FORMATS, EXPORT_TABLES, exportFile, type DashboardExportOptions, type ExportFormat, type ExportTableName } from "@/lib/export";
+
+interface ExportMenuProps {
+    data: StockData; // as displayed (already in the base currency in that view)
+    options: DashboardExportOptions;
+}
+
+const TABLE_LABELS: Record<ExportTableName, string> = {
+    history: "Price & indicators",
+    distribution: "Return histogram",
+    distributionStats: "Sigma counts",
+    volatilitySimulation: "Volatility simulation",
+    dcaSimulation: "DCA simulation",
+};
+
+function download(fileName: string, contentType: string, body: BlobPart) {
+    const url = URL.createObjectURL(new Blob([body], { type: contentType }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+// Files are built in the browser with the same lib/export code as /api/export
+function ExportMenu({ data, options }: ExportMenuProps) {
+    const [table, setTable] = useState<ExportTableName | "all">("all");
+
+    const handleExport = (format: ExportFormat) => {
+        const file = exportFile(data, dashboardTables(data, options), format, table === "all" ? undefined : table);
+        download(file.fileName, file.contentType, file.body);
+    };
+
+    return (
+        <div className="flex items-center gap-1 bg-gray-800/50 p-1 rounded-xl border border-gray-700/50 text-xs">
+            <Download className="w-3.5 h-3.5 text-gray-400 ml-1" />
+            <select
+                value={table}
+                onChange={(e) => setTable(e.target.value as ExportTableName | "all")}
+                className="bg-transparent text-gray-300 px-1 py-1 focus:outline-none"
+                aria-label="Table to export"
+            >
+                <option value="all">All tables</option>
+                {EXPORT_TABLES.map(name => <option key={name} value={name}>{TABLE_LABELS[name]}</option>)}
+            </select>
+            {EXPORT_FORMATS.map(format => (
+                <button
+                    key={format}
+                    onClick={() => handleExport(format)}
+                    // A CSV file holds one table
+                    disabled={format === "csv" && table === "all"}
+                    title={format === "csv" && table === "all" ? "Pick one table for CSV" : `Download ${format.toUpperCase()}`}
+                    className="px-2 py-1 rounded-lg font-medium text-gray-400 hover:text-white hover:bg-white/5 disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-gray-400 transition-all"
+                >
+                    {format.toUpperCase()}
+                </button>
+            ))}
+        </div>
+    );
+}
+
+export default memo(ExportMenu);
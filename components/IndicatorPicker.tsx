@@ -0,0 +1,66 @@
+"use client";
+
+import { memo } from "react";
+import { Plus, X } from "lucide-react";
+import { INDICATORS, type IndicatorRequest } from "@/lib/indicators";
+
+interface IndicatorPickerProps {
+    selection: IndicatorRequest[];
+    invalid: Set<number>; // indexes whose parameters failed validation
+    onChange: (selection: IndicatorRequest[]) => void;
+}
+
+// Only indicators a chart can draw are offered
+const CHARTABLE = Object.entries(INDICATORS).filter(([, def]) => def.pane !== "none");
+
+function IndicatorPicker({ selection, invalid, onChange }: IndicatorPickerProps) {
+    const add = (type: string) => {
+        if (!type) return;
+        onChange([...selection, { type, ...INDICATORS[type].defaults }]);
+    };
+
+    const setParam = (index: number, name: string, value: string) => {
+        onChange(selection.map((item, i) => i === index ? { ...item, [name]: value === "" ? "" : Number(value) } : item));
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+            {selection.map((item, index) => {
+                const def = INDICATORS[item.type];
+                if (!def) return null;
+                return (
+                    <div
+                        key={index}
+                        className={`flex items-center gap-1.5 px-2 py-1 rounded-lg border text-xs ${invalid.has(index) ? 'border-red-500/50 bg-red-500/10' : 'border-gray-700 bg-gray-800/50'} text-gray-300`}
+                    >
+                        <span className="font-medium text-white">{def.label}</span>
+                        {Object.keys(def.defaults).map(name => (
+                            <input
+                                key={name}
+                                type="number"
+                                title={name}
+                                value={String(item[name] ?? "")}
+                                onChange={(e) => setParam(index, name, e.target.value)}
+                                className="w-12 px-1 py-0.5 bg-gray-900 border border-gray-700 rounded text-white text-xs focus:outline-none focus:border-blue-500"
+                            />
+                        ))}
+                        <button onClick={() => onChange(selection.filter((_, i) => i !== index))} className="text-gray-500 hover:text-red-400" title="Remove">
+                            <X className="w-3 h-3" />
+                        </button>
+                    </div>
+                );
+            })}
+            <label className="flex items-center gap-1 px-2 py-1 rounded-lg border border-dashed border-gray-700 text-xs text-gray-400 hover:text-white">
+                <Plus className="w-3 h-3" />
+                <select value="" onChange={(e) => add(e.target.value)} className="bg-transparent focus:outline-none">
+                    <option value="">Add indicator</option>
+                    {CHARTABLE.map(([type, def]) => (
+                        <option key={type} value={type} className="bg-gray-900">{def.label} ({def.pane === "overlay" ? "overlay" : "pane"})</option>
+                    ))}
+                </select>
+            </label>
+        </div>
+    );
+}
+
+export default memo(IndicatorPicker);
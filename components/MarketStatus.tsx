@@ -2,19 +2,37 @@
 
 import { useEffect, useState, memo } from "react";
 import { LineChart, Line, ResponsiveContainer, XAxis, YAxis, Tooltip } from "recharts";
-import { TrendingUp, TrendingDown, Activity, AlertTriangle, Zap } from "lucide-react";
+import { TrendingUp, TrendingDown, Activity, AlertTriangle, Zap, BarChart3 } from "lucide-react";
 import { motion } from "framer-motion";
+import { defaultProvenance, type Provenance } from "@/lib/provenance";
+import ProvenanceBadge from "@/components/ProvenanceBadge";
+
+export interface IndexData {
+    symbol: string;
+    current: number | null;
+    change: number;
+    changePercent: number;
+    date: string | null; // session date on the exchange's calendar
+    history: { date: string; close: number }[];
+    provenance: Provenance;
+}
 
 export interface MarketData {
     vix: {
         current: number;
         date: string | null;
         history: { date: string; close: number }[];
+        provenance: Provenance;
+    };
+    // KRX benchmarks
+    indices: {
+        kospi: IndexData;
+        kosdaq: IndexData;
     };
     metrics: {
-        gex: { current: number | null; date: string | null; change: number; history: { date: string; value: number }[] };
-        dix: { current: number | null; date: string | null; change: number; history: { date: string; value: number }[] };
-        fearGreed: { current: number | null; date: string | null; change: number; history: { date: string; value: number }[] };
+        gex: { current: number | null; date: string | null; change: number; history: { date: string; value: number }[]; provenance: Provenance };
+        dix: { current: number | null; date: string | null; change: number; history: { date: string; value: number }[]; provenance: Provenance };
+        fearGreed: { current: number | null; date: string | null; change: number; history: { date: string; value: number }[]; provenance: Provenance };
     };
 }
 
@@ -23,14 +41,61 @@ interface MarketStatusProps {
     loading: boolean;
 }
 
+const emptyIndex = (symbol: string): IndexData => ({ symbol, current: null, change: 0, changePercent: 0, date: null, history: [], provenance: defaultProvenance() });
+
+const formatDate = (dateString: string | null) => {
+    if (!dateString) return "";
+    const date = new Date(dateString);
+    return `${date.getMonth() + 1}/${date.getDate()}`;
+};
+
+// KOSPI / KOSDAQ card: level, daily change and a 30-day sparkline
+function IndexCard({ label, index }: { label: string; index: IndexData }) {
+    const isUp = index.change >= 0;
+    return (
+        <a href={`https://finance.yahoo.com/quote/${encodeURIComponent(index.symbol)}`} target="_blank" rel="noopener noreferrer" className="block">
+            <div className="bg-gray-900/50 backdrop-blur-xl border border-gray-800 rounded-2xl p-4 relative overflow-hidden group hover:bg-gray-800/50 transition-colors cursor-pointer h-full">
+                <div className="relative z-10">
+                    <div className="text-gray-400 text-xs font-medium uppercase tracking-wider flex items-center gap-1">
+                        <BarChart3 className="w-3 h-3" /> {label}
+                        {index.date && <span className="text-gray-600 ml-1">({formatDate(`${index.date}T00:00:00`)})</span>}
+                        <ProvenanceBadge provenance={index.provenance} className="ml-1" />
+                    </div>
+                    {index.current !== null ? (
+                        <div className="flex items-end gap-2 mt-1">
+                            <div className="text-white font-bold text-2xl">{index.current.toLocaleString(undefined, { maximumFractionDigits: 2 })}</div>
+                            <span className={`text-sm mb-1 flex items-center ${isUp ? 'text-green-400' : 'text-red-400'}`}>
+                                {isUp ? <TrendingUp className="w-3 h-3 mr-1" /> : <TrendingDown className="w-3 h-3 mr-1" />}
+                                {isUp ? '+' : ''}{index.changePercent.toFixed(2)}%
+                            </span>
+                        </div>
+                    ) : (
+                        <div className="text-gray-600 text-lg font-bold mt-1">N/A</div>
+                    )}
+                </div>
+                {/* Mini Sparkline */}
+                <div className="h-16 w-full absolute bottom-0 left-0 right-0 opacity-30 group-hover:opacity-60 transition-opacity">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={index.history}>
+                            <YAxis hide domain={["dataMin", "dataMax"]} />
+                            <Line type="monotone" dataKey="close" stroke={isUp ? "#10b981" : "#ef4444"} strokeWidth={2} dot={false} />
+                        </LineChart>
+                    </ResponsiveContainer>
+                </div>
+            </div>
+        </a>
+    );
+}
+
 function MarketStatus({ data, loading }: MarketStatusProps) {
 
     const defaultData: MarketData = {
-        vix: { current: 0, date: null, history: [] },
+        vix: { current: 0, date: null, history: [], provenance: defaultProvenance() },
+        indices: { kospi: emptyIndex("^KS11"), kosdaq: emptyIndex("^KQ11") },
         metrics: {
-            gex: { current: null, date: null, change: 0, history: [] },
-            dix: { current: null, date: null, change: 0, history: [] },
-            fearGreed: { current: null, date: null, change: 0, history: [] }
+            gex: { current: null, date: null, change: 0, history: [], provenance: defaultProvenance() },
+            dix: { current: null, date: null, change: 0, history: [], provenance: defaultProvenance() },
+            fearGreed: { current: null, date: null, change: 0, history: [], provenance: defaultProvenance() }
         }
     };
 
@@ -55,17 +120,11 @@ function MarketStatus({ data, loading }: MarketStatusProps) {
         return "Extreme Fear";
     };
 
-    const formatDate = (dateString: string | null) => {
-        if (!dateString) return "";
-        const date = new Date(dateString);
-        return `${date.getMonth() + 1}/${date.getDate()}`;
-    };
-
     return (
         <motion.div
             initial={{ opacity: 0, y: -20 }}
             animate={{ opacity: 1, y: 0 }}
-            className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-8"
+            className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-6 gap-4 mb-8"
         >
             {/* VIX Chart Card */}
             <a href="https://finance.yahoo.com/quote/%5EVIX" target="_blank" rel="noopener noreferrer" className="block">
@@ -75,6 +134,7 @@ function MarketStatus({ data, loading }: MarketStatusProps) {
                             <div className="text-gray-400 text-xs font-medium uppercase tracking-wider flex items-center gap-1">
                                 <Activity className="w-3 h-3" /> VIX Index
                                 {displayData.vix.date && <span className="text-gray-600 ml-1">({formatDate(displayData.vix.date)})</span>}
+                                <ProvenanceBadge provenance={displayData.vix.provenance} className="ml-1" />
                             </div>
                             <div className="text-white font-bold text-2xl mt-1">{displayData.vix.current.toFixed(2)}</div>
                         </div>
@@ -99,6 +159,10 @@ function MarketStatus({ data, loading }: MarketStatusProps) {
                 </div>
             </a>
 
+            {/* KRX Indices */}
+            <IndexCard label="KOSPI" index={displayData.indices.kospi} />
+            <IndexCard label="KOSDAQ" index={displayData.indices.kosdaq} />
+
             {/* Fear & Greed Index */}
             <a href="https://edition.cnn.com/markets/fear-and-greed" target="_blank" rel="noopener noreferrer" className="block">
                 <div className="bg-gray-900/50 backdrop-blur-xl border border-gray-800 rounded-2xl p-4 flex flex-col justify-between relative overflow-hidden group hover:bg-gray-800/50 transition-colors cursor-pointer h-full">
@@ -106,6 +170,7 @@ function MarketStatus({ data, loading }: MarketStatusProps) {
                         <div className="text-gray-400 text-xs font-medium uppercase tracking-wider flex items-center gap-1">
                             <Zap className="w-3 h-3" /> Fear & Greed
                             {displayData.metrics.fearGreed.date && <span className="text-gray-600 ml-1">({formatDate(displayData.metrics.fearGreed.date)})</span>}
+                            <ProvenanceBadge provenance={displayData.metrics.fearGreed.provenance} className="ml-1" />
                         </div>
                     </div>
                     <div className="flex items-end gap-2 mt-2 relative z-10">
@@ -145,6 +210,7 @@ function MarketStatus({ data, loading }: MarketStatusProps) {
                     <div className="text-gray-400 text-xs font-medium uppercase tracking-wider flex items-center gap-1 mb-1 relative z-10">
                         <TrendingUp className="w-3 h-3" /> Gamma Exposure (GEX)
                         {displayData.metrics.gex.date && <span className="text-gray-600 ml-1">({formatDate(displayData.metrics.gex.date)})</span>}
+                            <ProvenanceBadge provenance={displayData.metrics.gex.provenance} className="ml-1" />
                     </div>
                     <div className="text-white font-bold text-2xl relative z-10 flex items-end gap-2">
                         {displayData.metrics.gex.current ? `$${displayData.metrics.gex.current.toFixed(1)} B` : <span className="text-gray-600 text-lg">N/A</span>}
@@ -180,6 +246,7 @@ function MarketStatus({ data, loading }: MarketStatusProps) {
                     <div className="text-gray-400 text-xs font-medium uppercase tracking-wider flex items-center gap-1 mb-1 relative z-10">
                         <AlertTriangle className="w-3 h-3" /> Dark Index (DIX)
                         {displayData.metrics.dix.date && <span className="text-gray-600 ml-1">({formatDate(displayData.metrics.dix.date)})</span>}
+                            <ProvenanceBadge provenance={displayData.metrics.dix.provenance} className="ml-1" />
                     </div>
                     <div className="text-white font-bold text-2xl relative z-10 flex items-end gap-2">
                         {displayData.metrics.dix.current ? `${displayData.metrics.dix.current.toFixed(1)}%` : <span className="text-gray-600 text-lg">N/A</span>}
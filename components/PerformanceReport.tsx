@@ -0,0 +1,61 @@
+"use client";
+
+import { memo } from "react";
+import type { PerformanceMetrics } from "@/lib/performance";
+
+interface PerformanceReportProps {
+    metrics: PerformanceMetrics;
+    benchmark?: PerformanceMetrics | null;
+}
+
+const percent = (value: number | null, signed = true) =>
+    value === null || !isFinite(value) ? "–" : `${signed && value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+const ratio = (value: number | null) => value === null || !isFinite(value) ? "–" : value.toFixed(2);
+
+// Row definitions; `higherIsBetter` decides which column gets highlighted
+const ROWS: { label: string; format: (m: PerformanceMetrics) => string; value: (m: PerformanceMetrics) => number | null; higherIsBetter: boolean }[] = [
+    { label: "Return (TWR)", format: m => percent(m.totalReturn), value: m => m.totalReturn, higherIsBetter: true },
+    { label: "CAGR", format: m => percent(m.cagr), value: m => m.cagr, higherIsBetter: true },
+    { label: "XIRR", format: m => percent(m.xirr), value: m => m.xirr, higherIsBetter: true },
+    { label: "Volatility", format: m => percent(m.volatility, false), value: m => m.volatility, higherIsBetter: false },
+    { label: "Sharpe", format: m => ratio(m.sharpe), value: m => m.sharpe, higherIsBetter: true },
+    { label: "Sortino", format: m => ratio(m.sortino), value: m => m.sortino, higherIsBetter: true },
+    { label: "Max Drawdown", format: m => `-${m.maxDrawdown.toFixed(2)}%`, value: m => m.maxDrawdown, higherIsBetter: false },
+    { label: "Drawdown Length", format: m => `${m.maxDrawdownDays}d`, value: m => m.maxDrawdownDays, higherIsBetter: false },
+];
+
+function PerformanceReport({ metrics, benchmark }: PerformanceReportProps) {
+    return (
+        <div className="mb-6 overflow-x-auto">
+            <table className="w-full text-sm text-white">
+                <thead>
+                    <tr className="text-gray-400 text-left">
+                        <th className="py-1 pr-2 text-xs font-medium uppercase tracking-wider">Metric</th>
+                        <th className="py-1 pr-2 text-xs font-medium uppercase tracking-wider text-right">Strategy</th>
+                        {benchmark && <th className="py-1 pr-2 text-xs font-medium uppercase tracking-wider text-right">Buy & Hold</th>}
+                    </tr>
+                </thead>
+                <tbody>
+                    {ROWS.map(row => {
+                        const mine = row.value(metrics);
+                        const theirs = benchmark ? row.value(benchmark) : null;
+                        const better = mine !== null && theirs !== null && mine !== theirs
+                            ? (mine > theirs) === row.higherIsBetter
+                            : null;
+                        return (
+                            <tr key={row.label} className="border-t border-gray-800">
+                                <td className="py-1 pr-2 text-gray-400">{row.label}</td>
+                                <td className={`py-1 pr-2 text-right font-medium ${better === true ? 'text-green-400' : ''}`}>{row.format(metrics)}</td>
+                                {benchmark && (
+                                    <td className={`py-1 pr-2 text-right ${better === false ? 'text-green-400' : 'text-gray-300'}`}>{row.format(benchmark)}</td>
+                                )}
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+    );
+}
+
+export default memo(PerformanceReport);
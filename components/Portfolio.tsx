@@ -0,0 +1,358 @@
+"use client";
+
+import { useEffect, useMemo, useState, memo } from "react";
+import { AreaChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from "recharts";
+import { motion } from "framer-motion";
+import { Briefcase, Plus, Trash2 } from "lucide-react";
+import type { StockData } from "@/components/StockDashboard";
+import { formatMoney } from "@/lib/format";
+import { DEFAULT_BASE_CURRENCY } from "@/lib/fx";
+import { buildPosition, portfolioTimeline, portfolioTotals, totalsInBase, validateLot, type Lot, type LotSide, type MarketSeries } from "@/lib/portfolio";
+import { STORAGE_KEYS, useStoredState } from "@/lib/storage";
+
+interface PortfolioProps {
+    currentSymbol?: string;
+    onSelect: (symbol: string) => void;
+}
+
+const NO_LOTS: Lot[] = [];
+
+// /api/stock/batch accepts at most this many queries per call
+const BATCH_SIZE = 10;
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const emptyForm = (symbol = "") => ({ symbol, side: "buy" as LotSide, date: today(), quantity: "", price: "", currency: "", fees: "" });
+
+const pnlColor = (value: number | null) => value === null ? "text-gray-400" : value >= 0 ? "text-green-400" : "text-red-400";
+
+// History must start on or before the first trade, and span at least a year so
+// /api/stock serves daily bars rather than intraday ones
+function historyStart(lots: Lot[]): string {
+    const oneYearAgo = new Date();
+    oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
+    const first = lots.map(l => l.date).sort()[0];
+    const floor = oneYearAgo.toISOString().split('T')[0];
+    return first && first < floor ? first : floor;
+}
+
+async function fetchMarkets(symbols: string[], start: string, baseCurrency: string): Promise<Record<string, MarketSeries>> {
+    const markets: Record<string, MarketSeries> = {};
+    for (let i = 0; i < symbols.length; i += BATCH_SIZE) {
+        const res = await fetch("/api/stock/batch", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ queries: symbols.slice(i, i + BATCH_SIZE), range: "custom", start, end: today(), baseCurrency }),
+        });
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || "Failed to fetch portfolio prices");
+        (json.results as StockData[]).forEach((item) => {
+            markets[item.symbol] = {
+                currency: item.currency,
+                currentPrice: item.currentPrice,
+                history: item.history,
+                dividends: item.dividends || [],
+                splits: item.splits || [],
+                fxRate: item.fx?.current
+            };
+        });
+    }
+    return markets;
+}
+
+function Portfolio({ currentSymbol, onSelect }: PortfolioProps) {
+    const [lots, setLots] = useStoredState(STORAGE_KEYS.portfolio, NO_LOTS);
+    const [baseCurrency] = useStoredState(STORAGE_KEYS.baseCurrency, DEFAULT_BASE_CURRENCY);
+    const [markets, setMarkets] = useState<Record<string, MarketSeries>>({});
+    const [loadedKey, setLoadedKey] = useState("");
+    const [form, setForm] = useState(emptyForm());
+    const [formError, setFormError] = useState<string | null>(null);
+    const [chartCurrency, setChartCurrency] = useState<string | null>(null);
+
+    const symbols = useMemo(() => Array.from(new Set(lots.map(l => l.symbol))).sort(), [lots]);
+    const start = historyStart(lots);
+    const marketKey = symbols.length ? `${symbols.join(",")}@${start}@${baseCurrency}` : "";
+    const loading = marketKey !== "" && marketKey !== loadedKey;
+
+    // Refetch prices whenever the set of symbols or the first trade date changes
+    useEffect(() => {
+        if (!marketKey) return;
+        let cancelled = false;
+        const [list, from, base] = marketKey.split("@");
+        fetchMarkets(list.split(","), from, base)
+            .then((result) => { if (!cancelled) setMarkets(result); })
+            .catch((err) => console.error("Portfolio price fetch failed", err))
+            .finally(() => { if (!cancelled) setLoadedKey(marketKey); });
+        return () => { cancelled = true; };
+    }, [marketKey]);
+
+    const positions = useMemo(() => symbols.map(symbol => buildPosition(symbol, lots, markets[symbol])), [symbols, lots, markets]);
+    const totals = useMemo(() => portfolioTotals(positions), [positions]);
+    const baseTotals = useMemo(() => {
+        if (!totals.some(t => t.currency !== baseCurrency)) return null;
+        const rates: Record<string, number> = {};
+        Object.values(markets).forEach((m) => { if (m.fxRate) rates[m.currency] = m.fxRate; });
+        return totalsInBase(totals, rates, baseCurrency);
+    }, [totals, markets, baseCurrency]);
+
+    const currency = chartCurrency && totals.some(t => t.currency === chartCurrency) ? chartCurrency : totals[0]?.currency;
+    const timeline = useMemo(() => currency ? portfolioTimeline(lots, markets, currency) : [], [lots, markets, currency]);
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setFormError(null);
+        try {
+            // Resolve free text to the ticker /api/stock will return, and pick up its currency
+            const res = await fetch("/api/watchlist", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ symbols: [form.symbol.trim()], resolve: true }),
+            });
+            const json = await res.json();
+            if (!res.ok || json.quotes.length === 0) throw new Error(json.errors?.[0]?.error || json.error || "Symbol not found");
+            const quote = json.quotes[0];
+
+            const lot: Lot = {
+                id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+                symbol: quote.symbol,
+                side: form.side,
+                date: form.date,
+                quantity: parseFloat(form.quantity),
+                price: parseFloat(form.price),
+                currency: (form.currency.trim() || quote.currency || "USD").toUpperCase(),
+                fees: form.fees ? parseFloat(form.fees) : 0
+            };
+            const problem = validateLot(lots, lot, markets[lot.symbol]?.splits);
+            if (problem) throw new Error(problem);
+
+            setLots(prev => [...prev, lot]);
+            setForm(emptyForm());
+        } catch (err: unknown) {
+            setFormError((err as Error).message);
+        }
+    };
+
+    const removeLot = (id: string) => {
+        const rest = lots.filter(l => l.id !== id);
+        // Deleting a buy can leave a later sell uncovered
+        const broken = rest.find(l => l.side === "sell" && validateLot(rest.filter(r => r.id !== l.id), l, markets[l.symbol]?.splits));
+        if (broken) {
+            setFormError(`Remove the ${broken.symbol} sell on ${broken.date} first`);
+            return;
+        }
+        setFormError(null);
+        setLots(rest);
+    };
+
+    const inputClass = "px-3 py-2 bg-gray-800/50 border border-gray-700 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:border-blue-500";
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="w-full max-w-6xl mx-auto mt-8 bg-gray-900/50 backdrop-blur-xl border border-gray-800 rounded-3xl p-6 shadow-xl"
+        >
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+                <div className="flex items-center gap-3">
+                    <div className="p-2 bg-emerald-500/10 rounded-xl">
+                        <Briefcase className="w-6 h-6 text-emerald-400" />
+                    </div>
+                    <div>
+                        <h3 className="text-xl font-semibold text-white">Portfolio</h3>
+                        <p className="text-gray-400 text-sm">FIFO cost basis · {lots.length} trades{loading ? " · updating prices…" : ""}</p>
+                    </div>
+                </div>
+            </div>
+
+            {/* Trade entry */}
+            <form onSubmit={handleAdd} className="flex flex-wrap gap-2 mb-2">
+                <select value={form.side} onChange={(e) => setForm(f => ({ ...f, side: e.target.value as LotSide }))} className={inputClass}>
+                    <option value="buy">Buy</option>
+                    <option value="sell">Sell</option>
+                </select>
+                <input type="text" value={form.symbol} onChange={(e) => setForm(f => ({ ...f, symbol: e.target.value }))} placeholder="Symbol" className={`${inputClass} w-28`} required />
+                <input type="date" value={form.date} max={today()} onChange={(e) => setForm(f => ({ ...f, date: e.target.value }))} className={inputClass} required />
+                <input type="number" step="any" min="0" value={form.quantity} onChange={(e) => setForm(f => ({ ...f, quantity: e.target.value }))} placeholder="Qty" className={`${inputClass} w-24`} required />
+                <input type="number" step="any" min="0" value={form.price} onChange={(e) => setForm(f => ({ ...f, price: e.target.value }))} placeholder="Price" className={`${inputClass} w-28`} required />
+                <input type="text" value={form.currency} onChange={(e) => setForm(f => ({ ...f, currency: e.target.value }))} placeholder="CCY" maxLength={3} className={`${inputClass} w-20 uppercase`} />
+                <input type="number" step="any" min="0" value={form.fees} onChange={(e) => setForm(f => ({ ...f, fees: e.target.value }))} placeholder="Fees" className={`${inputClass} w-24`} />
+                <button type="submit" className="px-3 py-2 rounded-lg bg-blue-600 text-white text-sm hover:bg-blue-500 transition-colors">
+                    <Plus className="w-4 h-4" />
+                </button>
+                {currentSymbol && (
+                    <button
+                        type="button"
+                        onClick={() => setForm(f => ({ ...f, symbol: currentSymbol }))}
+                        className="px-3 py-2 rounded-lg bg-gray-800 border border-gray-700 text-gray-300 text-sm hover:text-white transition-colors"
+                    >
+                        Use {currentSymbol}
+                    </button>
+                )}
+            </form>
+            {formError && <div className="mb-4 text-sm text-red-400">{formError}</div>}
+
+            {lots.length === 0 ? (
+                <div className="mt-4 text-gray-500 text-sm">Record a buy to start tracking.</div>
+            ) : (
+                <>
+                    {/* Totals per currency, then their sum in the base currency */}
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-4 my-6">
+                        {totals.map(t => (
+                            <div key={t.currency} className="contents">
+                                <div className="p-4 rounded-xl bg-gray-800/30 border border-gray-700/50">
+                                    <div className="text-gray-400 text-xs uppercase tracking-wider mb-1">Value ({t.currency})</div>
+                                    <div className="text-white text-lg font-semibold">{formatMoney(t.marketValue, t.currency)}</div>
+                                </div>
+                                <div className="p-4 rounded-xl bg-gray-800/30 border border-gray-700/50">
+                                    <div className="text-gray-400 text-xs uppercase tracking-wider mb-1">Cost Basis</div>
+                                    <div className="text-white text-lg font-semibold">{formatMoney(t.costBasis, t.currency)}</div>
+                                </div>
+                                <div className="p-4 rounded-xl bg-gray-800/30 border border-gray-700/50">
+                                    <div className="text-gray-400 text-xs uppercase tracking-wider mb-1">Unrealized</div>
+                                    <div className={`text-lg font-semibold ${pnlColor(t.unrealized)}`}>{formatMoney(t.unrealized, t.currency)}</div>
+                                </div>
+                                <div className="p-4 rounded-xl bg-gray-800/30 border border-gray-700/50">
+                                    <div className="text-gray-400 text-xs uppercase tracking-wider mb-1">Realized</div>
+                                    <div className={`text-lg font-semibold ${pnlColor(t.realized)}`}>{formatMoney(t.realized, t.currency)}</div>
+                                </div>
+                                <div className="p-4 rounded-xl bg-gray-800/30 border border-gray-700/50">
+                                    <div className="text-gray-400 text-xs uppercase tracking-wider mb-1">Dividends</div>
+                                    <div className="text-green-400 text-lg font-semibold">{formatMoney(t.dividendIncome, t.currency)}</div>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                    {baseTotals && (
+                        <div className="-mt-2 mb-6 text-sm text-gray-400">
+                            Total in {baseCurrency} at current FX rates:{" "}
+                            <span className="text-white font-semibold">{formatMoney(baseTotals.total.marketValue, baseCurrency)}</span>
+                            {" "}(unrealized <span className={pnlColor(baseTotals.total.unrealized)}>{formatMoney(baseTotals.total.unrealized, baseCurrency)}</span>)
+                            {baseTotals.missing.length > 0 && <span className="text-gray-500"> · excludes {baseTotals.missing.join(", ")} (no rate)</span>}
+                        </div>
+                    )}
+
+                    {/* Value over time */}
+                    {timeline.length > 1 && currency && (
+                        <div className="mb-8">
+                            <div className="flex items-center justify-between mb-2">
+                                <div className="text-gray-400 text-xs font-medium uppercase tracking-wider">Value vs Cost Basis</div>
+                                {totals.length > 1 && (
+                                    <div className="flex gap-1 bg-gray-800/50 p-1 rounded-lg">
+                                        {totals.map(t => (
+                                            <button
+                                                key={t.currency}
+                                                onClick={() => setChartCurrency(t.currency)}
+                                                className={`px-3 py-1 rounded-md text-xs font-medium transition-all ${currency === t.currency ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white hover:bg-white/5'}`}
+                                            >
+                                                {t.currency}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                            <div className="h-[300px] w-full">
+                                <ResponsiveContainer width="100%" height="100%">
+                                    <AreaChart data={timeline}>
+                                        <defs>
+                                            <linearGradient id="colorPortfolio" x1="0" y1="0" x2="0" y2="1">
+                                                <stop offset="5%" stopColor="#10b981" stopOpacity={0.3} />
+                                                <stop offset="95%" stopColor="#10b981" stopOpacity={0} />
+                                            </linearGradient>
+                                        </defs>
+                                        <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" vertical={false} />
+                                        <XAxis dataKey="date" stroke="#6b7280" minTickGap={50} tickFormatter={(str) => str.slice(0, 7)} />
+                                        <YAxis stroke="#6b7280" domain={['auto', 'auto']} tickFormatter={(v) => v.toLocaleString()} />
+                                        <Tooltip
+                                            contentStyle={{ backgroundColor: '#111827', borderColor: '#374151', borderRadius: '12px' }}
+                                            itemStyle={{ color: '#e5e7eb' }}
+                                            labelStyle={{ color: '#9ca3af' }}
+                                            formatter={(value: number) => formatMoney(value, currency)}
+                                        />
+                                        <Legend />
+                                        <Area type="monotone" dataKey="value" name="Market Value" stroke="#10b981" fill="url(#colorPortfolio)" strokeWidth={2} />
+                                        <Line type="stepAfter" dataKey="costBasis" name="Cost Basis" stroke="#9ca3af" strokeDasharray="4 4" dot={false} />
+                                    </AreaChart>
+                                </ResponsiveContainer>
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Positions */}
+                    <div className="text-gray-400 text-xs font-medium uppercase tracking-wider mb-2">Positions</div>
+                    <div className="overflow-x-auto mb-8">
+                        <table className="w-full text-sm text-white">
+                            <thead>
+                                <tr className="text-gray-400 text-left">
+                                    <th className="py-2 pr-2 font-medium">Symbol</th>
+                                    <th className="py-2 pr-2 font-medium text-right">Shares</th>
+                                    <th className="py-2 pr-2 font-medium text-right">Avg Cost</th>
+                                    <th className="py-2 pr-2 font-medium text-right">Price</th>
+                                    <th className="py-2 pr-2 font-medium text-right">Value</th>
+                                    <th className="py-2 pr-2 font-medium text-right">Unrealized</th>
+                                    <th className="py-2 pr-2 font-medium text-right">Realized</th>
+                                    <th className="py-2 font-medium text-right">Dividends</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {positions.map(p => (
+                                    <tr key={p.symbol} className="border-t border-gray-800 hover:bg-gray-800/30">
+                                        <td className="py-2 pr-2">
+                                            <button onClick={() => onSelect(p.symbol)} className="font-medium hover:text-blue-400">{p.symbol}</button>
+                                        </td>
+                                        <td className="py-2 pr-2 text-right">{p.quantity.toLocaleString(undefined, { maximumFractionDigits: 4 })}</td>
+                                        <td className="py-2 pr-2 text-right">{p.quantity > 0 ? formatMoney(p.costBasis / p.quantity, p.currency) : "–"}</td>
+                                        <td className="py-2 pr-2 text-right">{p.marketPrice !== null ? formatMoney(p.marketPrice, p.currency) : "…"}</td>
+                                        <td className="py-2 pr-2 text-right">{p.marketValue !== null ? formatMoney(p.marketValue, p.currency) : "…"}</td>
+                                        <td className={`py-2 pr-2 text-right ${pnlColor(p.unrealized)}`}>
+                                            {p.unrealized !== null ? formatMoney(p.unrealized, p.currency) : "…"}
+                                            {p.unrealizedPercent !== null && <span className="text-xs ml-1">({p.unrealizedPercent >= 0 ? '+' : ''}{p.unrealizedPercent.toFixed(1)}%)</span>}
+                                        </td>
+                                        <td className={`py-2 pr-2 text-right ${pnlColor(p.realized)}`}>{formatMoney(p.realized, p.currency)}</td>
+                                        <td className="py-2 text-right text-green-400">{formatMoney(p.dividendIncome, p.currency)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    {/* Trade log */}
+                    <div className="text-gray-400 text-xs font-medium uppercase tracking-wider mb-2">Trades</div>
+                    <div className="overflow-x-auto max-h-[300px] overflow-y-auto">
+                        <table className="w-full text-sm text-white">
+                            <thead className="sticky top-0 bg-gray-900">
+                                <tr className="text-gray-400 text-left">
+                                    <th className="py-2 pr-2 font-medium">Date</th>
+                                    <th className="py-2 pr-2 font-medium">Side</th>
+                                    <th className="py-2 pr-2 font-medium">Symbol</th>
+                                    <th className="py-2 pr-2 font-medium text-right">Qty</th>
+                                    <th className="py-2 pr-2 font-medium text-right">Price</th>
+                                    <th className="py-2 pr-2 font-medium text-right">Fees</th>
+                                    <th />
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {[...lots].sort((a, b) => b.date.localeCompare(a.date)).map(l => (
+                                    <tr key={l.id} className="border-t border-gray-800">
+                                        <td className="py-2 pr-2 text-gray-400">{l.date}</td>
+                                        <td className={`py-2 pr-2 font-medium ${l.side === "buy" ? 'text-green-400' : 'text-red-400'}`}>{l.side.toUpperCase()}</td>
+                                        <td className="py-2 pr-2">{l.symbol}</td>
+                                        <td className="py-2 pr-2 text-right">{l.quantity}</td>
+                                        <td className="py-2 pr-2 text-right">{formatMoney(l.price, l.currency)}</td>
+                                        <td className="py-2 pr-2 text-right text-gray-400">{formatMoney(l.fees, l.currency)}</td>
+                                        <td className="py-2 text-right">
+                                            <button onClick={() => removeLot(l.id)} className="text-gray-500 hover:text-red-400" title="Delete trade">
+                                                <Trash2 className="w-4 h-4 inline" />
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </>
+            )}
+        </motion.div>
+    );
+}
+
+export default memo(Portfolio);
@@ -0,0 +1,35 @@
+"use client";
+
+import { memo } from "react";
+import { PROVENANCE_LABELS, type Provenance, type ProvenanceStatus } from "@/lib/provenance";
+
+const STATUS_STYLES: Record<ProvenanceStatus, string> = {
+    live: "bg-green-500/20 text-green-400",
+    cached: "bg-blue-500/20 text-blue-400",
+    stale: "bg-amber-500/20 text-amber-400",
+    estimated: "bg-purple-500/20 text-purple-400",
+    default: "bg-gray-500/20 text-gray-400",
+};
+
+interface ProvenanceBadgeProps {
+    provenance: Provenance | null | undefined;
+    // Live values stay unbadged unless asked for
+    showLive?: boolean;
+    className?: string;
+}
+
+function ProvenanceBadge({ provenance, showLive = false, className = "" }: ProvenanceBadgeProps) {
+    if (!provenance || (provenance.status === "live" && !showLive)) return null;
+
+    const asOf = provenance.asOf ? `, as of ${new Date(provenance.asOf).toLocaleString()}` : "";
+    return (
+        <span
+            className={`px-1.5 py-0.5 rounded text-[10px] font-medium normal-case tracking-normal ${STATUS_STYLES[provenance.status]} ${className}`}
+            title={`${provenance.source}${asOf}`}
+        >
+            {PROVENANCE_LABELS[provenance.status]}
+        </span>
+    );
+}
+
+export default memo(ProvenanceBadge);
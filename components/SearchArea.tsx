@@ -1,8 +1,13 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useEffect, useState } from "react";
 import { Search, History, X } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
+import { STORAGE_KEYS, useStoredState } from "@/lib/storage";
+import type { SearchCandidate } from "@/lib/search";
+
+const NO_HISTORY: string[] = [];
+const SUGGEST_DELAY_MS = 250;
 
 interface SearchAreaProps {
     onSearch: (query: string) => void;
@@ -11,37 +16,81 @@ interface SearchAreaProps {
 
 export default function SearchArea({ onSearch, isLoading }: SearchAreaProps) {
     const [query, setQuery] = useState("");
-    const [history, setHistory] = useState<string[]>([]);
-    const [showHistory, setShowHistory] = useState(false);
+    const [history, setHistory] = useStoredState(STORAGE_KEYS.searchHistory, NO_HISTORY);
+    const [showDropdown, setShowDropdown] = useState(false);
+    // Suggestions are kept with the query they answer; stale ones are never shown
+    const [suggestions, setSuggestions] = useState<{ query: string; results: SearchCandidate[] }>({ query: "", results: [] });
+    const [active, setActive] = useState(-1);
+
+    const trimmed = query.trim();
+    const showSuggestions = trimmed !== "" && suggestions.query === trimmed && suggestions.results.length > 0;
+    // Recent searches until there are suggestions for what's typed
+    const showHistory = !showSuggestions && history.length > 0;
+    const optionCount = showSuggestions ? suggestions.results.length : showHistory ? history.length : 0;
 
+    // Debounced /api/search; typing again cancels the pending request
     useEffect(() => {
-        const saved = localStorage.getItem("stockSearchHistory");
-        if (saved) {
-            setHistory(JSON.parse(saved));
-        }
-    }, []);
+        if (!trimmed) return;
+        const controller = new AbortController();
+        const timer = setTimeout(() => {
+            fetch(`/api/search?q=${encodeURIComponent(trimmed)}`, { signal: controller.signal })
+                .then(res => res.ok ? res.json() : { results: [] })
+                .then((json) => {
+                    setSuggestions({ query: trimmed, results: json.results || [] });
+                    setActive(-1);
+                })
+                .catch(() => { /* aborted, or offline: plain submit still works */ });
+        }, SUGGEST_DELAY_MS);
+        return () => {
+            clearTimeout(timer);
+            controller.abort();
+        };
+    }, [trimmed]);
+
+    const submit = (value: string) => {
+        setHistory([value, ...history.filter((h) => h !== value)].slice(0, 10));
+        onSearch(value);
+        setShowDropdown(false);
+        setActive(-1);
+    };
 
     const handleSearch = (e: React.FormEvent) => {
         e.preventDefault();
-        if (!query.trim()) return;
-
-        const newHistory = [query, ...history.filter((h) => h !== query)].slice(0, 10);
-        setHistory(newHistory);
-        localStorage.setItem("stockSearchHistory", JSON.stringify(newHistory));
+        if (!trimmed) return;
+        submit(query);
+    };
 
-        onSearch(query);
-        setShowHistory(false);
+    const handleSuggestionClick = (candidate: SearchCandidate) => {
+        setQuery(candidate.symbol);
+        submit(candidate.symbol);
     };
 
     const handleHistoryClick = (item: string) => {
         setQuery(item);
         onSearch(item);
-        setShowHistory(false);
+        setShowDropdown(false);
+        setActive(-1);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+            if (optionCount === 0) return;
+            e.preventDefault();
+            setShowDropdown(true);
+            setActive(i => e.key === "ArrowDown" ? Math.min(i + 1, optionCount - 1) : Math.max(i - 1, -1));
+        } else if (e.key === "Enter" && showDropdown && active >= 0 && active < optionCount) {
+            // Without a highlighted option Enter submits the typed text as before
+            e.preventDefault();
+            if (showSuggestions) handleSuggestionClick(suggestions.results[active]);
+            else handleHistoryClick(history[active]);
+        } else if (e.key === "Escape") {
+            setShowDropdown(false);
+            setActive(-1);
+        }
     };
 
     const clearHistory = () => {
-        setHistory([]);
-        localStorage.removeItem("stockSearchHistory");
+        setHistory(NO_HISTORY);
     };
 
     return (
@@ -53,8 +102,18 @@ export default function SearchArea({ onSearch, isLoading }: SearchAreaProps) {
                 <input
                     type="text"
                     value={query}
-                    onChange={(e) => setQuery(e.target.value)}
-                    onFocus={() => setShowHistory(true)}
+                    onChange={(e) => {
+                        setQuery(e.target.value);
+                        setShowDropdown(true);
+                        setActive(-1);
+                    }}
+                    onFocus={() => setShowDropdown(true)}
+                    onKeyDown={handleKeyDown}
+                    role="combobox"
+                    aria-expanded={showDropdown && optionCount > 0}
+                    aria-controls="search-options"
+                    aria-activedescendant={showDropdown && active >= 0 ? `search-option-${active}` : undefined}
+                    aria-autocomplete="list"
                     placeholder="Search stocks (e.g., Apple, TSLA, Samsung)..."
                     className="w-full pl-12 pr-4 py-4 bg-gray-900/50 border border-gray-700 rounded-2xl text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500 transition-all backdrop-blur-xl shadow-lg"
                     disabled={isLoading}
@@ -67,7 +126,38 @@ export default function SearchArea({ onSearch, isLoading }: SearchAreaProps) {
             </form>
 
             <AnimatePresence>
-                {showHistory && history.length > 0 && (
+                {showDropdown && showSuggestions && (
+                    <motion.div
+                        initial={{ opacity: 0, y: -10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: -10 }}
+                        className="absolute w-full mt-2 bg-gray-900/90 border border-gray-800 rounded-xl shadow-xl backdrop-blur-xl overflow-hidden"
+                    >
+                        <div id="search-options" role="listbox" className="max-h-80 overflow-y-auto">
+                            {suggestions.results.map((candidate, index) => (
+                                <button
+                                    key={candidate.symbol}
+                                    id={`search-option-${index}`}
+                                    role="option"
+                                    aria-selected={index === active}
+                                    onClick={() => handleSuggestionClick(candidate)}
+                                    onMouseEnter={() => setActive(index)}
+                                    className={`w-full text-left px-4 py-3 transition-colors flex items-center justify-between gap-4 ${index === active ? 'bg-gray-800/70 text-white' : 'text-gray-300'}`}
+                                >
+                                    <span className="min-w-0">
+                                        <span className="font-semibold text-white mr-2">{candidate.symbol}</span>
+                                        {candidate.localName && <span className="text-gray-200 mr-2">{candidate.localName}</span>}
+                                        <span className="text-gray-400 truncate">{candidate.name}</span>
+                                    </span>
+                                    <span className="shrink-0 text-xs text-gray-500">
+                                        {[candidate.exchange, candidate.type, candidate.currency].filter(Boolean).join(" · ")}
+                                    </span>
+                                </button>
+                            ))}
+                        </div>
+                    </motion.div>
+                )}
+                {showDropdown && showHistory && (
                     <motion.div
                         initial={{ opacity: 0, y: -10 }}
                         animate={{ opacity: 1, y: 0 }}
@@ -86,12 +176,16 @@ export default function SearchArea({ onSearch, isLoading }: SearchAreaProps) {
                                 Clear History
                             </button>
                         </div>
-                        <div className="max-h-60 overflow-y-auto">
+                        <div id="search-options" role="listbox" className="max-h-60 overflow-y-auto">
                             {history.map((item, index) => (
                                 <button
                                     key={index}
+                                    id={`search-option-${index}`}
+                                    role="option"
+                                    aria-selected={index === active}
                                     onClick={() => handleHistoryClick(item)}
-                                    className="w-full text-left px-4 py-3 text-gray-300 hover:bg-gray-800/50 hover:text-white transition-colors flex items-center justify-between group"
+                                    onMouseEnter={() => setActive(index)}
+                                    className={`w-full text-left px-4 py-3 hover:bg-gray-800/50 hover:text-white transition-colors flex items-center justify-between group ${index === active ? 'bg-gray-800/50 text-white' : 'text-gray-300'}`}
                                 >
                                     <span>{item}</span>
                                     <Search className="h-4 w-4 opacity-0 group-hover:opacity-50 transition-opacity" />
@@ -102,11 +196,11 @@ export default function SearchArea({ onSearch, isLoading }: SearchAreaProps) {
                 )}
             </AnimatePresence>
 
-            {/* Overlay to close history when clicking outside */}
-            {showHistory && (
+            {/* Overlay to close the dropdown when clicking outside */}
+            {showDropdown && (
                 <div
                     className="fixed inset-0 z-[-1]"
-                    onClick={() => setShowHistory(false)}
+                    onClick={() => setShowDropdown(false)}
                 />
             )}
         </div>
@@ -1,16 +1,38 @@
 "use client";
 
-import { useMemo, useState, memo } from "react";
+import { useCallback, useMemo, useState, memo } from "react";
 import {
     LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
-    AreaChart, Area, BarChart, Bar, Legend, ComposedChart, ReferenceLine, Scatter
+    AreaChart, Area, BarChart, Bar, Legend, ComposedChart, ReferenceLine, ReferenceArea, Scatter, Cell
 } from "recharts";
 import { motion } from "framer-motion";
-import { ArrowUp, ArrowDown, TrendingUp, Activity } from "lucide-react";
+import { ArrowUp, ArrowDown, TrendingUp, Activity, AlertTriangle, FileText } from "lucide-react";
+import { priceSeries, type PriceBasis } from "@/lib/adjustments";
+import { returnDistribution, rollingStdDev, type SigmaZone } from "@/lib/analytics";
+import { analyzeVolatility, REGIME_LABELS, regimeRuns, type VolatilityRegime } from "@/lib/volatility";
+import { analyzeDistribution, fittedCounts, resolveBinWidth, toLogReturns, type BinWidthRule, type ReturnKind } from "@/lib/distribution";
+import { buyAndHoldPreset, monthlyDcaPreset, runBacktest, volatilityPreset, type BacktestSeries } from "@/lib/backtest";
+import { performanceMetrics } from "@/lib/performance";
+import BacktestPanel from "@/components/BacktestPanel";
+import ExportMenu from "@/components/ExportMenu";
+import PerformanceReport from "@/components/PerformanceReport";
+import DistributionAnalysisPanel from "@/components/DistributionAnalysisPanel";
+import IndicatorPicker from "@/components/IndicatorPicker";
+import { computeIndicator, DEFAULT_CHART_INDICATORS, INDICATORS, type IndicatorRequest, type IndicatorResult } from "@/lib/indicators";
+import { barLabel, isIntraday, rollingWindow, windowLabel, type BarInterval } from "@/lib/ranges";
+import type { ReconciledFundamentals, ReconciledValue, ReconciliationStatus } from "@/lib/fundamentals";
+import type { Provenance } from "@/lib/provenance";
+import { fxImpact, toBaseCurrency, type FxSeries } from "@/lib/fx";
+import { calendarForSymbol, localDateKey, unknownCalendarYears } from "@/lib/exchanges";
+import { dashboardSearch } from "@/lib/dashboardUrl";
+import { currencyDigits, currencySymbol, formatMoney } from "@/lib/format";
+import { STORAGE_KEYS, useStoredState } from "@/lib/storage";
+import ProvenanceBadge from "@/components/ProvenanceBadge";
 
 export interface StockData {
     symbol: string;
     name: string;
+    localName?: string; // Korean name for KRX listings
     currentPrice: number;
     currency: string;
     change: number;
@@ -18,337 +40,336 @@ export interface StockData {
     trailingPE?: number;
     forwardPE?: number;
     dividendYield?: number;
-    geminiMetrics?: {
-        trailingPE: number | null;
-        forwardPE: number | null;
-        dividendYield: number | null;
-    };
+    geminiMetrics?: ReconciledFundamentals | null;
+    range?: string;
+    interval?: BarInterval;
     history: {
         date: string;
+        open: number;
+        high: number;
+        low: number;
         close: number;
+        adjClose: number;
+        volume: number;
     }[];
     dividends?: {
         date: string;
         amount: number;
     }[];
+    splits?: {
+        date: string;
+        numerator: number;
+        denominator: number;
+    }[];
+    // Rates into the requested base currency; absent when it matches `currency` (lib/fx)
+    fx?: FxSeries | null;
+    // Where each group of values came from (see lib/provenance)
+    provenance: {
+        quote: Provenance; // currentPrice, change, changePercent, trailingPE, forwardPE
+        dividendYield: Provenance;
+        history: Provenance; // history, dividends, splits
+        geminiMetrics: Provenance | null;
+    };
 }
 
 interface StockDashboardProps {
     data: StockData | null;
+    // Buy zones of the volatility simulation; owned by the page so they can live in the URL
+    selectedZones: SigmaZone[];
+    onSelectedZonesChange: (zones: SigmaZone[]) => void;
 }
 
-const StockDashboard = memo(({ data }: StockDashboardProps) => {
-    if (!data) return null;
+interface CandleShapeProps {
+    x?: number;
+    y?: number;
+    width?: number;
+    height?: number;
+    payload?: { open: number; high: number; low: number; close: number };
+}
+
+// Custom Bar shape: the bar spans [low, high], so wick = full bar height and
+// the body is placed by interpolating open/close inside that pixel range.
+const Candle = ({ x = 0, y = 0, width = 0, height = 0, payload }: CandleShapeProps) => {
+    if (!payload) return null;
+    const { open, high, low, close } = payload;
+    const color = close >= open ? "#10b981" : "#ef4444";
+    const toPixel = (value: number) => high === low ? y : y + ((high - value) / (high - low)) * height;
+    const bodyTop = toPixel(Math.max(open, close));
+    const bodyHeight = Math.max(1, toPixel(Math.min(open, close)) - bodyTop);
+    const centerX = x + width / 2;
+
+    return (
+        <g>
+            <line x1={centerX} x2={centerX} y1={y} y2={y + height} stroke={color} strokeWidth={1} />
+            <rect x={x + width * 0.15} y={bodyTop} width={Math.max(1, width * 0.7)} height={bodyHeight} fill={color} />
+        </g>
+    );
+};
+
+// X-axis labels: month for daily/weekly bars, day + time for intraday bars
+const dateTickFormatter = (interval: BarInterval) => (str: string) => {
+    const date = new Date(str);
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    if (isIntraday(interval)) {
+        return `${pad(date.getMonth() + 1)}/${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+    }
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+};
+
+const CHECK_STYLES: Record<ReconciliationStatus, string> = {
+    agrees: "text-blue-400",
+    unverified: "text-blue-400",
+    flagged: "text-amber-400",
+    suppressed: "text-red-400",
+    missing: "",
+};
+
+// Gemini's value for a Key Statistics card and how far it is from the quote
+function GeminiCheck({ check, provenance, unit = "" }: { check?: ReconciledValue; provenance: Provenance | null; unit?: string }) {
+    if (!check || check.status === "missing") return null;
+    const divergence = check.divergence !== null ? `${check.divergence >= 0 ? '+' : ''}${check.divergence.toFixed(1)}% vs quote` : null;
+    return (
+        <div className={`text-xs mt-1 flex items-center gap-1 opacity-80 ${CHECK_STYLES[check.status]}`}>
+            {check.status === "suppressed" ? (
+                <span title="Outside the tolerance for this field; not shown">G: suppressed ({divergence})</span>
+            ) : (
+                <>
+                    {check.status === "flagged" && <AlertTriangle className="w-3 h-3" />}
+                    <span>G: {check.value!.toFixed(2)}{unit}</span>
+                    <span className="text-gray-500">{check.status === "unverified" ? "(no quote to check)" : `(${divergence})`}</span>
+                </>
+            )}
+            <ProvenanceBadge provenance={provenance} />
+        </div>
+    );
+}
+
+// Chart indicators are remembered per symbol; the default matches the original SMA 20 + 2σ bands
+const NO_INDICATOR_PREFS: Record<string, IndicatorRequest[]> = {};
+
+// Histogram bin widths; "auto" scales with the bar interval (0.1% for daily bars)
+const BIN_WIDTH_OPTIONS: [string, string][] = [
+    ["auto", "Auto bins"],
+    ["fd", "Freedman-Diaconis"],
+    ["0.05", "0.05%"],
+    ["0.1", "0.1%"],
+    ["0.25", "0.25%"],
+    ["0.5", "0.5%"],
+    ["1", "1%"],
+];
+
+const OVERLAY_COLORS = ["#fbbf24", "#a78bfa", "#f472b6", "#34d399", "#fb923c", "#22d3ee"];
+const BAND_COLORS = ["#60a5fa", "#c084fc", "#f9a8d4", "#6ee7b7"];
+
+// Price chart shading and regime badges
+const REGIME_COLORS: Record<VolatilityRegime, string> = { low: "#10b981", normal: "#9ca3af", high: "#ef4444" };
+const FORECAST_HORIZONS = [5, 10, 20, 60];
+
+// Horizontal guides for bounded oscillators
+const SUBPANE_GUIDES: Record<string, number[]> = { rsi: [30, 70], stochastic: [20, 80], macd: [0] };
+
+interface ChartIndicator {
+    result: IndicatorResult;
+    label: string;
+    // processedData key for each value line, e.g. { upper: "i0_upper" }
+    keys: Record<string, string>;
+}
 
-    // State for Simulation Strategy
-    // Zones: "-2" (<= -2sd), "-1" (-2sd < x <= -1sd), "0" (-1sd < x < 1sd), "1" (1sd <= x < 2sd), "2" (>= 2sd)
-    const [selectedZones, setSelectedZones] = useState<string[]>(["-2", "-1"]);
+function DashboardContent({ data: listing, selectedZones, onSelectedZonesChange }: StockDashboardProps & { data: StockData }) {
+    // "base" shows everything in the base currency the page fetched FX rates for
+    const [currencyView, setCurrencyView] = useStoredState(STORAGE_KEYS.currencyView, DEFAULT_CURRENCY_VIEW);
+    const fx = listing.fx && listing.fx.base !== listing.currency ? listing.fx : null;
+    const data = useMemo(() => (currencyView === "base" && fx ? toBaseCurrency(listing) : listing), [currencyView, fx, listing]);
+    const converted = data !== listing;
+
+    const interval: BarInterval = data.interval || '1d';
+    const formatDateTick = dateTickFormatter(interval);
+    const money = (value: number, digits?: number) => formatMoney(value, data.currency, digits);
+    const moneyTick = (value: number) => `${currencySymbol(data.currency)}${value.toLocaleString()}`;
+    const countUnit = interval === '1d' ? "days" : "bars";
+
+    // Simulation strategy zones: "-2" (<= -2sd), "-1" (-2sd < x <= -1sd), "0" (-1sd < x < 1sd), "1" (1sd <= x < 2sd), "2" (>= 2sd)
+
+    // Price chart display options
+    const [priceChartMode, setPriceChartMode] = useState<"line" | "candle">("line");
+    const [showVolume, setShowVolume] = useState(false);
+    const [showRegimes, setShowRegimes] = useState(true);
+
+    // Volatility panel: per-bar changes with the 20-bar SD, or annualized realized / EWMA / GARCH lines
+    const [volatilityView, setVolatilityView] = useState<"changes" | "annualized">("changes");
+    const [forecastHorizon, setForecastHorizon] = useState(20);
+
+    // Adjusted: split-adjusted prices and total-return daily changes. Raw: as traded.
+    const [priceBasis, setPriceBasis] = useState<PriceBasis>("adjusted");
+
+    // Return distribution: simple or log returns, and how wide the histogram bins are
+    const [returnKind, setReturnKind] = useState<ReturnKind>("simple");
+    const [binWidthRule, setBinWidthRule] = useState<BinWidthRule>("auto");
+
+    const [indicatorPrefs, setIndicatorPrefs] = useStoredState(STORAGE_KEYS.indicators, NO_INDICATOR_PREFS);
+    const indicatorSelection = indicatorPrefs[data.symbol] ?? DEFAULT_CHART_INDICATORS;
+    const setIndicatorSelection = useCallback(
+        (selection: IndicatorRequest[]) => setIndicatorPrefs(prev => ({ ...prev, [data.symbol]: selection })),
+        [setIndicatorPrefs, data.symbol]
+    );
 
-    const toggleZone = (zone: string) => {
-        setSelectedZones(prev =>
-            prev.includes(zone)
-                ? prev.filter(z => z !== zone)
-                : [...prev, zone]
+    const toggleZone = (zone: SigmaZone) => {
+        onSelectedZonesChange(
+            selectedZones.includes(zone)
+                ? selectedZones.filter(z => z !== zone)
+                : [...selectedZones, zone]
         );
     };
 
-    const processedData = useMemo(() => {
-        if (!data.history || data.history.length === 0) return [];
-
-        const history = [...data.history].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-        const period = 20;
+    // Every calculation below runs on this series, so the raw/adjusted toggle
+    // switches charts, statistics and simulations together.
+    const series = useMemo(
+        () => priceSeries(data.history || [], data.splits || [], data.dividends || [], priceBasis),
+        [data.history, data.splits, data.dividends, priceBasis]
+    );
 
-        // Pre-calculate changes for efficiency
-        const changes = history.map((day, i) => {
-            if (i === 0) return 0;
-            const prev = history[i - 1].close;
-            return ((day.close - prev) / prev) * 100;
+    // Selected chart indicators (lib/indicators, the same code behind /api/indicators).
+    // Entries with bad parameters are skipped and flagged in the picker.
+    const chartIndicators = useMemo(() => {
+        const overlays: ChartIndicator[] = [];
+        const subpanes: ChartIndicator[] = [];
+        const invalid = new Set<number>();
+
+        indicatorSelection.forEach((request, index) => {
+            try {
+                const result = computeIndicator({ ...series, interval }, request);
+                const keys = Object.fromEntries(Object.keys(result.values || {}).map(line => [line, `i${index}_${line}`]));
+                const paramText = Object.values(result.params).join(", ");
+                const entry = { result, keys, label: `${INDICATORS[request.type].label}${paramText ? ` (${paramText})` : ""}` };
+                if (INDICATORS[request.type].pane === "overlay") overlays.push(entry);
+                else subpanes.push(entry);
+            } catch {
+                invalid.add(index);
+            }
         });
+        return { overlays, subpanes, invalid };
+    }, [series, interval, indicatorSelection]);
 
-        return history.map((day, index) => {
-            const changePercent = changes[index];
-            let rollingSD = 0;
-            let sma20 = null;
-            let upperBand = null;
-            let lowerBand = null;
-
-            if (index >= period - 1) {
-                // Calculate SMA and Bollinger Bands (Price based)
-                // Access prices directly from history without slicing objects
-                let sumPrice = 0;
-                for (let k = 0; k < period; k++) {
-                    sumPrice += history[index - k].close;
-                }
-                const meanPrice = sumPrice / period;
-                sma20 = meanPrice;
-
-                let sumSqDiffPrice = 0;
-                for (let k = 0; k < period; k++) {
-                    sumSqDiffPrice += Math.pow(history[index - k].close - meanPrice, 2);
-                }
-                const sdPrice = Math.sqrt(sumSqDiffPrice / period);
-
-                upperBand = meanPrice + (2 * sdPrice);
-                lowerBand = meanPrice - (2 * sdPrice);
-
-                // Calculate Volatility (SD of Returns based)
-                // Use the pre-calculated changes array
-                let sumChange = 0;
-                // Note: The original logic skipped the very first change in the slice of 20? 
-                // "if (i === 0) return 0"
-                // Ideally, Volatility for day X should probably use returns x, x-1, ... x-19.
-                // Let's use the window of returns ending at 'index'.
-
-                // We need 20 returns. 
-                // changes[index] is return from index-1 to index.
-                const windowKernelSize = period;
-
-                // Optimize: simple loop over pre-calculated array
-                let validChangeCount = 0;
-                for (let k = 0; k < windowKernelSize; k++) {
-                    sumChange += changes[index - k];
-                    validChangeCount++;
-                }
-
-                if (validChangeCount > 0) {
-                    const meanChange = sumChange / validChangeCount;
-                    let sumSqDiffChange = 0;
-                    for (let k = 0; k < windowKernelSize; k++) {
-                        sumSqDiffChange += Math.pow(changes[index - k] - meanChange, 2);
-                    }
-                    rollingSD = Math.sqrt(sumSqDiffChange / validChangeCount);
-                }
-            }
+    // Realized, EWMA and GARCH volatility plus the regime of every bar (also what regime rules in the backtest see)
+    const volatility = useMemo(
+        () => analyzeVolatility(series.changes, { interval, horizon: forecastHorizon }),
+        [series, interval, forecastHorizon]
+    );
+
+    // Rolling SD window in bars, scaled to the bar size
+    const sdWindow = rollingWindow(interval);
+
+    const processedData = useMemo(() => {
+        const { history, changes } = series;
+
+        // Return volatility comes from the shared analytics module (also served by /api/indicators)
+        const rollingSD = rollingStdDev(changes, sdWindow);
+        const indicatorLines = [...chartIndicators.overlays, ...chartIndicators.subpanes]
+            .flatMap(({ result, keys }) => Object.entries(keys).map(([line, key]) => [key, result.values![line]] as const));
 
+        return history.map((day, index) => {
+            const point: Record<string, number | null> = {};
+            indicatorLines.forEach(([key, values]) => { point[key] = values[index]; });
             return {
                 ...day,
-                changePercent,
-                rollingSD,
-                sma20,
-                upperBand,
-                lowerBand
+                ...point,
+                changePercent: changes[index],
+                rollingSD: rollingSD[index],
+                realized10: volatility.realized[10][index],
+                realized20: volatility.realized[20][index],
+                realized60: volatility.realized[60][index],
+                ewmaVolatility: volatility.ewma[index],
+                garchVolatility: volatility.garch?.volatility[index] ?? null,
+                regime: volatility.regimes[index]
             };
         });
-    }, [data]);
-    // Calculate Distribution Data
-    const distributionData = useMemo(() => {
-        if (!data.history || data.history.length < 2) return { data: [], mean: 0, sd: 0, count1Sigma: 0, count2Sigma: 0, totalDays: 0 };
-
-        const changes = data.history.map((day, i) => {
-            if (i === 0) return 0;
-            const prev = data.history[i - 1].close;
-            return ((day.close - prev) / prev) * 100;
-        }).slice(1);
-
-        const mean = changes.reduce((a, b) => a + b, 0) / changes.length;
-        const variance = changes.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / changes.length;
-        const sd = Math.sqrt(variance);
-
-        // Calculate counts within sigma ranges
-        const count1Sigma = changes.filter(c => Math.abs(c - mean) <= sd).length;
-        const count2Sigma = changes.filter(c => Math.abs(c - mean) <= 2 * sd).length;
-
-        // Calculate Sigma Markers
-        const sigmaMarkers = [
-            mean,
-            mean + sd,
-            mean - sd,
-            mean + 2 * sd,
-            mean - 2 * sd
-        ];
-
-        // Create Bins
-        const dataMin = Math.min(...changes);
-        const dataMax = Math.max(...changes);
-        const markersMin = Math.min(...sigmaMarkers);
-        const markersMax = Math.max(...sigmaMarkers);
-
-        const binSize = 0.1;
-
-        // Range should cover both data and sigma markers
-        const min = Math.floor(Math.min(dataMin, markersMin) / binSize) * binSize;
-        const max = Math.ceil(Math.max(dataMax, markersMax) / binSize) * binSize;
-
-        const bins: { [key: string]: number } = {};
-
-        // Initialize bins
-        // Use a small epsilon to avoid floating point loop issues
-        for (let i = min; i <= max + (binSize / 2); i += binSize) {
-            bins[i.toFixed(1)] = 0;
-        }
-
-        changes.forEach(change => {
-            const bin = (Math.floor(change / binSize) * binSize).toFixed(1);
-            // Ensure bin exists (it should, given the range expansion)
-            if (bins[bin] !== undefined) bins[bin]++;
+    }, [series, sdWindow, chartIndicators, volatility]);
+
+    // Export files use the current basis, zones, (valid) chart indicators and distribution settings
+    const exportOptions = useMemo(() => ({
+        basis: priceBasis,
+        zones: selectedZones,
+        indicators: indicatorSelection.filter((_, i) => !chartIndicators.invalid.has(i)),
+        returnKind,
+        binWidth: binWidthRule
+    }), [priceBasis, selectedZones, indicatorSelection, chartIndicators, returnKind, binWidthRule]);
+
+    // Printable report with the same range, zones, basis and currency view
+    const reportHref = useMemo(() => {
+        const history = listing.history || [];
+        const custom = listing.range === "custom" && history.length > 0;
+        const search = dashboardSearch({
+            symbol: listing.symbol,
+            range: custom ? "custom" : listing.range ?? "1y",
+            customRange: custom ? { start: history[0].date.slice(0, 10), end: history[history.length - 1].date.slice(0, 10) } : { start: "", end: "" },
+            zones: selectedZones,
+            compare: []
         });
+        return `/api/report${search}&basis=${priceBasis}${converted && fx ? `&baseCurrency=${fx.base}` : ""}`;
+    }, [listing, selectedZones, priceBasis, converted, fx]);
 
-        const chartData = Object.entries(bins).map(([bin, count]) => ({
-            bin: parseFloat(bin),
-            count
-        })).sort((a, b) => a.bin - b.bin);
-
-        return { data: chartData, mean, sd, count1Sigma, count2Sigma, totalDays: changes.length };
-    }, [data]);
+    // Calculate Distribution Data
+    const distributionReturns = useMemo(() => {
+        const changes = series.history.length < 2 ? [] : series.changes.slice(1);
+        return returnKind === "log" ? toLogReturns(changes) : changes;
+    }, [series, returnKind]);
+    const distributionData = useMemo(
+        () => returnDistribution(distributionReturns, resolveBinWidth(binWidthRule, distributionReturns, interval)),
+        [distributionReturns, binWidthRule, interval]
+    );
+    const distributionAnalysis = useMemo(() => analyzeDistribution(distributionReturns), [distributionReturns]);
+    // Histogram bins plus the fitted normal and Student-t counts drawn over them
+    const distributionChartData = useMemo(() => {
+        const fits = distributionAnalysis ? fittedCounts(distributionData.data, distributionData.binSize, distributionAnalysis) : [];
+        return distributionData.data.map((bin, i) => ({ ...bin, normalFit: fits[i]?.normal ?? null, tFit: fits[i]?.studentT ?? null }));
+    }, [distributionData, distributionAnalysis]);
+
+    // Both simulations are presets of the backtest engine (lib/backtest); the
+    // exchange calendar keeps month-start buys off holiday bars
+    const backtestSeries = useMemo<BacktestSeries>(
+        () => ({ bars: series.history, changes: series.changes, dividends: series.dividends, calendar: calendarForSymbol(data.symbol) }),
+        [series, data.symbol]
+    );
 
     // Calculate Trading Simulation Data
     const simulationData = useMemo(() => {
-        if (!processedData || processedData.length === 0 || !distributionData.sd) return null;
-
-        const sigma = distributionData.sd;
-
-        let sharesReinvest = 0;
-        let totalInvested = 0;
-        let buyCount = 0;
-        let totalDividendsReinvested = 0;
-        const buyDates = new Set<string>();
-
-        // Scenario 2: No Reinvestment (Cash)
-        let sharesNoReinvest = 0;
-        let cashNoReinvest = 0;
-        let totalDividendsCash = 0;
-
-        // Create a map for quick dividend lookup: date string (YYYY-MM-DD) -> amount
-        const dividendMap = new Map();
-        if (data.dividends) {
-            data.dividends.forEach(d => {
-                const dateStr = new Date(d.date).toISOString().split('T')[0];
-                dividendMap.set(dateStr, d.amount);
-            });
-        }
-
-        const simHistory = processedData.map(day => {
-            const dateStr = new Date(day.date).toISOString().split('T')[0];
-
-            // 1. Check for Dividend Payment
-            if (dividendMap.has(dateStr)) {
-                const divAmount = dividendMap.get(dateStr);
-
-                // Scenario 1: Reinvest
-                const payoutReinvest = sharesReinvest * divAmount;
-                if (payoutReinvest > 0) {
-                    const sharesBought = payoutReinvest / day.close;
-                    sharesReinvest += sharesBought;
-                    totalDividendsReinvested += payoutReinvest;
-                }
-
-                // Scenario 2: Keep as Cash
-                const payoutCash = sharesNoReinvest * divAmount;
-                if (payoutCash > 0) {
-                    cashNoReinvest += payoutCash;
-                    totalDividendsCash += payoutCash;
-                }
-            }
-
-            // 2. Check if volatility trigger is met based on selected zones
-            const change = day.changePercent;
-            const diff = change - distributionData.mean;
-            let zone = "0";
+        if (series.history.length === 0 || !distributionData.sd) return null;
 
-            if (diff <= -2 * sigma) zone = "-2";
-            else if (diff <= -1 * sigma) zone = "-1";
-            else if (diff >= 2 * sigma) zone = "2";
-            else if (diff >= 1 * sigma) zone = "1";
-
-            if (selectedZones.includes(zone)) {
-                const sharesBought = 1; // Buy 1 share
-
-                // Both scenarios buy the same amount of stock with new capital
-                sharesReinvest += sharesBought;
-                sharesNoReinvest += sharesBought;
-
-                totalInvested += day.close;
-                buyCount++;
-                buyDates.add(day.date);
-            }
-
-            return {
-                date: day.date,
-                invested: totalInvested,
-                valueReinvest: sharesReinvest * day.close,
-                valueNoReinvest: (sharesNoReinvest * day.close) + cashNoReinvest
-            };
-        });
-
-        const currentValueReinvest = sharesReinvest * data.currentPrice;
-        const totalReturnReinvest = totalInvested > 0 ? ((currentValueReinvest - totalInvested) / totalInvested) * 100 : 0;
+        // Scenario 1 reinvests dividends, scenario 2 keeps them as cash
+        const reinvest = runBacktest(backtestSeries, volatilityPreset(selectedZones, "reinvest"), data.currentPrice);
+        const noReinvest = runBacktest(backtestSeries, volatilityPreset(selectedZones, "cash"), data.currentPrice);
 
         return {
-            history: simHistory,
-            totalBuys: buyCount,
-            totalInvested,
-            totalDividends: totalDividendsReinvested,
-            currentValue: currentValueReinvest,
-            totalReturn: totalReturnReinvest,
-            buyDates,
-            avgPrice: buyCount > 0 ? totalInvested / buyCount : 0
+            ...reinvest,
+            metrics: performanceMetrics(reinvest.history, { interval }),
+            fxImpact: converted && fx ? fxImpact(reinvest, fx) : null,
+            history: reinvest.history.map((point, i) => ({
+                date: point.date,
+                invested: point.invested,
+                valueReinvest: point.value,
+                valueNoReinvest: noReinvest.history[i].value
+            }))
         };
-    }, [processedData, distributionData.sd, distributionData.mean, data.currentPrice, data.dividends, selectedZones]);
+    }, [backtestSeries, series.history.length, distributionData.sd, data.currentPrice, selectedZones, interval, converted, fx]);
 
     // Calculate Monthly DCA Simulation Data
     const dcaSimulationData = useMemo(() => {
-        if (!processedData || processedData.length === 0) return null;
-
-        let shares = 0;
-        let totalInvested = 0;
-        let buyCount = 0;
-        let totalDividendsReinvested = 0;
-        let lastMonth = -1; // Track month changes
-
-        // Create a map for quick dividend lookup
-        const dividendMap = new Map();
-        if (data.dividends) {
-            data.dividends.forEach(d => {
-                const dateStr = new Date(d.date).toISOString().split('T')[0];
-                dividendMap.set(dateStr, d.amount);
-            });
-        }
-
-        const simHistory = processedData.map(day => {
-            const dateObj = new Date(day.date);
-            const currentMonth = dateObj.getMonth();
-            const dateStr = dateObj.toISOString().split('T')[0];
-
-            // 1. Check for Dividend Payment (Reinvest)
-            if (dividendMap.has(dateStr)) {
-                const divAmount = dividendMap.get(dateStr);
-                const payout = shares * divAmount;
-                if (payout > 0) {
-                    const sharesBought = payout / day.close;
-                    shares += sharesBought;
-                    totalDividendsReinvested += payout;
-                }
-            }
-
-            // 2. Check for Monthly Buy (First trading day of the month)
-            if (currentMonth !== lastMonth) {
-                const sharesBought = 1; // Buy 1 share
-                shares += sharesBought;
-                totalInvested += day.close;
-                buyCount++;
-                lastMonth = currentMonth;
-            }
-
-            return {
-                date: day.date,
-                invested: totalInvested,
-                value: shares * day.close
-            };
-        });
-
-        const currentValue = shares * data.currentPrice;
-        const totalReturn = totalInvested > 0 ? ((currentValue - totalInvested) / totalInvested) * 100 : 0;
-
-        return {
-            history: simHistory,
-            totalBuys: buyCount,
-            totalInvested,
-            totalDividends: totalDividendsReinvested,
-            currentValue,
-            totalReturn,
-            avgPrice: buyCount > 0 ? totalInvested / buyCount : 0
-        };
-    }, [processedData, data.currentPrice, data.dividends]);
+        if (series.history.length === 0) return null;
+        const result = runBacktest(backtestSeries, monthlyDcaPreset(), data.currentPrice);
+        return { ...result, metrics: performanceMetrics(result.history, { interval }), fxImpact: converted && fx ? fxImpact(result, fx) : null };
+    }, [backtestSeries, series.history.length, data.currentPrice, interval, converted, fx]);
+
+    // Years the exchange calendar has no holiday list for: a month-start buy there may land on a closure
+    const unknownHolidayYears = useMemo(() => {
+        const calendar = backtestSeries.calendar!;
+        return unknownCalendarYears(calendar, series.history.map(bar => localDateKey(bar.date, calendar.timeZone)));
+    }, [backtestSeries, series.history]);
+
+    // Benchmark for every simulation: buy and hold the same symbol over the same range
+    const benchmarkMetrics = useMemo(() => {
+        if (series.history.length < 2) return null;
+        return performanceMetrics(runBacktest(backtestSeries, buyAndHoldPreset(), data.currentPrice).history, { interval });
+    }, [backtestSeries, series.history.length, data.currentPrice, interval]);
 
     // Helper to downsample data for charts to improve performance
     const downsample = (data: any[], limit: number) => {
@@ -370,11 +391,46 @@ const StockDashboard = memo(({ data }: StockDashboardProps) => {
             buyPrice: simulationData.buyDates.has(point.date) ? point.close : null
         }));
     }, [processedData, simulationData]);
+    // Candles can't be sampled like a line (a skipped day's high/low would vanish),
+    // so merge each bucket into one OHLCV bar instead. A bucket with a simulation
+    // buy keeps its marker at the close of the last buy in it.
+    const candleChartData = useMemo(() => {
+        const limit = 500;
+        const step = Math.max(1, Math.ceil(processedData.length / limit));
+        const isBuy = (point: { date: string }) => simulationData?.buyDates.has(point.date) ?? false;
+        const result = [];
+        for (let i = 0; i < processedData.length; i += step) {
+            const bucket = processedData.slice(i, i + step);
+            const last = bucket[bucket.length - 1];
+            const lastBuy = bucket.findLast(isBuy);
+            result.push({
+                ...last,
+                open: bucket[0].open,
+                high: Math.max(...bucket.map(d => d.high)),
+                low: Math.min(...bucket.map(d => d.low)),
+                volume: bucket.reduce((sum, d) => sum + d.volume, 0),
+                buyPrice: lastBuy ? lastBuy.close : null
+            });
+        }
+        return result;
+    }, [processedData, simulationData]);
+    const priceChartData = priceChartMode === "candle" ? candleChartData : chartData;
+    // Shaded spans of the price chart; normal volatility stays unshaded
+    const regimeAreas = useMemo(() => showRegimes
+        ? regimeRuns(priceChartData.map(point => point.regime)).filter(run => run.regime !== "normal").map(run => ({
+            regime: run.regime,
+            x1: priceChartData[run.start].date,
+            x2: priceChartData[run.end].date
+        }))
+        : [], [showRegimes, priceChartData]);
     const simulationChartData = useMemo(() => simulationData ? downsample(simulationData.history, 500) : [], [simulationData]);
     const dcaChartData = useMemo(() => dcaSimulationData ? downsample(dcaSimulationData.history, 500) : [], [dcaSimulationData]);
 
     const isPositive = data.change >= 0;
 
+    // Sigma lines must land on an existing bin value of the categorical axis
+    const snapToBin = (value: number) => parseFloat((Math.round(value / distributionData.binSize) * distributionData.binSize).toFixed(distributionData.decimals));
+
     return (
         <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -386,15 +442,70 @@ const StockDashboard = memo(({ data }: StockDashboardProps) => {
                 <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
                     <div>
                         <h1 className="text-4xl font-bold text-white tracking-tight">{data.symbol}</h1>
-                        <p className="text-gray-400 text-lg">{data.name}</p>
+                        <p className="text-gray-400 text-lg">
+                            {data.localName && <span className="text-gray-200 mr-2">{data.localName}</span>}
+                            {data.name}
+                        </p>
+                        <div className="flex flex-wrap items-center gap-3 mt-3">
+                            <div className="flex gap-1 bg-gray-800/50 p-1 rounded-xl border border-gray-700/50">
+                                {([["adjusted", "Adjusted"], ["raw", "Raw"]] as const).map(([basis, label]) => (
+                                    <button
+                                        key={basis}
+                                        onClick={() => setPriceBasis(basis)}
+                                        className={`px-3 py-1 rounded-lg text-xs font-medium transition-all ${priceBasis === basis
+                                            ? 'bg-blue-600 text-white'
+                                            : 'text-gray-400 hover:text-white hover:bg-white/5'
+                                            }`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                            {fx && (
+                                <div className="flex gap-1 bg-gray-800/50 p-1 rounded-xl border border-gray-700/50">
+                                    {([["local", listing.currency], ["base", fx.base]] as const).map(([view, currency]) => (
+                                        <button
+                                            key={view}
+                                            onClick={() => setCurrencyView(view)}
+                                            title={view === "base" ? `Converted with ${fx.pair} daily rates` : "Listing currency"}
+                                            className={`px-3 py-1 rounded-lg text-xs font-medium transition-all ${currencyView === view
+                                                ? 'bg-blue-600 text-white'
+                                                : 'text-gray-400 hover:text-white hover:bg-white/5'
+                                                }`}
+                                        >
+                                            {currency}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                            <ExportMenu data={data} options={exportOptions} />
+                            <a
+                                href={reportHref}
+                                target="_blank"
+                                rel="noopener"
+                                title="Printable research report"
+                                className="flex items-center gap-1 bg-gray-800/50 px-3 py-2 rounded-xl border border-gray-700/50 text-xs font-medium text-gray-400 hover:text-white transition-all"
+                            >
+                                <FileText className="w-3.5 h-3.5" />
+                                Report
+                            </a>
+                            {converted && fx && <ProvenanceBadge provenance={fx.provenance} />}
+                            <ProvenanceBadge provenance={data.provenance.history} />
+                            {data.splits && data.splits.length > 0 && (
+                                <span className="text-xs text-gray-500">
+                                    Splits: {data.splits.map(s => `${s.numerator}:${s.denominator} (${s.date.split('T')[0]})`).join(", ")}
+                                </span>
+                            )}
+                        </div>
                     </div>
                     <div className="text-right">
                         <div className="text-5xl font-bold text-white tracking-tighter">
-                            {data.currency === "USD" ? "$" : ""}{data.currentPrice.toLocaleString()}
+                            {money(data.currentPrice)}
                         </div>
+                        <ProvenanceBadge provenance={data.provenance.quote} />
                         <div className={`flex items-center justify-end gap-2 text-xl font-medium mt-2 ${isPositive ? 'text-green-400' : 'text-red-400'}`}>
                             {isPositive ? <ArrowUp className="w-6 h-6" /> : <ArrowDown className="w-6 h-6" />}
-                            {Math.abs(data.change).toFixed(2)} ({Math.abs(data.changePercent).toFixed(2)}%)
+                            {Math.abs(data.change).toFixed(currencyDigits(data.currency))} ({Math.abs(data.changePercent).toFixed(2)}%)
                         </div>
                     </div>
                 </div>
@@ -403,59 +514,92 @@ const StockDashboard = memo(({ data }: StockDashboardProps) => {
             {/* Key Statistics Cards */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <div className="bg-gray-900/50 backdrop-blur-xl border border-gray-800 rounded-2xl p-4 flex flex-col items-center justify-center relative group">
-                    <div className="text-gray-400 text-sm font-medium uppercase tracking-wider mb-1">TTM PER</div>
+                    <div className="text-gray-400 text-sm font-medium uppercase tracking-wider mb-1 flex items-center gap-1">
+                        TTM PER
+                        {data.trailingPE ? <ProvenanceBadge provenance={data.provenance.quote} /> : null}
+                    </div>
                     <div className="text-white font-bold text-2xl">
                         {data.trailingPE ? data.trailingPE.toFixed(2) : <span className="text-gray-600 text-lg">N/A</span>}
                     </div>
-                    {data.geminiMetrics?.trailingPE && (
-                        <div className="text-xs text-blue-400 mt-1 flex items-center gap-1 opacity-80">
-                            <span>G: {data.geminiMetrics.trailingPE.toFixed(2)}</span>
-                        </div>
-                    )}
+                    <GeminiCheck check={data.geminiMetrics?.trailingPE} provenance={data.provenance.geminiMetrics} />
                 </div>
                 <div className="bg-gray-900/50 backdrop-blur-xl border border-gray-800 rounded-2xl p-4 flex flex-col items-center justify-center relative group">
-                    <div className="text-gray-400 text-sm font-medium uppercase tracking-wider mb-1">Forward PER</div>
+                    <div className="text-gray-400 text-sm font-medium uppercase tracking-wider mb-1 flex items-center gap-1">
+                        Forward PER
+                        {data.forwardPE ? <ProvenanceBadge provenance={data.provenance.quote} /> : null}
+                    </div>
                     <div className="text-white font-bold text-2xl">
                         {data.forwardPE ? data.forwardPE.toFixed(2) : <span className="text-gray-600 text-lg">N/A</span>}
                     </div>
-                    {data.geminiMetrics?.forwardPE && (
-                        <div className="text-xs text-blue-400 mt-1 flex items-center gap-1 opacity-80">
-                            <span>G: {data.geminiMetrics.forwardPE.toFixed(2)}</span>
-                        </div>
-                    )}
+                    <GeminiCheck check={data.geminiMetrics?.forwardPE} provenance={data.provenance.geminiMetrics} />
                 </div>
                 <div className="bg-gray-900/50 backdrop-blur-xl border border-gray-800 rounded-2xl p-4 flex flex-col items-center justify-center relative group">
-                    <div className="text-gray-400 text-sm font-medium uppercase tracking-wider mb-1">Dividend Yield</div>
+                    <div className="text-gray-400 text-sm font-medium uppercase tracking-wider mb-1 flex items-center gap-1">
+                        Dividend Yield
+                        {data.dividendYield ? <ProvenanceBadge provenance={data.provenance.dividendYield} /> : null}
+                    </div>
                     <div className="text-white font-bold text-2xl">
                         {data.dividendYield ? `${data.dividendYield.toFixed(2)}%` : <span className="text-gray-600 text-lg">N/A</span>}
                     </div>
-                    {data.geminiMetrics?.dividendYield && (
-                        <div className="text-xs text-blue-400 mt-1 flex items-center gap-1 opacity-80">
-                            <span>G: {data.geminiMetrics.dividendYield.toFixed(2)}%</span>
-                        </div>
-                    )}
+                    <GeminiCheck check={data.geminiMetrics?.dividendYield} provenance={data.provenance.geminiMetrics} unit="%" />
                 </div>
             </div>
 
             {/* Charts Grid */}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
 
-                {/* Price Chart with Bollinger Bands */}
+                {/* Price Chart with Indicators */}
                 <motion.div
                     initial={{ opacity: 0, x: -20 }}
                     animate={{ opacity: 1, x: 0 }}
                     transition={{ delay: 0.2 }}
                     className="bg-gray-900/50 backdrop-blur-xl border border-gray-800 rounded-3xl p-6 shadow-xl lg:col-span-2"
                 >
-                    <div className="flex items-center gap-3 mb-6">
-                        <div className="p-2 bg-blue-500/10 rounded-xl">
-                            <TrendingUp className="w-6 h-6 text-blue-400" />
+                    <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+                        <div className="flex items-center gap-3">
+                            <div className="p-2 bg-blue-500/10 rounded-xl">
+                                <TrendingUp className="w-6 h-6 text-blue-400" />
+                            </div>
+                            <h3 className="text-xl font-semibold text-white">Price & Indicators</h3>
+                        </div>
+                        <div className="flex gap-2 bg-gray-800/50 p-1 rounded-xl border border-gray-700/50">
+                            {([["line", "Line"], ["candle", "Candles"]] as const).map(([mode, label]) => (
+                                <button
+                                    key={mode}
+                                    onClick={() => setPriceChartMode(mode)}
+                                    className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-all ${priceChartMode === mode
+                                        ? 'bg-blue-600 text-white'
+                                        : 'text-gray-400 hover:text-white hover:bg-white/5'
+                                        }`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                            <button
+                                onClick={() => setShowVolume(v => !v)}
+                                className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-all ${showVolume
+                                    ? 'bg-blue-600 text-white'
+                                    : 'text-gray-400 hover:text-white hover:bg-white/5'
+                                    }`}
+                            >
+                                Volume
+                            </button>
+                            <button
+                                onClick={() => setShowRegimes(v => !v)}
+                                title="Shade high (red) and low (green) volatility regimes"
+                                className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-all ${showRegimes
+                                    ? 'bg-blue-600 text-white'
+                                    : 'text-gray-400 hover:text-white hover:bg-white/5'
+                                    }`}
+                            >
+                                Regimes
+                            </button>
                         </div>
-                        <h3 className="text-xl font-semibold text-white">Price & Bollinger Bands</h3>
                     </div>
+                    <IndicatorPicker selection={indicatorSelection} invalid={chartIndicators.invalid} onChange={setIndicatorSelection} />
                     <div className="h-[400px] w-full">
                         <ResponsiveContainer width="100%" height="100%">
-                            <ComposedChart data={chartData}>
+                            <ComposedChart data={priceChartData} syncId="price">
                                 <defs>
                                     <linearGradient id="colorPrice" x1="0" y1="0" x2="0" y2="1">
                                         <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.3} />
@@ -466,16 +610,13 @@ const StockDashboard = memo(({ data }: StockDashboardProps) => {
                                 <XAxis
                                     dataKey="date"
                                     stroke="#6b7280"
-                                    tickFormatter={(str) => {
-                                        const date = new Date(str);
-                                        return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}`;
-                                    }}
+                                    tickFormatter={formatDateTick}
                                     minTickGap={50}
                                 />
                                 <YAxis
                                     stroke="#6b7280"
                                     domain={['auto', 'auto']}
-                                    tickFormatter={(val) => `$${val}`}
+                                    tickFormatter={moneyTick}
                                 />
                                 <Tooltip
                                     contentStyle={{ backgroundColor: '#111827', borderColor: '#374151', borderRadius: '12px' }}
@@ -483,54 +624,52 @@ const StockDashboard = memo(({ data }: StockDashboardProps) => {
                                     labelStyle={{ color: '#9ca3af' }}
                                 />
                                 <Legend />
-                                <Area
-                                    type="monotone"
-                                    dataKey="upperBand"
-                                    stroke="none"
-                                    fill="#3b82f6"
-                                    fillOpacity={0.1}
-                                />
-                                <Area
-                                    type="monotone"
-                                    dataKey="lowerBand"
-                                    stroke="none"
-                                    fill="#3b82f6"
-                                    fillOpacity={0.1}
-                                />
-                                <Line
-                                    type="monotone"
-                                    dataKey="upperBand"
-                                    stroke="#60a5fa"
-                                    strokeWidth={1}
-                                    strokeDasharray="3 3"
-                                    dot={false}
-                                    name="Upper Band"
-                                />
-                                <Line
-                                    type="monotone"
-                                    dataKey="lowerBand"
-                                    stroke="#60a5fa"
-                                    strokeWidth={1}
-                                    strokeDasharray="3 3"
-                                    dot={false}
-                                    name="Lower Band"
-                                />
-                                <Line
-                                    type="monotone"
-                                    dataKey="sma20"
-                                    stroke="#fbbf24"
-                                    strokeWidth={1}
-                                    dot={false}
-                                    name="SMA 20"
-                                />
-                                <Line
-                                    type="monotone"
-                                    dataKey="close"
-                                    stroke="#3b82f6"
-                                    strokeWidth={2}
-                                    dot={false}
-                                    name="Price"
-                                />
+                                {regimeAreas.map(area => (
+                                    <ReferenceArea
+                                        key={`${area.regime}-${area.x1}`}
+                                        x1={area.x1}
+                                        x2={area.x2}
+                                        fill={REGIME_COLORS[area.regime]}
+                                        fillOpacity={0.08}
+                                        stroke="none"
+                                        ifOverflow="visible"
+                                    />
+                                ))}
+                                {chartIndicators.overlays.flatMap(({ result, keys, label }, n) => {
+                                    const color = OVERLAY_COLORS[n % OVERLAY_COLORS.length];
+                                    // Channel overlays (Bollinger, Keltner): shaded band, dashed edges, solid middle
+                                    if (keys.upper && keys.lower) {
+                                        const band = BAND_COLORS[n % BAND_COLORS.length];
+                                        return [
+                                            <Area key={`${result.id}-fu`} type="monotone" dataKey={keys.upper} stroke="none" fill={band} fillOpacity={0.1} legendType="none" tooltipType="none" />,
+                                            <Area key={`${result.id}-fl`} type="monotone" dataKey={keys.lower} stroke="none" fill={band} fillOpacity={0.1} legendType="none" tooltipType="none" />,
+                                            <Line key={`${result.id}-u`} type="monotone" dataKey={keys.upper} stroke={band} strokeWidth={1} strokeDasharray="3 3" dot={false} name={`${label} Upper`} />,
+                                            <Line key={`${result.id}-l`} type="monotone" dataKey={keys.lower} stroke={band} strokeWidth={1} strokeDasharray="3 3" dot={false} name={`${label} Lower`} />,
+                                            <Line key={`${result.id}-m`} type="monotone" dataKey={keys.middle} stroke={color} strokeWidth={1} dot={false} name={`${label} Mid`} />
+                                        ];
+                                    }
+                                    return Object.values(keys).map(key => (
+                                        <Line key={key} type="monotone" dataKey={key} stroke={color} strokeWidth={1} dot={false} name={label} />
+                                    ));
+                                })}
+                                {priceChartMode === "candle" ? (
+                                    <Bar
+                                        dataKey={(d) => [d.low, d.high]}
+                                        name="OHLC"
+                                        fill="#3b82f6"
+                                        shape={<Candle />}
+                                        isAnimationActive={false}
+                                    />
+                                ) : (
+                                    <Line
+                                        type="monotone"
+                                        dataKey="close"
+                                        stroke="#3b82f6"
+                                        strokeWidth={2}
+                                        dot={false}
+                                        name="Price"
+                                    />
+                                )}
                                 <Scatter
                                     dataKey="buyPrice"
                                     name="Buy Signal"
@@ -540,6 +679,65 @@ const StockDashboard = memo(({ data }: StockDashboardProps) => {
                             </ComposedChart>
                         </ResponsiveContainer>
                     </div>
+
+                    {/* Indicator Panes */}
+                    {chartIndicators.subpanes.map(({ result, keys, label }, n) => (
+                        <div key={result.id + n} className="mt-4">
+                            <div className="text-gray-400 text-xs font-medium uppercase tracking-wider mb-1">{label}</div>
+                            <div className="h-[140px] w-full">
+                                <ResponsiveContainer width="100%" height="100%">
+                                    <ComposedChart data={priceChartData} syncId="price">
+                                        <XAxis dataKey="date" hide />
+                                        <YAxis
+                                            stroke="#6b7280"
+                                            domain={result.type === "rsi" || result.type === "stochastic" ? [0, 100] : ['auto', 'auto']}
+                                            tickFormatter={(val) => Intl.NumberFormat("en", { notation: "compact" }).format(val)}
+                                        />
+                                        <Tooltip
+                                            contentStyle={{ backgroundColor: '#111827', borderColor: '#374151', borderRadius: '12px' }}
+                                            itemStyle={{ color: '#e5e7eb' }}
+                                            labelStyle={{ color: '#9ca3af' }}
+                                            formatter={(value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                                        />
+                                        {(SUBPANE_GUIDES[result.type] || []).map(y => (
+                                            <ReferenceLine key={y} y={y} stroke="#4b5563" strokeDasharray="3 3" />
+                                        ))}
+                                        {Object.entries(keys).map(([line, key], k) => line === "histogram" ? (
+                                            <Bar key={key} dataKey={key} name={line} fill="#6b7280" fillOpacity={0.6} isAnimationActive={false} />
+                                        ) : (
+                                            <Line key={key} type="monotone" dataKey={key} name={line} stroke={OVERLAY_COLORS[k % OVERLAY_COLORS.length]} strokeWidth={1.5} dot={false} />
+                                        ))}
+                                    </ComposedChart>
+                                </ResponsiveContainer>
+                            </div>
+                        </div>
+                    ))}
+
+                    {/* Volume Pane */}
+                    {showVolume && (
+                        <div className="h-[120px] w-full mt-2">
+                            <ResponsiveContainer width="100%" height="100%">
+                                <BarChart data={priceChartData} syncId="price">
+                                    <XAxis dataKey="date" hide />
+                                    <YAxis
+                                        stroke="#6b7280"
+                                        tickFormatter={(val) => Intl.NumberFormat("en", { notation: "compact" }).format(val)}
+                                    />
+                                    <Tooltip
+                                        contentStyle={{ backgroundColor: '#111827', borderColor: '#374151', borderRadius: '12px' }}
+                                        itemStyle={{ color: '#e5e7eb' }}
+                                        labelStyle={{ color: '#9ca3af' }}
+                                        formatter={(value: number) => [value.toLocaleString(), "Volume"]}
+                                    />
+                                    <Bar dataKey="volume" name="Volume" isAnimationActive={false}>
+                                        {priceChartData.map((d, i) => (
+                                            <Cell key={i} fill={d.close >= d.open ? "#10b981" : "#ef4444"} fillOpacity={0.5} />
+                                        ))}
+                                    </Bar>
+                                </BarChart>
+                            </ResponsiveContainer>
+                        </div>
+                    )}
                 </motion.div>
 
                 {/* Volatility Chart */}
@@ -549,11 +747,34 @@ const StockDashboard = memo(({ data }: StockDashboardProps) => {
                     transition={{ delay: 0.3 }}
                     className="bg-gray-900/50 backdrop-blur-xl border border-gray-800 rounded-3xl p-6 shadow-xl"
                 >
-                    <div className="flex items-center gap-3 mb-6">
+                    <div className="flex flex-wrap items-center gap-3 mb-6">
                         <div className="p-2 bg-purple-500/10 rounded-xl">
                             <Activity className="w-6 h-6 text-purple-400" />
                         </div>
                         <h3 className="text-xl font-semibold text-white">Volatility Analysis</h3>
+                        {volatility.current && (
+                            <span
+                                className="px-2 py-0.5 rounded-lg text-xs font-medium border"
+                                style={{ color: REGIME_COLORS[volatility.current], borderColor: REGIME_COLORS[volatility.current] }}
+                                title={`From ${volatility.source.toUpperCase()} volatility: low below ${volatility.thresholds.low.toFixed(1)}%, high above ${volatility.thresholds.high.toFixed(1)}% (25th / 75th percentile of the range)`}
+                            >
+                                {REGIME_LABELS[volatility.current]} regime
+                            </span>
+                        )}
+                        <div className="flex gap-1 bg-gray-800/50 p-1 rounded-xl border border-gray-700/50 ml-auto">
+                            {([["changes", barLabel(interval)], ["annualized", "Annualized"]] as const).map(([view, label]) => (
+                                <button
+                                    key={view}
+                                    onClick={() => setVolatilityView(view)}
+                                    className={`px-3 py-1 rounded-lg text-xs font-medium transition-all ${volatilityView === view
+                                        ? 'bg-blue-600 text-white'
+                                        : 'text-gray-400 hover:text-white hover:bg-white/5'
+                                        }`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
                     </div>
                     <div className="h-[350px] w-full">
                         <ResponsiveContainer width="100%" height="100%">
@@ -562,10 +783,7 @@ const StockDashboard = memo(({ data }: StockDashboardProps) => {
                                 <XAxis
                                     dataKey="date"
                                     stroke="#6b7280"
-                                    tickFormatter={(str) => {
-                                        const date = new Date(str);
-                                        return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}`;
-                                    }}
+                                    tickFormatter={formatDateTick}
                                     minTickGap={50}
                                 />
                                 <YAxis
@@ -576,26 +794,74 @@ const StockDashboard = memo(({ data }: StockDashboardProps) => {
                                     contentStyle={{ backgroundColor: '#111827', borderColor: '#374151', borderRadius: '12px' }}
                                     itemStyle={{ color: '#e5e7eb' }}
                                     labelStyle={{ color: '#9ca3af' }}
+                                    formatter={(value) => typeof value === "number" ? `${value.toFixed(2)}%` : value}
                                 />
                                 <Legend />
-                                <Bar
-                                    dataKey="changePercent"
-                                    name="Daily Change %"
-                                    fill="#8b5cf6"
-                                    opacity={0.6}
-                                    radius={[4, 4, 0, 0]}
-                                />
-                                <Line
-                                    type="monotone"
-                                    dataKey="rollingSD"
-                                    name="20-Day Volatility (SD)"
-                                    stroke="#f472b6"
-                                    strokeWidth={2}
-                                    dot={false}
-                                />
+                                {volatilityView === "changes" ? [
+                                    <Bar
+                                        key="changePercent"
+                                        dataKey="changePercent"
+                                        name={`${barLabel(interval)} Change %`}
+                                        fill="#8b5cf6"
+                                        opacity={0.6}
+                                        radius={[4, 4, 0, 0]}
+                                    />,
+                                    <Line
+                                        key="rollingSD"
+                                        type="monotone"
+                                        dataKey="rollingSD"
+                                        name={`${windowLabel(sdWindow, interval)} Volatility (SD)`}
+                                        stroke="#f472b6"
+                                        strokeWidth={2}
+                                        dot={false}
+                                    />
+                                ] : [
+                                    <Line key="realized10" type="monotone" dataKey="realized10" name={`Realized ${windowLabel(10, interval)}`} stroke="#a78bfa" strokeWidth={1} dot={false} />,
+                                    <Line key="realized20" type="monotone" dataKey="realized20" name={`Realized ${windowLabel(20, interval)}`} stroke="#f472b6" strokeWidth={1.5} dot={false} />,
+                                    <Line key="realized60" type="monotone" dataKey="realized60" name={`Realized ${windowLabel(60, interval)}`} stroke="#22d3ee" strokeWidth={1.5} dot={false} />,
+                                    <Line key="ewma" type="monotone" dataKey="ewmaVolatility" name="EWMA (λ 0.94)" stroke="#fbbf24" strokeWidth={1.5} dot={false} strokeDasharray="4 2" />,
+                                    ...(volatility.garch ? [
+                                        <Line key="garch" type="monotone" dataKey="garchVolatility" name="GARCH(1,1)" stroke="#10b981" strokeWidth={2} dot={false} />
+                                    ] : []),
+                                    <ReferenceLine key="low" y={volatility.thresholds.low} stroke={REGIME_COLORS.low} strokeDasharray="3 3" />,
+                                    <ReferenceLine key="high" y={volatility.thresholds.high} stroke={REGIME_COLORS.high} strokeDasharray="3 3" />
+                                ]}
                             </ComposedChart>
                         </ResponsiveContainer>
                     </div>
+
+                    {/* Forecasts */}
+                    <div className="flex items-center justify-between mt-6 mb-3">
+                        <div className="text-gray-400 text-xs font-medium uppercase tracking-wider">Annualized forecast</div>
+                        <select
+                            value={forecastHorizon}
+                            onChange={(e) => setForecastHorizon(Number(e.target.value))}
+                            className="bg-gray-800/50 text-gray-300 text-xs rounded-xl border border-gray-700/50 px-2 py-1.5 focus:outline-none"
+                        >
+                            {FORECAST_HORIZONS.map(h => <option key={h} value={h}>Next {h} {countUnit}</option>)}
+                        </select>
+                    </div>
+                    <div className="grid grid-cols-3 gap-4">
+                        <div className="bg-gray-800/50 rounded-2xl p-3 border border-gray-700/50 text-center">
+                            <div className="text-gray-400 text-xs font-medium uppercase tracking-wider mb-1">Realized {windowLabel(20, interval)}</div>
+                            <div className="text-white font-bold text-lg">{volatility.realized[20][volatility.realized[20].length - 1]?.toFixed(1) ?? "–"}%</div>
+                            <div className="text-gray-400 text-xs mt-1">Now</div>
+                        </div>
+                        <div className="bg-gray-800/50 rounded-2xl p-3 border border-gray-700/50 text-center">
+                            <div className="text-gray-400 text-xs font-medium uppercase tracking-wider mb-1">EWMA</div>
+                            <div className="text-white font-bold text-lg">{volatility.forecast.ewma.toFixed(1)}%</div>
+                            <div className="text-gray-400 text-xs mt-1">Flat, no mean reversion</div>
+                        </div>
+                        <div className="bg-gray-800/50 rounded-2xl p-3 border border-gray-700/50 text-center">
+                            <div className="text-gray-400 text-xs font-medium uppercase tracking-wider mb-1">GARCH(1,1)</div>
+                            <div className="text-white font-bold text-lg">{volatility.forecast.garch !== null ? `${volatility.forecast.garch.toFixed(1)}%` : "–"}</div>
+                            <div className="text-gray-400 text-xs mt-1">
+                                {volatility.garch
+                                    ? `→ ${volatility.garch.fit.longRunVolatility.toFixed(1)}% long run, half-life ${Math.round(volatility.garch.fit.halfLife)} ${countUnit}`
+                                    : "Needs 60+ bars"}
+                            </div>
+                        </div>
+                    </div>
                 </motion.div>
 
                 {/* Distribution Chart */}
@@ -605,11 +871,37 @@ const StockDashboard = memo(({ data }: StockDashboardProps) => {
                     transition={{ delay: 0.4 }}
                     className="bg-gray-900/50 backdrop-blur-xl border border-gray-800 rounded-3xl p-6 shadow-xl"
                 >
-                    <div className="flex items-center gap-3 mb-6">
+                    <div className="flex flex-wrap items-center gap-3 mb-6">
                         <div className="p-2 bg-green-500/10 rounded-xl">
                             <Activity className="w-6 h-6 text-green-400" />
                         </div>
                         <h3 className="text-xl font-semibold text-white">Return Distribution</h3>
+                        <div className="flex items-center gap-2 ml-auto">
+                            <div className="flex gap-1 bg-gray-800/50 p-1 rounded-xl border border-gray-700/50">
+                                {([["simple", "Simple"], ["log", "Log"]] as const).map(([kind, label]) => (
+                                    <button
+                                        key={kind}
+                                        onClick={() => setReturnKind(kind)}
+                                        className={`px-3 py-1 rounded-lg text-xs font-medium transition-all ${returnKind === kind
+                                            ? 'bg-blue-600 text-white'
+                                            : 'text-gray-400 hover:text-white hover:bg-white/5'
+                                            }`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                            <select
+                                value={String(binWidthRule)}
+                                onChange={(e) => setBinWidthRule(e.target.value === "auto" || e.target.value === "fd" ? e.target.value : Number(e.target.value))}
+                                title="Histogram bin width"
+                                className="bg-gray-800/50 text-gray-300 text-xs rounded-xl border border-gray-700/50 px-2 py-1.5 focus:outline-none"
+                            >
+                                {BIN_WIDTH_OPTIONS.map(([rule, label]) => (
+                                    <option key={rule} value={rule}>{label}</option>
+                                ))}
+                            </select>
+                        </div>
                     </div>
 
                     {/* Sigma Statistics Summary */}
@@ -621,18 +913,18 @@ const StockDashboard = memo(({ data }: StockDashboardProps) => {
                         <div className="bg-gray-800/50 rounded-2xl p-3 border border-gray-700/50 text-center">
                             <div className="text-pink-400 text-xs font-medium uppercase tracking-wider mb-1">1 Sigma (1σ)</div>
                             <div className="text-white font-bold text-lg">±{distributionData.sd.toFixed(2)}%</div>
-                            <div className="text-gray-400 text-xs mt-1">{distributionData.count1Sigma} days ({(distributionData.count1Sigma / distributionData.totalDays * 100).toFixed(1)}%)</div>
+                            <div className="text-gray-400 text-xs mt-1">{distributionData.count1Sigma} {countUnit} ({(distributionData.count1Sigma / distributionData.totalDays * 100).toFixed(1)}%)</div>
                         </div>
                         <div className="bg-gray-800/50 rounded-2xl p-3 border border-gray-700/50 text-center">
                             <div className="text-red-400 text-xs font-medium uppercase tracking-wider mb-1">2 Sigma (2σ)</div>
                             <div className="text-white font-bold text-lg">±{(distributionData.sd * 2).toFixed(2)}%</div>
-                            <div className="text-gray-400 text-xs mt-1">{distributionData.count2Sigma} days ({(distributionData.count2Sigma / distributionData.totalDays * 100).toFixed(1)}%)</div>
+                            <div className="text-gray-400 text-xs mt-1">{distributionData.count2Sigma} {countUnit} ({(distributionData.count2Sigma / distributionData.totalDays * 100).toFixed(1)}%)</div>
                         </div>
                     </div>
 
                     <div className="h-[300px] w-full">
                         <ResponsiveContainer width="100%" height="100%">
-                            <BarChart data={distributionData.data}>
+                            <ComposedChart data={distributionChartData}>
                                 <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" vertical={false} />
                                 <XAxis
                                     dataKey="bin"
@@ -647,21 +939,33 @@ const StockDashboard = memo(({ data }: StockDashboardProps) => {
                                     contentStyle={{ backgroundColor: '#111827', borderColor: '#374151', borderRadius: '12px' }}
                                     itemStyle={{ color: '#e5e7eb' }}
                                     labelStyle={{ color: '#9ca3af' }}
-                                    formatter={(value, name) => [value, "Days"]}
+                                    formatter={(value, name) => name === "Frequency"
+                                        ? [value, interval === '1d' ? "Days" : "Bars"]
+                                        : [Number(value).toFixed(1), name]}
                                     labelFormatter={(label) => `Return: ${label}%`}
                                 />
                                 <Legend />
                                 <Bar dataKey="count" name="Frequency" fill="#10b981" radius={[4, 4, 0, 0]} />
+                                {distributionAnalysis && (
+                                    <Line type="monotone" dataKey="normalFit" name="Normal fit" stroke="#60a5fa" strokeWidth={2} dot={false} isAnimationActive={false} />
+                                )}
+                                {distributionAnalysis?.studentT && (
+                                    <Line type="monotone" dataKey="tFit" name={`Student-t fit (ν=${distributionAnalysis.studentT.df})`} stroke="#f59e0b" strokeWidth={2} dot={false} isAnimationActive={false} />
+                                )}
 
                                 {/* Sigma Lines - Snapped to nearest bin for categorical axis */}
-                                <ReferenceLine x={parseFloat((Math.round(distributionData.mean / 0.1) * 0.1).toFixed(1))} stroke="#fff" strokeDasharray="3 3" label={{ value: "Mean", position: "top", fill: "#fff", fontSize: 10 }} />
-                                <ReferenceLine x={parseFloat((Math.round((distributionData.mean + distributionData.sd) / 0.1) * 0.1).toFixed(1))} stroke="#f472b6" strokeDasharray="3 3" label={{ value: "+1σ", position: "top", fill: "#f472b6", fontSize: 10 }} />
-                                <ReferenceLine x={parseFloat((Math.round((distributionData.mean - distributionData.sd) / 0.1) * 0.1).toFixed(1))} stroke="#f472b6" strokeDasharray="3 3" label={{ value: "-1σ", position: "top", fill: "#f472b6", fontSize: 10 }} />
-                                <ReferenceLine x={parseFloat((Math.round((distributionData.mean + (2 * distributionData.sd)) / 0.1) * 0.1).toFixed(1))} stroke="#ef4444" strokeDasharray="3 3" label={{ value: "+2σ", position: "top", fill: "#ef4444", fontSize: 10 }} />
-                                <ReferenceLine x={parseFloat((Math.round((distributionData.mean - (2 * distributionData.sd)) / 0.1) * 0.1).toFixed(1))} stroke="#ef4444" strokeDasharray="3 3" label={{ value: "-2σ", position: "top", fill: "#ef4444", fontSize: 10 }} />
-                            </BarChart>
+                                <ReferenceLine x={snapToBin(distributionData.mean)} stroke="#fff" strokeDasharray="3 3" label={{ value: "Mean", position: "top", fill: "#fff", fontSize: 10 }} />
+                                <ReferenceLine x={snapToBin(distributionData.mean + distributionData.sd)} stroke="#f472b6" strokeDasharray="3 3" label={{ value: "+1σ", position: "top", fill: "#f472b6", fontSize: 10 }} />
+                                <ReferenceLine x={snapToBin(distributionData.mean - distributionData.sd)} stroke="#f472b6" strokeDasharray="3 3" label={{ value: "-1σ", position: "top", fill: "#f472b6", fontSize: 10 }} />
+                                <ReferenceLine x={snapToBin(distributionData.mean + (2 * distributionData.sd))} stroke="#ef4444" strokeDasharray="3 3" label={{ value: "+2σ", position: "top", fill: "#ef4444", fontSize: 10 }} />
+                                <ReferenceLine x={snapToBin(distributionData.mean - (2 * distributionData.sd))} stroke="#ef4444" strokeDasharray="3 3" label={{ value: "-2σ", position: "top", fill: "#ef4444", fontSize: 10 }} />
+                            </ComposedChart>
                         </ResponsiveContainer>
                     </div>
+
+                    {distributionAnalysis && (
+                        <DistributionAnalysisPanel analysis={distributionAnalysis} returnKind={returnKind} barUnit={interval === '1d' ? "day" : "bar"} />
+                    )}
                 </motion.div>
 
                 {/* Monthly DCA Simulation Chart */}
@@ -679,6 +983,11 @@ const StockDashboard = memo(({ data }: StockDashboardProps) => {
                             <div>
                                 <h3 className="text-xl font-semibold text-white">Monthly DCA Simulation</h3>
                                 <p className="text-gray-400 text-sm">Strategy: Buy 1 Share on Month Start + <span className="text-green-400">Reinvest Dividends</span></p>
+                                {unknownHolidayYears.length > 0 && (
+                                    <p className="text-amber-400 text-xs mt-1">
+                                        No {backtestSeries.calendar!.id} holiday list for {unknownHolidayYears.join(", ")}: only fixed-date holidays are skipped there.
+                                    </p>
+                                )}
                             </div>
                         </div>
 
@@ -690,20 +999,20 @@ const StockDashboard = memo(({ data }: StockDashboardProps) => {
                             </div>
                             <div className="bg-gray-800/50 rounded-2xl p-3 border border-gray-700/50">
                                 <div className="text-gray-400 text-xs font-medium uppercase tracking-wider mb-1">Total Invested</div>
-                                <div className="text-white font-bold text-lg">${dcaSimulationData.totalInvested.toLocaleString()}</div>
+                                <div className="text-white font-bold text-lg">{money(dcaSimulationData.totalInvested)}</div>
                             </div>
                             <div className="bg-gray-800/50 rounded-2xl p-3 border border-gray-700/50">
                                 <div className="text-gray-400 text-xs font-medium uppercase tracking-wider mb-1">Avg Buy Price</div>
-                                <div className="text-white font-bold text-lg">${dcaSimulationData.avgPrice.toLocaleString(undefined, { maximumFractionDigits: 2 })}</div>
+                                <div className="text-white font-bold text-lg">{money(dcaSimulationData.avgPrice, 2)}</div>
                             </div>
 
                             <div className="bg-gray-800/50 rounded-2xl p-3 border border-gray-700/50">
                                 <div className="text-gray-400 text-xs font-medium uppercase tracking-wider mb-1">Total Dividends</div>
-                                <div className="text-green-400 font-bold text-lg">+${dcaSimulationData.totalDividends.toLocaleString(undefined, { maximumFractionDigits: 2 })}</div>
+                                <div className="text-green-400 font-bold text-lg">+{money(dcaSimulationData.totalDividends, 2)}</div>
                             </div>
                             <div className="bg-gray-800/50 rounded-2xl p-3 border border-gray-700/50">
                                 <div className="text-gray-400 text-xs font-medium uppercase tracking-wider mb-1">Current Value</div>
-                                <div className="text-white font-bold text-lg">${dcaSimulationData.currentValue.toLocaleString(undefined, { maximumFractionDigits: 0 })}</div>
+                                <div className="text-white font-bold text-lg">{money(dcaSimulationData.currentValue, 0)}</div>
                             </div>
                             <div className="bg-gray-800/50 rounded-2xl p-3 border border-gray-700/50">
                                 <div className="text-gray-400 text-xs font-medium uppercase tracking-wider mb-1">Total Return</div>
@@ -713,6 +1022,10 @@ const StockDashboard = memo(({ data }: StockDashboardProps) => {
                             </div>
                         </div>
 
+                        {dcaSimulationData.fxImpact && <FxImpactNote impact={dcaSimulationData.fxImpact} money={money} />}
+
+                        <PerformanceReport metrics={dcaSimulationData.metrics} benchmark={benchmarkMetrics} />
+
                         <div className="h-[350px] w-full">
                             <ResponsiveContainer width="100%" height="100%">
                                 <AreaChart data={dcaChartData}>
@@ -726,21 +1039,18 @@ const StockDashboard = memo(({ data }: StockDashboardProps) => {
                                     <XAxis
                                         dataKey="date"
                                         stroke="#6b7280"
-                                        tickFormatter={(str) => {
-                                            const date = new Date(str);
-                                            return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}`;
-                                        }}
+                                        tickFormatter={formatDateTick}
                                         minTickGap={50}
                                     />
                                     <YAxis
                                         stroke="#6b7280"
-                                        tickFormatter={(val) => `$${val}`}
+                                        tickFormatter={moneyTick}
                                     />
                                     <Tooltip
                                         contentStyle={{ backgroundColor: '#111827', borderColor: '#374151', borderRadius: '12px' }}
                                         itemStyle={{ color: '#e5e7eb' }}
                                         labelStyle={{ color: '#9ca3af' }}
-                                        formatter={(value: number) => [`$${value.toLocaleString()}`, ""]}
+                                        formatter={(value: number) => [money(value), ""]}
                                     />
                                     <Legend />
                                     <Area
@@ -780,7 +1090,7 @@ const StockDashboard = memo(({ data }: StockDashboardProps) => {
                             </div>
                             <div>
                                 <h3 className="text-xl font-semibold text-white">Volatility Trading Simulation</h3>
-                                <p className="text-gray-400 text-sm">Strategy: Buy 1 Share when daily change is in selected zones + <span className="text-green-400">Reinvest Dividends</span></p>
+                                <p className="text-gray-400 text-sm">Strategy: Buy 1 Share when daily change is in selected zones of the returns before it + <span className="text-green-400">Reinvest Dividends</span></p>
                             </div>
                         </div>
 
@@ -788,13 +1098,13 @@ const StockDashboard = memo(({ data }: StockDashboardProps) => {
                         <div className="mb-6">
                             <div className="text-gray-400 text-xs font-medium uppercase tracking-wider mb-2">Buy Zones (Sigma)</div>
                             <div className="flex flex-wrap gap-2">
-                                {[
+                                {([
                                     { id: "-2", label: "≤ -2σ", color: "bg-red-500" },
                                     { id: "-1", label: "-1σ", color: "bg-pink-500" },
                                     { id: "0", label: "0σ (Normal)", color: "bg-gray-500" },
                                     { id: "1", label: "+1σ", color: "bg-blue-500" },
                                     { id: "2", label: "≥ +2σ", color: "bg-indigo-500" },
-                                ].map(zone => {
+                                ] as { id: SigmaZone; label: string; color: string }[]).map(zone => {
                                     const isSelected = selectedZones.includes(zone.id);
                                     return (
                                         <button
@@ -820,20 +1130,20 @@ const StockDashboard = memo(({ data }: StockDashboardProps) => {
                             </div>
                             <div className="bg-gray-800/50 rounded-2xl p-3 border border-gray-700/50">
                                 <div className="text-gray-400 text-xs font-medium uppercase tracking-wider mb-1">Total Invested</div>
-                                <div className="text-white font-bold text-lg">${simulationData.totalInvested.toLocaleString()}</div>
+                                <div className="text-white font-bold text-lg">{money(simulationData.totalInvested)}</div>
                             </div>
                             <div className="bg-gray-800/50 rounded-2xl p-3 border border-gray-700/50">
                                 <div className="text-gray-400 text-xs font-medium uppercase tracking-wider mb-1">Avg Buy Price</div>
-                                <div className="text-white font-bold text-lg">${simulationData.avgPrice.toLocaleString(undefined, { maximumFractionDigits: 2 })}</div>
+                                <div className="text-white font-bold text-lg">{money(simulationData.avgPrice, 2)}</div>
                             </div>
 
                             <div className="bg-gray-800/50 rounded-2xl p-3 border border-gray-700/50">
                                 <div className="text-gray-400 text-xs font-medium uppercase tracking-wider mb-1">Total Dividends</div>
-                                <div className="text-green-400 font-bold text-lg">+${simulationData.totalDividends.toLocaleString(undefined, { maximumFractionDigits: 2 })}</div>
+                                <div className="text-green-400 font-bold text-lg">+{money(simulationData.totalDividends, 2)}</div>
                             </div>
                             <div className="bg-gray-800/50 rounded-2xl p-3 border border-gray-700/50">
                                 <div className="text-gray-400 text-xs font-medium uppercase tracking-wider mb-1">Val (Reinvest)</div>
-                                <div className="text-white font-bold text-lg">${simulationData.currentValue.toLocaleString(undefined, { maximumFractionDigits: 0 })}</div>
+                                <div className="text-white font-bold text-lg">{money(simulationData.currentValue, 0)}</div>
                             </div>
                             <div className="bg-gray-800/50 rounded-2xl p-3 border border-gray-700/50">
                                 <div className="text-gray-400 text-xs font-medium uppercase tracking-wider mb-1">Total Return</div>
@@ -843,6 +1153,10 @@ const StockDashboard = memo(({ data }: StockDashboardProps) => {
                             </div>
                         </div>
 
+                        {simulationData.fxImpact && <FxImpactNote impact={simulationData.fxImpact} money={money} />}
+
+                        <PerformanceReport metrics={simulationData.metrics} benchmark={benchmarkMetrics} />
+
                         <div className="h-[350px] w-full">
                             <ResponsiveContainer width="100%" height="100%">
                                 <AreaChart data={simulationChartData}>
@@ -860,24 +1174,21 @@ const StockDashboard = memo(({ data }: StockDashboardProps) => {
                                     <XAxis
                                         dataKey="date"
                                         stroke="#6b7280"
-                                        tickFormatter={(str) => {
-                                            const date = new Date(str);
-                                            return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}`;
-                                        }}
+                                        tickFormatter={formatDateTick}
                                         minTickGap={50}
                                     />
                                     <YAxis
                                         stroke="#6b7280"
-                                        tickFormatter={(val) => `$${val}`}
+                                        tickFormatter={moneyTick}
                                     />
                                     <Tooltip
                                         contentStyle={{ backgroundColor: '#111827', borderColor: '#374151', borderRadius: '12px' }}
                                         itemStyle={{ color: '#e5e7eb' }}
                                         labelStyle={{ color: '#9ca3af' }}
                                         formatter={(value: number, name: string) => {
-                                            if (name === "valueReinvest") return [`$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`, "With Reinvestment"];
-                                            if (name === "valueNoReinvest") return [`$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`, "Without Reinvestment"];
-                                            return [`$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`, name];
+                                            if (name === "valueReinvest") return [money(value, 0), "With Reinvestment"];
+                                            if (name === "valueNoReinvest") return [money(value, 0), "Without Reinvestment"];
+                                            return [money(value, 0), name];
                                         }}
                                     />
                                     <Legend />
@@ -934,10 +1245,30 @@ const StockDashboard = memo(({ data }: StockDashboardProps) => {
                     </motion.div>
                 )}
 
-
+                <BacktestPanel series={backtestSeries} currentPrice={data.currentPrice} currency={data.currency} interval={interval} benchmark={benchmarkMetrics} formatDateTick={formatDateTick} />
             </div>
         </motion.div>
     );
+}
+
+type CurrencyView = "local" | "base";
+const DEFAULT_CURRENCY_VIEW: CurrencyView = "local";
+
+/** Base-currency P&L of a simulation split into price and FX effects (see lib/fx). */
+function FxImpactNote({ impact, money }: { impact: ReturnType<typeof fxImpact>; money: (value: number, digits?: number) => string }) {
+    const signed = (value: number) => `${value >= 0 ? '+' : ''}${money(value, 0)}`;
+    return (
+        <p className="text-xs text-gray-400 mb-6">
+            P&amp;L {signed(impact.total)} = price <span className={impact.price >= 0 ? 'text-green-400' : 'text-red-400'}>{signed(impact.price)}</span>
+            {' '}+ FX <span className={impact.fx >= 0 ? 'text-green-400' : 'text-red-400'}>{signed(impact.fx)}</span>
+        </p>
+    );
+}
+
+// Guard lives outside DashboardContent so its hooks always run in the same order
+const StockDashboard = memo(function StockDashboard({ data, ...props }: StockDashboardProps) {
+    if (!data) return null;
+    return <DashboardContent data={data} {...props} />;
 });
 
 export default StockDashboard;
@@ -0,0 +1,260 @@
+"use client";
+
+import { useEffect, useState, memo } from "react";
+import { motion } from "framer-motion";
+import { ArrowUp, ArrowDown, ChevronLeft, ChevronRight, List, Plus, Trash2, X } from "lucide-react";
+import { SIGMA_ZONE_LABELS, type SigmaZone } from "@/lib/analytics";
+import { formatMoney } from "@/lib/format";
+import { AUTO_REFRESH_MS } from "@/lib/refresh";
+import { STORAGE_KEYS, useStoredState } from "@/lib/storage";
+
+export interface Watchlist {
+    id: string;
+    name: string;
+    symbols: string[];
+}
+
+interface WatchlistQuote {
+    symbol: string;
+    name?: string;
+    currency?: string;
+    price?: number;
+    changePercent: number;
+    rollingSD: number;
+    zone: SigmaZone;
+}
+
+interface WatchlistsProps {
+    currentSymbol?: string;
+    onSelect: (symbol: string) => void;
+}
+
+const DEFAULT_WATCHLISTS: Watchlist[] = [{ id: "default", name: "My Watchlist", symbols: [] }];
+
+const ZONE_COLORS: Record<SigmaZone, string> = {
+    "-2": "bg-red-500/20 text-red-400",
+    "-1": "bg-pink-500/20 text-pink-400",
+    "0": "bg-gray-500/20 text-gray-400",
+    "1": "bg-blue-500/20 text-blue-400",
+    "2": "bg-indigo-500/20 text-indigo-400",
+};
+
+// Moves the item at `index` one step in `direction` (-1 / +1)
+const move = <T,>(items: T[], index: number, direction: number): T[] => {
+    const target = index + direction;
+    if (target < 0 || target >= items.length) return items;
+    const next = [...items];
+    [next[index], next[target]] = [next[target], next[index]];
+    return next;
+};
+
+async function fetchQuotes(symbols: string[], resolve = false): Promise<{ quotes: WatchlistQuote[]; errors: { symbol: string; error: string }[] }> {
+    const res = await fetch("/api/watchlist", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ symbols, resolve }),
+    });
+    const json = await res.json();
+    if (!res.ok) throw new Error(json.error || "Failed to fetch watchlist");
+    return json;
+}
+
+function Watchlists({ currentSymbol, onSelect }: WatchlistsProps) {
+    const [lists, setLists] = useStoredState(STORAGE_KEYS.watchlists, DEFAULT_WATCHLISTS);
+    const [activeId, setActiveId] = useState<string | null>(null);
+    const [quotes, setQuotes] = useState<Record<string, WatchlistQuote>>({});
+    const [symbolInput, setSymbolInput] = useState("");
+    const [newListName, setNewListName] = useState("");
+    const [error, setError] = useState<string | null>(null);
+
+    const active = lists.find(l => l.id === activeId) || lists[0];
+    const activeKey = active ? active.symbols.join(",") : "";
+
+    // Load quotes for the active list now and on the page's refresh cadence
+    useEffect(() => {
+        if (!activeKey) return;
+        const symbols = activeKey.split(",");
+        const load = () => fetchQuotes(symbols)
+            .then(({ quotes: rows }) => setQuotes(prev => ({ ...prev, ...Object.fromEntries(rows.map(q => [q.symbol, q])) })))
+            .catch(err => console.error("Watchlist refresh failed", err));
+
+        load();
+        const intervalId = setInterval(load, AUTO_REFRESH_MS);
+        return () => clearInterval(intervalId);
+    }, [activeKey]);
+
+    const updateActive = (update: (list: Watchlist) => Watchlist) => {
+        if (!active) return;
+        setLists(prev => prev.map(l => l.id === active.id ? update(l) : l));
+    };
+
+    const addSymbol = async (query: string) => {
+        if (!active || !query.trim()) return;
+        setError(null);
+        try {
+            // Resolve free text ("samsung") to the ticker the table will poll
+            const { quotes: rows, errors } = await fetchQuotes([query.trim()], true);
+            if (rows.length === 0) throw new Error(errors[0]?.error || "Symbol not found");
+            const row = rows[0];
+            setQuotes(prev => ({ ...prev, [row.symbol]: row }));
+            updateActive(l => l.symbols.includes(row.symbol) ? l : { ...l, symbols: [...l.symbols, row.symbol] });
+            setSymbolInput("");
+        } catch (err: unknown) {
+            setError((err as Error).message);
+        }
+    };
+
+    const createList = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newListName.trim()) return;
+        const list = { id: Date.now().toString(36), name: newListName.trim(), symbols: [] };
+        setLists(prev => [...prev, list]);
+        setActiveId(list.id);
+        setNewListName("");
+    };
+
+    const deleteList = (id: string) => {
+        setLists(prev => prev.filter(l => l.id !== id));
+        if (activeId === id) setActiveId(null);
+    };
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="w-full max-w-6xl mx-auto mt-8 bg-gray-900/50 backdrop-blur-xl border border-gray-800 rounded-3xl p-6 shadow-xl"
+        >
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                <div className="flex items-center gap-3">
+                    <div className="p-2 bg-teal-500/10 rounded-xl">
+                        <List className="w-6 h-6 text-teal-400" />
+                    </div>
+                    <h3 className="text-xl font-semibold text-white">Watchlists</h3>
+                </div>
+                <form onSubmit={createList} className="flex gap-2">
+                    <input
+                        type="text"
+                        value={newListName}
+                        onChange={(e) => setNewListName(e.target.value)}
+                        placeholder="New watchlist"
+                        className="px-3 py-2 bg-gray-800/50 border border-gray-700 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:border-blue-500"
+                    />
+                    <button type="submit" className="px-3 py-2 rounded-lg bg-blue-600 text-white text-sm hover:bg-blue-500 transition-colors">
+                        <Plus className="w-4 h-4" />
+                    </button>
+                </form>
+            </div>
+
+            {/* List tabs: select, reorder, delete */}
+            <div className="flex flex-wrap gap-2 mb-4">
+                {lists.map((list, index) => (
+                    <div
+                        key={list.id}
+                        className={`flex items-center gap-1 px-2 py-1 rounded-lg border text-sm ${active?.id === list.id ? 'bg-blue-600/20 border-blue-500/50 text-white' : 'border-gray-700 text-gray-400'}`}
+                    >
+                        <button onClick={() => setLists(prev => move(prev, index, -1))} className="hover:text-white" title="Move left">
+                            <ChevronLeft className="w-3 h-3" />
+                        </button>
+                        <button onClick={() => setActiveId(list.id)} className="px-1 font-medium hover:text-white">
+                            {list.name} <span className="text-gray-500">({list.symbols.length})</span>
+                        </button>
+                        <button onClick={() => setLists(prev => move(prev, index, 1))} className="hover:text-white" title="Move right">
+                            <ChevronRight className="w-3 h-3" />
+                        </button>
+                        <button onClick={() => deleteList(list.id)} className="ml-1 text-gray-500 hover:text-red-400" title="Delete watchlist">
+                            <Trash2 className="w-3 h-3" />
+                        </button>
+                    </div>
+                ))}
+            </div>
+
+            {active && (
+                <>
+                    <div className="flex flex-wrap gap-2 mb-4">
+                        <form
+                            onSubmit={(e) => { e.preventDefault(); addSymbol(symbolInput); }}
+                            className="flex gap-2"
+                        >
+                            <input
+                                type="text"
+                                value={symbolInput}
+                                onChange={(e) => setSymbolInput(e.target.value)}
+                                placeholder={`Add to ${active.name}`}
+                                className="px-3 py-2 bg-gray-800/50 border border-gray-700 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:border-blue-500"
+                            />
+                            <button type="submit" className="px-3 py-2 rounded-lg bg-gray-800 border border-gray-700 text-gray-300 text-sm hover:text-white transition-colors">
+                                Add
+                            </button>
+                        </form>
+                        {currentSymbol && !active.symbols.includes(currentSymbol) && (
+                            <button
+                                onClick={() => addSymbol(currentSymbol)}
+                                className="px-3 py-2 rounded-lg bg-gray-800 border border-gray-700 text-gray-300 text-sm hover:text-white transition-colors"
+                            >
+                                + {currentSymbol}
+                            </button>
+                        )}
+                        {error && <span className="self-center text-sm text-red-400">{error}</span>}
+                    </div>
+
+                    {active.symbols.length === 0 ? (
+                        <div className="text-gray-500 text-sm">No symbols yet.</div>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm text-white">
+                                <thead>
+                                    <tr className="text-gray-400 text-left">
+                                        <th className="py-2 pr-2 font-medium">Symbol</th>
+                                        <th className="py-2 pr-2 font-medium text-right">Price</th>
+                                        <th className="py-2 pr-2 font-medium text-right">Change</th>
+                                        <th className="py-2 pr-2 font-medium text-right">20D SD</th>
+                                        <th className="py-2 pr-2 font-medium">Today</th>
+                                        <th />
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {active.symbols.map((symbol, index) => {
+                                        const q = quotes[symbol];
+                                        return (
+                                            <tr key={symbol} className="border-t border-gray-800 hover:bg-gray-800/30">
+                                                <td className="py-2 pr-2">
+                                                    <button onClick={() => onSelect(symbol)} className="text-left hover:text-blue-400">
+                                                        <div className="font-medium">{symbol}</div>
+                                                        {q?.name && <div className="text-xs text-gray-500">{q.name}</div>}
+                                                    </button>
+                                                </td>
+                                                <td className="py-2 pr-2 text-right">
+                                                    {q?.price !== undefined ? (q.currency ? formatMoney(q.price, q.currency) : q.price.toLocaleString()) : "…"}
+                                                </td>
+                                                <td className={`py-2 pr-2 text-right ${q && q.changePercent >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                                                    {q ? `${q.changePercent >= 0 ? '+' : ''}${q.changePercent.toFixed(2)}%` : "…"}
+                                                </td>
+                                                <td className="py-2 pr-2 text-right">{q ? `${q.rollingSD.toFixed(2)}%` : "…"}</td>
+                                                <td className="py-2 pr-2">
+                                                    {q && <span className={`px-2 py-0.5 rounded-full text-xs ${ZONE_COLORS[q.zone]}`}>{SIGMA_ZONE_LABELS[q.zone]}</span>}
+                                                </td>
+                                                <td className="py-2 text-right whitespace-nowrap text-gray-500">
+                                                    <button onClick={() => updateActive(l => ({ ...l, symbols: move(l.symbols, index, -1) }))} className="hover:text-white" title="Move up">
+                                                        <ArrowUp className="w-4 h-4 inline" />
+                                                    </button>
+                                                    <button onClick={() => updateActive(l => ({ ...l, symbols: move(l.symbols, index, 1) }))} className="hover:text-white" title="Move down">
+                                                        <ArrowDown className="w-4 h-4 inline" />
+                                                    </button>
+                                                    <button onClick={() => updateActive(l => ({ ...l, symbols: l.symbols.filter(s => s !== symbol) }))} className="ml-1 hover:text-red-400" title="Remove">
+                                                        <X className="w-4 h-4 inline" />
+                                                    </button>
+                                                </td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </>
+            )}
+        </motion.div>
+    );
+}
+
+export default memo(Watchlists);
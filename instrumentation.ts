@@ -0,0 +1,12 @@
+// Runs once when the Next.js server starts.
+export async function register() {
+    if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+    // ALERT_CHECK_MS=0 turns the scheduler off (e.g. when an external cron calls /api/alerts/check)
+    const { AUTO_REFRESH_MS } = await import("./lib/refresh");
+    const intervalMs = Number(process.env.ALERT_CHECK_MS ?? AUTO_REFRESH_MS);
+    if (!(intervalMs > 0)) return;
+
+    const { startAlertScheduler } = await import("./lib/alerts");
+    startAlertScheduler(intervalMs);
+}
@@ -0,0 +1,106 @@
+// Corporate-action adjustments for price series. Pure functions with no
+// server-only imports so both API routes and client components can use them.
+
+export interface PriceBar {
+    date: string;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    adjClose: number;
+    volume: number;
+}
+
+export interface SplitPoint {
+    date: string;
+    numerator: number;
+    denominator: number;
+}
+
+export interface DividendPoint {
+    date: string;
+    amount: number;
+}
+
+const dayKey = (date: string) => new Date(date).toISOString().split('T')[0];
+
+/**
+ * Cumulative split factor for a bar dated `date`: the product of
+ * denominator/numerator of every split that took effect after it.
+ * Multiplying a pre-split price by this factor makes it comparable to today's.
+ */
+export function splitFactorAt(date: string, splits: SplitPoint[]): number {
+    const day = dayKey(date);
+    return splits.reduce((factor, split) => (
+        dayKey(split.date) > day ? factor * (split.denominator / split.numerator) : factor
+    ), 1);
+}
+
+/** Back-adjusts prices and volume so splits no longer show up as price gaps. */
+export function adjustForSplits<T extends PriceBar>(history: T[], splits: SplitPoint[]): T[] {
+    if (splits.length === 0) return history;
+    return history.map((bar) => {
+        const factor = splitFactorAt(bar.date, splits);
+        if (factor === 1) return bar;
+        return {
+            ...bar,
+            open: bar.open * factor,
+            high: bar.high * factor,
+            low: bar.low * factor,
+            close: bar.close * factor,
+            volume: bar.volume / factor
+        };
+    });
+}
+
+/** Restates per-share dividend amounts on a post-split share basis. */
+export function adjustDividendsForSplits(dividends: DividendPoint[], splits: SplitPoint[]): DividendPoint[] {
+    if (splits.length === 0) return dividends;
+    return dividends.map((div) => ({ ...div, amount: div.amount * splitFactorAt(div.date, splits) }));
+}
+
+/**
+ * Total of the dividends paid on or after `since`, restated per share held
+ * today so it can be set against the current price.
+ */
+export function trailingDividends(dividends: DividendPoint[], splits: SplitPoint[], since: string): number {
+    const start = dayKey(since);
+    return adjustDividendsForSplits(dividends, splits)
+        .filter((div) => dayKey(div.date) >= start)
+        .reduce((sum, div) => sum + div.amount, 0);
+}
+
+/**
+ * Daily % change for each bar (first bar is 0). When dividends are given, the
+ * ex-date return includes the payout, i.e. a total-return series, so an
+ * ex-dividend drop isn't mistaken for a sell-off.
+ */
+export function dailyReturns(history: { date: string; close: number }[], dividends: DividendPoint[] = []): number[] {
+    const dividendMap = new Map<string, number>();
+    dividends.forEach((d) => dividendMap.set(dayKey(d.date), (dividendMap.get(dayKey(d.date)) || 0) + d.amount));
+
+    return history.map((day, i) => {
+        if (i === 0) return 0;
+        const prev = history[i - 1].close;
+        const payout = dividendMap.get(dayKey(day.date)) || 0;
+        return ((day.close + payout - prev) / prev) * 100;
+    });
+}
+
+export type PriceBasis = "adjusted" | "raw";
+
+/**
+ * Date-sorted history with matching dividends and daily changes. Adjusted:
+ * split-adjusted prices and total-return changes. Raw: as traded.
+ */
+export function priceSeries<T extends PriceBar>(history: T[], splits: SplitPoint[], dividends: DividendPoint[], basis: PriceBasis = "adjusted") {
+    const sorted = [...history].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+    if (basis === "raw") {
+        return { history: sorted, dividends, changes: dailyReturns(sorted) };
+    }
+
+    const adjusted = adjustForSplits(sorted, splits);
+    const adjustedDividends = adjustDividendsForSplits(dividends, splits);
+    return { history: adjusted, dividends: adjustedDividends, changes: dailyReturns(adjusted, adjustedDividends) };
+}
@@ -0,0 +1,138 @@
+import type { MarketData } from "@/components/MarketStatus";
+import { priceSeries } from "../adjustments";
+import { loadMarketData } from "../market";
+import { loadStockData } from "../stock";
+import { getAlertNotifiers } from "./notifiers";
+import { evaluateCondition, type SymbolSnapshot } from "./rules";
+import { readAlertStore, updateAlertStore } from "./store";
+import type { AlertDelivery, AlertEvent, AlertNotifier, AlertRule } from "./types";
+
+export type * from "./types";
+
+export interface AlertCheckResult {
+    checkedAt: string;
+    fired: AlertEvent[];
+    errors: { source: string; error: string }[];
+}
+
+// Symbol rules look at the same adjusted 1y daily series as the dashboard's default view
+async function loadSymbolSnapshot(symbol: string): Promise<SymbolSnapshot> {
+    const data = await loadStockData({ query: symbol, range: '1y' }, { includeGeminiMetrics: false });
+    const series = priceSeries(data.history, data.splits || [], data.dividends || []);
+    const changes = series.changes.slice(1);
+    return {
+        symbol,
+        changePercent: data.changePercent ?? changes[changes.length - 1] ?? 0,
+        changes,
+        closes: series.history.map(bar => bar.close)
+    };
+}
+
+/** Sends a fired alert through each notifier; a failed delivery is recorded, not thrown. */
+export function deliverAlert(event: AlertEvent, rule: AlertRule, notifiers: AlertNotifier[]): Promise<AlertDelivery[]> {
+    return Promise.all(notifiers.map(async (notifier) => {
+        try {
+            await notifier.send(event, rule);
+            return { channel: notifier.name, ok: true };
+        } catch (err: unknown) {
+            console.error(`Alert delivery via ${notifier.name} failed:`, err);
+            return { channel: notifier.name, ok: false, error: (err as Error).message };
+        }
+    }));
+}
+
+async function checkRules(): Promise<AlertCheckResult> {
+    const { rules, active } = await readAlertStore();
+    const enabled = rules.filter(rule => rule.enabled);
+    const errors: AlertCheckResult["errors"] = [];
+
+    // 1. Fetch each symbol once, and market data only when a rule needs it
+    const symbolList = [...new Set(enabled.flatMap(({ condition }) => condition.kind === "market" ? [] : [condition.symbol]))];
+    const settled = await Promise.allSettled(symbolList.map(loadSymbolSnapshot));
+    const snapshots: Record<string, SymbolSnapshot> = {};
+    settled.forEach((outcome, i) => {
+        if (outcome.status === "fulfilled") snapshots[symbolList[i]] = outcome.value;
+        else errors.push({ source: symbolList[i], error: (outcome.reason as Error).message || "Failed to load" });
+    });
+
+    let market: MarketData | null = null;
+    if (enabled.some(({ condition }) => condition.kind === "market")) {
+        try {
+            market = await loadMarketData();
+        } catch (err: unknown) {
+            errors.push({ source: "market", error: (err as Error).message });
+        }
+    }
+
+    // 2. Evaluate; a rule fires when its condition turns true
+    const checkedAt = new Date().toISOString();
+    const nextActive: Record<string, boolean> = {};
+    const fired: AlertEvent[] = [];
+    for (const rule of enabled) {
+        const result = evaluateCondition(rule.condition, snapshots, market);
+        if (!result) {
+            // No data this time: keep the previous state
+            if (rule.id in active) nextActive[rule.id] = active[rule.id];
+            continue;
+        }
+        nextActive[rule.id] = result.triggered;
+        if (result.triggered && !active[rule.id]) {
+            fired.push({
+                id: `${rule.id}-${Date.parse(checkedAt).toString(36)}`,
+                ruleId: rule.id,
+                ruleName: rule.name,
+                firedAt: checkedAt,
+                message: result.message,
+                value: result.value,
+                deliveries: []
+            });
+        }
+    }
+
+    // 3. Deliver to the outbound channels; failures are recorded on the event
+    const notifiers = getAlertNotifiers();
+    await Promise.all(fired.map(async (event) => {
+        const rule = enabled.find(r => r.id === event.ruleId)!;
+        event.deliveries = await deliverAlert(event, rule, notifiers);
+    }));
+
+    // 4. Save state and log; rules edited or deleted meanwhile keep their own state
+    await updateAlertStore((data) => {
+        for (const rule of data.rules) {
+            if (!rule.enabled) delete data.active[rule.id];
+            else if (rule.id in nextActive) data.active[rule.id] = nextActive[rule.id];
+        }
+        data.log = [...fired, ...data.log];
+        data.lastCheck = checkedAt;
+    });
+
+    return { checkedAt, fired, errors };
+}
+
+let running: Promise<AlertCheckResult> | null = null;
+
+/** Evaluates every enabled rule now. Overlapping calls share one run. */
+export function runAlertCheck(): Promise<AlertCheckResult> {
+    if (!running) {
+        running = checkRules().finally(() => { running = null; });
+    }
+    return running;
+}
+
+const scheduler = globalThis as typeof globalThis & { alertTimer?: ReturnType<typeof setInterval> };
+
+/** Checks the rules every `intervalMs` for the life of the server process. */
+export function startAlertScheduler(intervalMs: number) {
+    // Dev-mode reloads re-run instrumentation; keep a single timer
+    if (scheduler.alertTimer) clearInterval(scheduler.alertTimer);
+
+    scheduler.alertTimer = setInterval(() => {
+        runAlertCheck()
+            .then(({ fired, errors }) => {
+                if (fired.length > 0) console.log(`Alerts fired: ${fired.map(e => e.ruleName).join(", ")}`);
+                errors.forEach(({ source, error }) => console.warn(`Alert check could not load ${source}: ${error}`));
+            })
+            .catch(err => console.error("Alert check failed:", err));
+    }, intervalMs);
+    console.log(`Alert scheduler running every ${Math.round(intervalMs / 1000)}s`);
+}
@@ -0,0 +1,47 @@
+import type { AlertEvent, AlertNotifier, AlertRule } from "./types";
+
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+/** POSTs `{ event, rule }` as JSON; any non-2xx answer counts as a failed delivery. */
+export class WebhookNotifier implements AlertNotifier {
+    readonly name: string;
+
+    constructor(private readonly url: string) {
+        const { host, pathname } = new URL(url);
+        this.name = `webhook ${host}${pathname === "/" ? "" : pathname}`;
+    }
+
+    async send(event: AlertEvent, rule: AlertRule): Promise<void> {
+        const res = await fetch(this.url, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ event, rule }),
+            signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+        });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    }
+}
+
+let notifiers: AlertNotifier[] | null = null;
+
+/**
+ * Returns the process-wide outbound notifiers. The browser channel needs no
+ * entry here: the page polls the alert log and shows Notifications itself.
+ *
+ * ALERT_WEBHOOK_URL=<url>[,<url>...]  POST every fired alert to each URL
+ */
+export function getAlertNotifiers(): AlertNotifier[] {
+    if (notifiers) return notifiers;
+
+    notifiers = (process.env.ALERT_WEBHOOK_URL || "")
+        .split(",")
+        .map(url => url.trim())
+        .filter(Boolean)
+        .map(url => new WebhookNotifier(url));
+    return notifiers;
+}
+
+/** Replaces the configured notifiers (other channels, or stand-ins when testing). */
+export function setAlertNotifiers(next: AlertNotifier[]) {
+    notifiers = next;
+}
@@ -0,0 +1,151 @@
+// Pure rule validation and evaluation; shared by the scheduler and the alerts UI.
+
+import type { MarketData } from "@/components/MarketStatus";
+import { bollingerBands, returnDistribution } from "../analytics";
+import type { AlertCondition, AlertKind, MarketMetric } from "./types";
+
+export const ALERT_KINDS: Record<AlertKind, string> = {
+    sigmaMove: "Daily move vs σ",
+    bandCross: "Bollinger band break",
+    market: "Market gauge",
+};
+
+export const MARKET_METRIC_LABELS: Record<MarketMetric, string> = {
+    vix: "VIX",
+    fearGreed: "Fear & Greed",
+    gex: "GEX",
+    dix: "DIX",
+};
+
+// The 400 message for a malformed rule
+export class AlertRuleError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "AlertRuleError";
+    }
+}
+
+/** What a symbol rule needs: the latest move plus the adjusted 1y history. */
+export interface SymbolSnapshot {
+    symbol: string;
+    changePercent: number;
+    // Daily % changes (first bar excluded) and closes, as in lib/adjustments priceSeries
+    changes: number[];
+    closes: number[];
+}
+
+export interface ConditionResult {
+    triggered: boolean;
+    value: number;
+    message: string;
+}
+
+const finite = (value: unknown, field: string): number => {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+        throw new AlertRuleError(`${field} must be a number`);
+    }
+    return value;
+};
+
+const oneOf = <T extends string>(value: unknown, options: readonly T[], field: string): T => {
+    if (!options.includes(value as T)) {
+        throw new AlertRuleError(`${field} must be one of ${options.map(o => `"${o}"`).join(", ")}`);
+    }
+    return value as T;
+};
+
+const symbolOf = (value: unknown): string => {
+    if (typeof value !== "string" || !value.trim()) throw new AlertRuleError("symbol is required");
+    return value.trim().toUpperCase();
+};
+
+/** Validates an untrusted condition (API body) and drops unknown fields. */
+export function parseCondition(input: unknown): AlertCondition {
+    const raw = (input && typeof input === "object" ? input : {}) as Record<string, unknown>;
+    const kind = oneOf(raw.kind, Object.keys(ALERT_KINDS) as AlertKind[], "kind");
+
+    switch (kind) {
+        case "sigmaMove": {
+            const sigma = finite(raw.sigma, "sigma");
+            if (sigma <= 0) throw new AlertRuleError("sigma must be positive");
+            return { kind, symbol: symbolOf(raw.symbol), direction: oneOf(raw.direction, ["below", "above"], "direction"), sigma };
+        }
+        case "bandCross": {
+            const period = finite(raw.period ?? 20, "period");
+            const k = finite(raw.k ?? 2, "k");
+            if (!Number.isInteger(period) || period < 2) throw new AlertRuleError("period must be a whole number of at least 2");
+            if (k <= 0) throw new AlertRuleError("k must be positive");
+            return { kind, symbol: symbolOf(raw.symbol), band: oneOf(raw.band, ["lower", "upper"], "band"), period, k };
+        }
+        case "market":
+            return {
+                kind,
+                metric: oneOf(raw.metric, Object.keys(MARKET_METRIC_LABELS) as MarketMetric[], "metric"),
+                operator: oneOf(raw.operator, [">", "<"], "operator"),
+                value: finite(raw.value, "value")
+            };
+    }
+}
+
+/** Default rule name, e.g. "AAPL daily change below -2σ" or "VIX > 25". */
+export function describeCondition(condition: AlertCondition): string {
+    switch (condition.kind) {
+        case "sigmaMove":
+            return `${condition.symbol} daily change ${condition.direction} ${condition.direction === "below" ? "-" : "+"}${condition.sigma}σ`;
+        case "bandCross":
+            return `${condition.symbol} closes ${condition.band === "lower" ? "below lower" : "above upper"} Bollinger band (${condition.period}, ${condition.k})`;
+        case "market":
+            return `${MARKET_METRIC_LABELS[condition.metric]} ${condition.operator} ${condition.value}`;
+    }
+}
+
+// Latest reading of a market gauge; null when the source had nothing (the
+// route's placeholder defaults must not trigger alerts)
+function marketReading(market: MarketData, metric: MarketMetric): number | null {
+    const reading = metric === "vix" ? market.vix : market.metrics[metric];
+    return reading.provenance.status !== "default" && reading.current !== null ? reading.current : null;
+}
+
+/**
+ * Evaluates one condition against fresh data. Returns null when the data it
+ * needs is missing, so the rule keeps its previous state.
+ */
+export function evaluateCondition(condition: AlertCondition, symbols: Record<string, SymbolSnapshot>, market: MarketData | null): ConditionResult | null {
+    if (condition.kind === "market") {
+        const value = market ? marketReading(market, condition.metric) : null;
+        if (value === null) return null;
+        return {
+            triggered: condition.operator === ">" ? value > condition.value : value < condition.value,
+            value,
+            message: `${MARKET_METRIC_LABELS[condition.metric]} is ${value.toFixed(2)} (${condition.operator} ${condition.value})`
+        };
+    }
+
+    const snapshot = symbols[condition.symbol];
+    if (!snapshot) return null;
+
+    if (condition.kind === "sigmaMove") {
+        // Same distribution as the dashboard's histogram and the watchlist zones
+        const { mean, sd } = returnDistribution(snapshot.changes);
+        if (sd === 0) return null;
+        const sign = condition.direction === "below" ? -1 : 1;
+        const threshold = mean + sign * condition.sigma * sd;
+        const value = snapshot.changePercent;
+        return {
+            triggered: sign < 0 ? value <= threshold : value >= threshold,
+            value,
+            message: `${snapshot.symbol} moved ${value >= 0 ? "+" : ""}${value.toFixed(2)}% today (${sign < 0 ? "-" : "+"}${condition.sigma}σ = ${threshold.toFixed(2)}%)`
+        };
+    }
+
+    const bands = bollingerBands(snapshot.closes, condition.period, condition.k);
+    const last = bands[bands.length - 1];
+    const close = snapshot.closes[snapshot.closes.length - 1];
+    const edge = last ? last[condition.band] : null;
+    if (edge === null || close === undefined) return null;
+    return {
+        triggered: condition.band === "lower" ? close < edge : close > edge,
+        value: close,
+        message: `${snapshot.symbol} closed at ${close.toFixed(2)}, ${condition.band === "lower" ? "below" : "above"} its ${condition.band} band at ${edge.toFixed(2)}`
+    };
+}
@@ -0,0 +1,38 @@
+import fs from 'fs';
+import path from 'path';
+import type { AlertStoreData } from "./types";
+
+// Rules, the alert log and per-rule state live in one JSON file next to the
+// market data cache. ALERTS_FILE overrides the location.
+const STORE_FILE = path.resolve(process.cwd(), process.env.ALERTS_FILE || '.cache/alerts.json');
+const MAX_LOG_ENTRIES = 200;
+
+const emptyStore = (): AlertStoreData => ({ rules: [], log: [], active: {}, lastCheck: null });
+
+export async function readAlertStore(): Promise<AlertStoreData> {
+    try {
+        const raw = await fs.promises.readFile(STORE_FILE, 'utf8');
+        return { ...emptyStore(), ...JSON.parse(raw) };
+    } catch (e: unknown) {
+        if ((e as NodeJS.ErrnoException).code !== 'ENOENT') console.warn("Failed to read alert store:", e);
+        return emptyStore();
+    }
+}
+
+// Read-modify-write cycles are queued so the scheduler and the API routes
+// don't overwrite each other's changes within this process
+let pending: Promise<unknown> = Promise.resolve();
+
+/** Applies `update` to the stored data and saves the result. */
+export function updateAlertStore<T>(update: (data: AlertStoreData) => T | Promise<T>): Promise<T> {
+    const run = pending.then(async () => {
+        const data = await readAlertStore();
+        const result = await update(data);
+        data.log = data.log.slice(0, MAX_LOG_ENTRIES);
+        await fs.promises.mkdir(path.dirname(STORE_FILE), { recursive: true });
+        await fs.promises.writeFile(STORE_FILE, JSON.stringify(data, null, 2));
+        return result;
+    });
+    pending = run.catch(() => undefined);
+    return run;
+}
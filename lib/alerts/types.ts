@@ -0,0 +1,54 @@
+// Alert rules are stored server-side and checked on a schedule (see
+// lib/alerts/index.ts); each firing is appended to the alert log.
+
+export type MarketMetric = "vix" | "fearGreed" | "gex" | "dix";
+
+export type AlertCondition =
+    // Today's % change beyond `sigma` standard deviations of the 1y return distribution
+    | { kind: "sigmaMove"; symbol: string; direction: "below" | "above"; sigma: number }
+    // Close outside a Bollinger band (re-arms once it is back inside)
+    | { kind: "bandCross"; symbol: string; band: "lower" | "upper"; period: number; k: number }
+    // Market gauge from /api/market compared with a level, e.g. VIX > 25
+    | { kind: "market"; metric: MarketMetric; operator: ">" | "<"; value: number };
+
+export type AlertKind = AlertCondition["kind"];
+
+export interface AlertRule {
+    id: string;
+    name: string;
+    enabled: boolean;
+    createdAt: string;
+    condition: AlertCondition;
+}
+
+export interface AlertDelivery {
+    channel: string;
+    ok: boolean;
+    error?: string;
+}
+
+export interface AlertEvent {
+    id: string;
+    ruleId: string;
+    ruleName: string;
+    firedAt: string;
+    message: string;
+    value: number;
+    deliveries: AlertDelivery[];
+}
+
+export interface AlertStoreData {
+    rules: AlertRule[];
+    // Newest first, capped (see MAX_LOG_ENTRIES)
+    log: AlertEvent[];
+    // Whether each rule's condition held at the last check; a rule fires only
+    // when its condition turns true, not on every check while it stays true
+    active: Record<string, boolean>;
+    lastCheck: string | null;
+}
+
+/** Sends a fired alert somewhere outside the app (webhook, chat, e-mail, ...). */
+export interface AlertNotifier {
+    readonly name: string;
+    send(event: AlertEvent, rule: AlertRule): Promise<void>;
+}
@@ -0,0 +1,192 @@
+// Pure return/statistics helpers shared by the dashboard and comparison view.
+// No React or server-only imports.
+
+import { isIntraday, type BarInterval } from "./ranges";
+
+export type SigmaZone = "-2" | "-1" | "0" | "1" | "2";
+
+export const SIGMA_ZONE_LABELS: Record<SigmaZone, string> = { "-2": "≤ -2σ", "-1": "-1σ", "0": "Normal", "1": "+1σ", "2": "≥ +2σ" };
+
+export interface DistributionBin {
+    bin: number;
+    count: number;
+}
+
+export interface ReturnDistribution {
+    data: DistributionBin[];
+    mean: number;
+    sd: number;
+    count1Sigma: number;
+    count2Sigma: number;
+    totalDays: number;
+    binSize: number;
+    decimals: number;
+}
+
+export const mean = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+/** Population standard deviation (divides by n), matching the dashboard's sigma bands. */
+export function standardDeviation(values: number[]): number {
+    if (values.length === 0) return 0;
+    const m = mean(values);
+    return Math.sqrt(values.reduce((a, b) => a + Math.pow(b - m, 2), 0) / values.length);
+}
+
+// Where a backtest rule's thresholds come from: the bars before the signal bar
+// ("expanding", nothing it couldn't have known then) or the whole series
+export type ThresholdWindow = "expanding" | "fullSample";
+
+// Bars of history an expanding threshold needs before a rule may fire
+export const MIN_THRESHOLD_BARS = 20;
+
+/**
+ * Zone of a single return relative to the sample mean/sd:
+ * "-2" (<= -2sd), "-1" (-2sd < x <= -1sd), "0" (-1sd < x < 1sd), "1" (1sd <= x < 2sd), "2" (>= 2sd)
+ */
+export function sigmaZone(change: number, mean: number, sd: number): SigmaZone {
+    const diff = change - mean;
+    if (diff <= -2 * sd) return "-2";
+    if (diff <= -1 * sd) return "-1";
+    if (diff >= 2 * sd) return "2";
+    if (diff >= 1 * sd) return "1";
+    return "0";
+}
+
+/**
+ * Rolling population SD of the last `period` values ending at each index;
+ * 0 until the window is full (matches the dashboard's volatility line).
+ */
+export function rollingStdDev(values: number[], period = 20): number[] {
+    return values.map((_, index) => index >= period - 1 ? standardDeviation(values.slice(index - period + 1, index + 1)) : 0);
+}
+
+// Decimal places needed to label bins of this size exactly (0.1 -> 1, 0.05 / 0.25 -> 2)
+function binDecimals(binSize: number): number {
+    for (let decimals = 1; decimals < 6; decimals++) {
+        const scaled = binSize * Math.pow(10, decimals);
+        if (Math.abs(scaled - Math.round(scaled)) < 1e-9) return decimals;
+    }
+    return 6;
+}
+
+// Narrowest bin width callers may ask for, and the most bins one histogram builds
+export const MIN_BIN_SIZE = 0.001;
+export const MAX_HISTOGRAM_BINS = 2000;
+
+/** Histogram bin width (in %) scaled to the typical move of one bar. */
+export const distributionBinSize = (interval: BarInterval) => isIntraday(interval) ? 0.01 : interval === '1wk' ? 0.5 : 0.1;
+
+/**
+ * Histogram of % changes plus mean, sd and how many fall within ±1σ/±2σ.
+ * A bin size that would need more than MAX_HISTOGRAM_BINS bins is widened to
+ * a multiple of itself; the result's binSize is the one actually used.
+ */
+export function returnDistribution(changes: number[], binSize = 0.1): ReturnDistribution {
+    if (!(binSize > 0) || !isFinite(binSize)) throw new RangeError(`binSize must be a positive number, got ${binSize}`);
+    let decimals = binDecimals(binSize);
+    if (changes.length === 0) {
+        return { data: [], mean: 0, sd: 0, count1Sigma: 0, count2Sigma: 0, totalDays: 0, binSize, decimals };
+    }
+
+    const m = mean(changes);
+    const sd = standardDeviation(changes);
+
+    // Calculate counts within sigma ranges
+    const count1Sigma = changes.filter(c => Math.abs(c - m) <= sd).length;
+    const count2Sigma = changes.filter(c => Math.abs(c - m) <= 2 * sd).length;
+
+    // Bins are keyed by integer index so float drift can't create a "-0.00" bin
+    // next to "0.00" (values landing in the missing key used to be dropped)
+    const binKey = (index: number) => (index * binSize).toFixed(decimals);
+
+    // Range should cover both data and sigma markers
+    const low = Math.min(...changes, m - 2 * sd);
+    const high = Math.max(...changes, m + 2 * sd);
+    const needed = Math.ceil(high / binSize) - Math.floor(low / binSize) + 1;
+    if (needed > MAX_HISTOGRAM_BINS) {
+        binSize *= Math.ceil(needed / (MAX_HISTOGRAM_BINS - 2));
+        decimals = binDecimals(binSize);
+    }
+    const minIndex = Math.floor(low / binSize);
+    const maxIndex = Math.ceil(high / binSize);
+
+    const bins: { [key: string]: number } = {};
+    for (let index = minIndex; index <= maxIndex; index++) {
+        bins[binKey(index)] = 0;
+    }
+
+    changes.forEach(change => {
+        bins[binKey(Math.floor(change / binSize))]++;
+    });
+
+    const data = Object.entries(bins).map(([bin, count]) => ({
+        bin: parseFloat(bin),
+        count
+    })).sort((a, b) => a.bin - b.bin);
+
+    return { data, mean: m, sd, count1Sigma, count2Sigma, totalDays: changes.length, binSize, decimals };
+}
+
+/** Pearson correlation of two equally long samples; NaN if either is constant. */
+export function correlation(a: number[], b: number[]): number {
+    const n = Math.min(a.length, b.length);
+    if (n < 2) return NaN;
+    const ma = mean(a.slice(0, n));
+    const mb = mean(b.slice(0, n));
+    let cov = 0, va = 0, vb = 0;
+    for (let i = 0; i < n; i++) {
+        cov += (a[i] - ma) * (b[i] - mb);
+        va += Math.pow(a[i] - ma, 2);
+        vb += Math.pow(b[i] - mb, 2);
+    }
+    return va === 0 || vb === 0 ? NaN : cov / Math.sqrt(va * vb);
+}
+
+const dayKey = (date: string) => new Date(date).toISOString().split('T')[0];
+
+/**
+ * Aligns several close series on the dates they all share (different exchanges
+ * have different holidays) and returns the common dates plus aligned closes.
+ */
+export function alignCloses(series: { date: string; close: number }[][]): { dates: string[]; closes: number[][] } {
+    if (series.length === 0) return { dates: [], closes: [] };
+
+    const maps = series.map(history => new Map(history.map(day => [dayKey(day.date), day.close])));
+    const dates = Array.from(maps[0].keys())
+        .filter(date => maps.every(m => m.has(date)))
+        .sort();
+
+    return { dates, closes: maps.map(m => dates.map(date => m.get(date) as number)) };
+}
+
+/** Rebases a price series so its first value equals `base` (100 by default). */
+export const rebase = (closes: number[], base = 100) => closes.length ? closes.map(c => (c / closes[0]) * base) : [];
+
+/** Simple % returns between consecutive closes. */
+export const pctReturns = (closes: number[]) => closes.slice(1).map((c, i) => ((c - closes[i]) / closes[i]) * 100);
+
+/** Symmetric matrix of pairwise return correlations. */
+export function correlationMatrix(returns: number[][]): number[][] {
+    return returns.map((a, i) => returns.map((b, j) => i === j ? 1 : correlation(a, b)));
+}
+
+/** Simple moving average of the last `period` values; null until the window is full. */
+export function movingAverage(values: number[], period: number): (number | null)[] {
+    let sum = 0;
+    return values.map((value, index) => {
+        sum += value;
+        if (index >= period) sum -= values[index - period];
+        return index >= period - 1 ? sum / period : null;
+    });
+}
+
+/** SMA ± k population SDs of price over `period` bars; nulls until the window is full. */
+export function bollingerBands(values: number[], period = 20, k = 2): { middle: number | null; upper: number | null; lower: number | null }[] {
+    const middle = movingAverage(values, period);
+    return values.map((_, index) => {
+        const m = middle[index];
+        if (m === null) return { middle: null, upper: null, lower: null };
+        const sd = standardDeviation(values.slice(index - period + 1, index + 1));
+        return { middle: m, upper: m + k * sd, lower: m - k * sd };
+    });
+}
@@ -0,0 +1,363 @@
+// Backtest engine for the dashboard simulations. Pure and deterministic: feed it
+// a price series plus a config of entry/exit rules, sizing and costs. The two
+// original simulations are presets at the bottom of this file.
+
+import { bollingerBands, MIN_THRESHOLD_BARS, movingAverage, returnDistribution, sigmaZone, type SigmaZone, type ThresholdWindow } from "./analytics";
+import type { DividendPoint } from "./adjustments";
+import { DEFAULT_CALENDAR, localDateKey, type TradingCalendar } from "./exchanges";
+import { analyzeVolatility, type RegimeSource, type VolatilityRegime } from "./volatility";
+
+export interface BacktestSeries {
+    bars: { date: string; close: number }[];
+    changes: number[]; // % change per bar, first bar 0 (see dailyReturns)
+    dividends: DividendPoint[];
+    calendar?: TradingCalendar; // the symbol's exchange (lib/exchanges); used by calendarRule
+}
+
+/** A rule is compiled once per series into a per-bar predicate. */
+export type Rule = (series: BacktestSeries) => (index: number) => boolean;
+
+export type Sizing =
+    | { type: "shares"; shares: number }
+    | { type: "cash"; amount: number }
+    | { type: "percentEquity"; percent: number };
+
+export interface ExitConfig {
+    rules: Rule[];
+    takeProfitPercent?: number; // vs average cost
+    stopLossPercent?: number;   // vs average cost, positive number
+    fraction: number;           // share of the position sold when an exit fires (0-1]
+}
+
+export interface BacktestConfig {
+    entry: Rule[];                 // any rule firing triggers a buy
+    exit?: ExitConfig;
+    sizing: Sizing;
+    // Without a starting balance every buy is funded by a fresh contribution
+    // (the original simulations); sale proceeds and cash dividends accumulate.
+    initialCash?: number;
+    fractional?: boolean;          // allow fractional shares for cash/% sizing
+    commission?: { perTrade?: number; percent?: number };
+    slippageBps?: number;          // buys fill higher and sells lower by this much
+    dividends: "reinvest" | "cash";
+}
+
+export type TradeSide = "buy" | "sell";
+
+export interface Trade {
+    date: string;
+    side: TradeSide;
+    shares: number;
+    price: number;      // fill price after slippage
+    commission: number;
+    amount: number;     // cash paid (buy) or received (sell), commission included
+}
+
+export interface BacktestPoint {
+    date: string;
+    invested: number;
+    cash: number;
+    shares: number;
+    value: number;      // shares at the close plus cash
+}
+
+export interface BacktestResult {
+    history: BacktestPoint[];
+    trades: Trade[];
+    buyDates: Set<string>;
+    sellDates: Set<string>;
+    totalBuys: number;
+    totalSells: number;
+    totalInvested: number;
+    totalDividends: number;
+    totalCommissions: number;
+    realized: number;
+    avgPrice: number;
+    shares: number;
+    cash: number;
+    currentValue: number;
+    totalReturn: number;
+}
+
+const dayKey = (date: string) => new Date(date).toISOString().split('T')[0];
+
+// --- Rules ---
+
+/**
+ * Fires when the bar's % change lands in one of `zones` of the return
+ * distribution. By default the mean and SD come from the changes before the
+ * bar (none for the first MIN_THRESHOLD_BARS); "fullSample" uses the whole
+ * series like the dashboard's histogram, later bars included.
+ */
+export const sigmaZoneRule = (zones: SigmaZone[], window: ThresholdWindow = "expanding"): Rule => (series) => {
+    const { changes } = series;
+    if (window === "fullSample") {
+        const { mean, sd } = returnDistribution(changes.slice(1));
+        return (i) => sd > 0 && zones.includes(sigmaZone(changes[i], mean, sd));
+    }
+
+    // Running mean and population SD of changes[1..i-1]
+    const fires = changes.map(() => false);
+    let sum = 0;
+    let sumSquares = 0;
+    for (let i = 1; i < changes.length; i++) {
+        const n = i - 1;
+        if (n >= MIN_THRESHOLD_BARS) {
+            const mean = sum / n;
+            const sd = Math.sqrt(Math.max(sumSquares / n - mean * mean, 0));
+            fires[i] = sd > 0 && zones.includes(sigmaZone(changes[i], mean, sd));
+        }
+        sum += changes[i];
+        sumSquares += changes[i] * changes[i];
+    }
+    return (i) => fires[i];
+};
+
+/** Fires when the close is at or beyond the lower/upper Bollinger band. */
+export const bollingerTouchRule = (band: "lower" | "upper", period = 20, k = 2): Rule => (series) => {
+    const closes = series.bars.map(b => b.close);
+    const bands = bollingerBands(closes, period, k);
+    return (i) => {
+        const level = bands[i][band];
+        if (level === null) return false;
+        return band === "lower" ? closes[i] <= level : closes[i] >= level;
+    };
+};
+
+/** Fires on the bar where the fast SMA crosses above (golden) or below (death) the slow SMA. */
+export const smaCrossRule = (fast: number, slow: number, direction: "above" | "below"): Rule => (series) => {
+    const closes = series.bars.map(b => b.close);
+    const f = movingAverage(closes, fast);
+    const s = movingAverage(closes, slow);
+    return (i) => {
+        if (i === 0 || f[i] === null || s[i] === null || f[i - 1] === null || s[i - 1] === null) return false;
+        const before = (f[i - 1] as number) - (s[i - 1] as number);
+        const now = (f[i] as number) - (s[i] as number);
+        return direction === "above" ? before <= 0 && now > 0 : before >= 0 && now < 0;
+    };
+};
+
+/**
+ * Fires on the first trading day of each calendar month or ISO week, in the
+ * series' exchange calendar (dates in its time zone, holiday bars skipped).
+ */
+export const calendarRule = (period: "month" | "week"): Rule => (series) => {
+    const calendar = series.calendar || DEFAULT_CALENDAR;
+    let previous: string | null = null;
+    const fires = series.bars.map((bar) => {
+        const date = localDateKey(bar.date, calendar.timeZone);
+        if (!calendar.isTradingDay(date)) return false;
+
+        const d = new Date(`${date}T00:00:00Z`);
+        const key = period === "month"
+            ? date.slice(0, 7)
+            // Monday of the bar's week
+            : new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() - ((d.getUTCDay() + 6) % 7))).toISOString().split('T')[0];
+        const first = key !== previous;
+        previous = key;
+        return first;
+    });
+    return (i) => fires[i];
+};
+
+/** Fires on the first bar only. */
+export const firstBarRule = (): Rule => () => (i) => i === 0;
+
+/**
+ * Fires while the bar's volatility regime (lib/volatility) is one of
+ * `regimes`. Like sigmaZoneRule, the thresholds use only the bars up to the
+ * signal bar unless `window` is "fullSample". EWMA is the default source
+ * because it is causal bar by bar; GARCH parameters are fitted on the whole series.
+ */
+export const regimeRule = (regimes: VolatilityRegime[], source: RegimeSource = "ewma", window: ThresholdWindow = "expanding"): Rule => (series) => {
+    const labels = analyzeVolatility(series.changes, { source, thresholds: window }).regimes;
+    return (i) => {
+        const regime = labels[i];
+        return regime !== null && regimes.includes(regime);
+    };
+};
+
+/** Fires when every rule fires on the bar, e.g. a signal that only counts in some regimes. */
+export const allRules = (...rules: Rule[]): Rule => (series) => {
+    const compiled = rules.map(rule => rule(series));
+    return (i) => compiled.every(fires => fires(i));
+};
+
+// --- Engine ---
+
+function validate(config: BacktestConfig) {
+    if (config.sizing.type === "percentEquity" && !config.initialCash) {
+        throw new Error("Percent-of-equity sizing needs a starting cash balance");
+    }
+    if (config.exit && !(config.exit.fraction > 0 && config.exit.fraction <= 1)) {
+        throw new Error("Exit fraction must be between 0 and 1");
+    }
+}
+
+const commissionFor = (config: BacktestConfig, notional: number) =>
+    notional > 0 ? (config.commission?.perTrade || 0) + notional * (config.commission?.percent || 0) / 100 : 0;
+
+/**
+ * Runs `config` over `series` bar by bar. Orders fill at the signal bar's
+ * close (plus slippage); dividends are paid once per ex-date, before signals.
+ * `currentPrice` marks the final position (defaults to the last close).
+ */
+export function runBacktest(series: BacktestSeries, config: BacktestConfig, currentPrice?: number): BacktestResult {
+    validate(config);
+
+    const entries = config.entry.map(rule => rule(series));
+    const exits = (config.exit?.rules || []).map(rule => rule(series));
+    const slip = (config.slippageBps || 0) / 10000;
+    const fundedByContributions = config.initialCash === undefined;
+
+    let cash = config.initialCash || 0;
+    let invested = config.initialCash || 0;
+    let shares = 0;
+    let costBasis = 0; // of shares currently held
+    let realized = 0;
+    let totalDividends = 0;
+    let totalCommissions = 0;
+    let sharesBought = 0;
+    let buyCost = 0;
+
+    const trades: Trade[] = [];
+    const buyDates = new Set<string>();
+    const sellDates = new Set<string>();
+
+    const dividendMap = new Map<string, number>();
+    series.dividends.forEach(d => dividendMap.set(dayKey(d.date), (dividendMap.get(dayKey(d.date)) || 0) + d.amount));
+
+    const buy = (date: string, close: number) => {
+        const price = close * (1 + slip);
+        const equity = cash + shares * close;
+        let qty: number;
+        switch (config.sizing.type) {
+            case "shares": qty = config.sizing.shares; break;
+            case "cash": qty = config.sizing.amount / price; break;
+            case "percentEquity": qty = (equity * config.sizing.percent / 100) / price; break;
+        }
+        if (config.sizing.type !== "shares" && !config.fractional) qty = Math.floor(qty);
+
+        // With a fixed balance, scale down to what the cash covers
+        if (!fundedByContributions) {
+            const affordable = Math.max(0, cash - commissionFor(config, qty * price)) / price;
+            if (qty > affordable) qty = config.fractional ? affordable : Math.floor(affordable);
+        }
+        if (qty <= 0) return;
+
+        const commission = commissionFor(config, qty * price);
+        const amount = qty * price + commission;
+        if (fundedByContributions) invested += amount;
+        else cash -= amount;
+
+        shares += qty;
+        costBasis += amount;
+        sharesBought += qty;
+        buyCost += qty * price;
+        totalCommissions += commission;
+        trades.push({ date, side: "buy", shares: qty, price, commission, amount });
+        buyDates.add(date);
+    };
+
+    const sell = (date: string, close: number, fraction: number) => {
+        const qty = fraction >= 1 ? shares : (config.fractional ? shares * fraction : Math.floor(shares * fraction));
+        if (qty <= 0) return;
+
+        const price = close * (1 - slip);
+        const commission = commissionFor(config, qty * price);
+        const amount = qty * price - commission;
+        const soldCost = costBasis * (qty / shares);
+
+        cash += amount;
+        realized += amount - soldCost;
+        costBasis -= soldCost;
+        shares -= qty;
+        totalCommissions += commission;
+        trades.push({ date, side: "sell", shares: qty, price, commission, amount });
+        sellDates.add(date);
+    };
+
+    const history = series.bars.map((bar, i) => {
+        // 1. Dividends on the ex-date (once per day, even with intraday bars)
+        const dateStr = dayKey(bar.date);
+        const dividend = dividendMap.get(dateStr);
+        if (dividend !== undefined) {
+            dividendMap.delete(dateStr);
+            const payout = shares * dividend;
+            if (payout > 0) {
+                totalDividends += payout;
+                if (config.dividends === "reinvest") {
+                    // Reinvested at the close without costs, like a DRIP
+                    shares += payout / bar.close;
+                    costBasis += payout;
+                } else {
+                    cash += payout;
+                }
+            }
+        }
+
+        // 2. Exits before entries so a bar can't buy and immediately sell
+        if (config.exit && shares > 0) {
+            const avgCost = costBasis / shares;
+            const change = ((bar.close - avgCost) / avgCost) * 100;
+            const hitTarget = config.exit.takeProfitPercent !== undefined && change >= config.exit.takeProfitPercent;
+            const hitStop = config.exit.stopLossPercent !== undefined && change <= -config.exit.stopLossPercent;
+            if (hitTarget || hitStop || exits.some(fires => fires(i))) {
+                sell(bar.date, bar.close, config.exit.fraction);
+            }
+        }
+
+        // 3. Entries
+        if (entries.some(fires => fires(i))) {
+            buy(bar.date, bar.close);
+        }
+
+        return { date: bar.date, invested, cash, shares, value: shares * bar.close + cash };
+    });
+
+    const finalPrice = currentPrice ?? series.bars[series.bars.length - 1]?.close ?? 0;
+    const currentValue = shares * finalPrice + cash;
+
+    return {
+        history,
+        trades,
+        buyDates,
+        sellDates,
+        totalBuys: trades.filter(t => t.side === "buy").length,
+        totalSells: trades.filter(t => t.side === "sell").length,
+        totalInvested: invested,
+        totalDividends,
+        totalCommissions,
+        realized,
+        avgPrice: sharesBought > 0 ? buyCost / sharesBought : 0,
+        shares,
+        cash,
+        currentValue,
+        totalReturn: invested > 0 ? ((currentValue - invested) / invested) * 100 : 0
+    };
+}
+
+// --- Presets (the dashboard's original simulations) ---
+
+/** Buy 1 share whenever the bar's change is in one of `zones` of the returns before it; no fees, no sells. */
+export const volatilityPreset = (zones: SigmaZone[], dividends: "reinvest" | "cash" = "reinvest"): BacktestConfig => ({
+    entry: [sigmaZoneRule(zones)],
+    sizing: { type: "shares", shares: 1 },
+    dividends
+});
+
+/** Buy 1 share on the first trading day of each month and reinvest dividends. */
+export const monthlyDcaPreset = (): BacktestConfig => ({
+    entry: [calendarRule("month")],
+    sizing: { type: "shares", shares: 1 },
+    dividends: "reinvest"
+});
+
+/** Benchmark: everything into the symbol on the first bar, dividends reinvested. */
+export const buyAndHoldPreset = (initialCash = 10000): BacktestConfig => ({
+    entry: [firstBarRule()],
+    sizing: { type: "percentEquity", percent: 100 },
+    initialCash,
+    fractional: true,
+    dividends: "reinvest"
+});
@@ -0,0 +1,40 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { deserializeEntry, serializeEntry } from "./serialize";
+import type { CacheBackend, CacheEntry } from "./types";
+
+/** One JSON file per key; survives restarts and is shared by processes on the same disk. */
+export class FileCache implements CacheBackend {
+    readonly name = "file";
+
+    constructor(private readonly dir: string) { }
+
+    private file(key: string) {
+        return path.join(this.dir, `${createHash('sha1').update(key).digest('hex')}.json`);
+    }
+
+    async get<T>(key: string): Promise<CacheEntry<T> | null> {
+        try {
+            const { expiresAt, entry } = deserializeEntry<{ expiresAt: number; entry: CacheEntry<T> }>(await fs.readFile(this.file(key), 'utf8'));
+            if (expiresAt > Date.now()) return entry;
+            await this.delete(key);
+        } catch (e: unknown) {
+            if ((e as NodeJS.ErrnoException).code !== 'ENOENT') console.warn(`Ignoring unreadable cache entry for "${key}":`, e);
+        }
+        return null;
+    }
+
+    async set<T>(key: string, entry: CacheEntry<T>, ttlMs: number): Promise<void> {
+        // Write then rename so readers never see a half-written file
+        const file = this.file(key);
+        const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+        await fs.mkdir(this.dir, { recursive: true });
+        await fs.writeFile(tmp, serializeEntry({ key, expiresAt: Date.now() + ttlMs, entry }));
+        await fs.rename(tmp, file);
+    }
+
+    async delete(key: string): Promise<void> {
+        await fs.rm(this.file(key), { force: true });
+    }
+}
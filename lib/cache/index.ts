@@ -0,0 +1,127 @@
+import path from 'path';
+import { FileCache } from "./filesystem";
+import { MemoryCache } from "./memory";
+import { RedisCache } from "./redis";
+import type { CacheBackend } from "./types";
+
+export type * from "./types";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export type CacheType = "quote" | "history" | "events" | "search" | "fundamentals" | "sentiment";
+
+/**
+ * Per data type: `fresh` entries are served as is; up to `fresh + revalidate`
+ * they are still served but refreshed in the background (stale-while-revalidate);
+ * older entries up to `maxStale` are only used when the upstream call fails.
+ */
+export const CACHE_TTLS: Record<CacheType, { fresh: number; revalidate: number; maxStale: number }> = {
+    quote: { fresh: 1 * MINUTE, revalidate: 5 * MINUTE, maxStale: 1 * DAY },
+    history: { fresh: 10 * MINUTE, revalidate: 1 * HOUR, maxStale: 7 * DAY },
+    events: { fresh: 12 * HOUR, revalidate: 1 * DAY, maxStale: 30 * DAY }, // dividends, splits
+    search: { fresh: 7 * DAY, revalidate: 30 * DAY, maxStale: 90 * DAY },
+    fundamentals: { fresh: 1 * DAY, revalidate: 7 * DAY, maxStale: 30 * DAY }, // Gemini P/E, yield
+    sentiment: { fresh: 12 * HOUR, revalidate: 1 * DAY, maxStale: 30 * DAY }, // GEX, DIX, Fear & Greed
+};
+
+// live: loaded now; cached: served from the cache; stale: expired entry served because the load failed
+export type CacheStatus = "live" | "cached" | "stale";
+
+export interface CacheResult<T> {
+    value: T;
+    status: CacheStatus;
+    storedAt: number;
+}
+
+let backend: CacheBackend | null = null;
+
+/**
+ * Returns the process-wide cache backend.
+ *
+ * CACHE_BACKEND=memory (default) | file | redis
+ * CACHE_DIR=<dir>            directory for the file backend (default .cache/upstream)
+ * CACHE_MAX_ENTRIES=<n>      LRU size for the memory backend (default 500)
+ * REDIS_URL=redis://...      server for the redis backend (default redis://127.0.0.1:6379)
+ */
+export function getCache(): CacheBackend {
+    if (backend) return backend;
+
+    const kind = (process.env.CACHE_BACKEND || "memory").toLowerCase();
+    switch (kind) {
+        case "memory":
+            backend = new MemoryCache(Number(process.env.CACHE_MAX_ENTRIES) || undefined);
+            break;
+        case "file":
+            backend = new FileCache(path.resolve(process.cwd(), process.env.CACHE_DIR || '.cache/upstream'));
+            break;
+        case "redis":
+            backend = new RedisCache(process.env.REDIS_URL || "redis://127.0.0.1:6379");
+            break;
+        default:
+            throw new Error(`Unknown CACHE_BACKEND "${kind}" (expected "memory", "file" or "redis")`);
+    }
+    return backend;
+}
+
+// Loads in flight per key, shared by concurrent callers and background refreshes
+const inFlight = new Map<string, Promise<CacheResult<unknown>>>();
+
+function load<T>(type: CacheType, key: string, loader: () => Promise<T>): Promise<CacheResult<T>> {
+    const pending = inFlight.get(key);
+    if (pending) return pending as Promise<CacheResult<T>>;
+
+    const run = (async () => {
+        const value = await loader();
+        const storedAt = Date.now();
+        const { fresh, revalidate, maxStale } = CACHE_TTLS[type];
+        try {
+            await getCache().set(key, { value, storedAt }, Math.max(fresh + revalidate, maxStale));
+        } catch (err: unknown) {
+            console.warn(`Cache write failed for "${key}":`, (err as Error).message);
+        }
+        return { value, status: "live" as const, storedAt };
+    })().finally(() => inFlight.delete(key));
+
+    inFlight.set(key, run);
+    return run;
+}
+
+/**
+ * Returns the cached value for `key`, calling `loader` when there is none.
+ * A cache backend that is down only costs the cache: the loader still runs.
+ */
+export async function cachedFetch<T>(type: CacheType, key: string, loader: () => Promise<T>): Promise<CacheResult<T>> {
+    const fullKey = `${type}:${key}`;
+    const { fresh, revalidate } = CACHE_TTLS[type];
+
+    let entry = null;
+    try {
+        entry = await getCache().get<T>(fullKey);
+    } catch (err: unknown) {
+        console.warn(`Cache read failed for "${fullKey}":`, (err as Error).message);
+    }
+
+    const age = entry ? Date.now() - entry.storedAt : Infinity;
+    if (entry && age <= fresh) {
+        return { value: entry.value, status: "cached", storedAt: entry.storedAt };
+    }
+    if (entry && age <= fresh + revalidate) {
+        load(type, fullKey, loader).catch(err => console.warn(`Background refresh failed for "${fullKey}":`, (err as Error).message));
+        return { value: entry.value, status: "cached", storedAt: entry.storedAt };
+    }
+
+    try {
+        return await load(type, fullKey, loader);
+    } catch (err: unknown) {
+        if (!entry) throw err;
+        console.warn(`Serving stale "${fullKey}" after upstream failure:`, (err as Error).message);
+        return { value: entry.value, status: "stale", storedAt: entry.storedAt };
+    }
+}
+
+/** cachedFetch without the cache status. */
+export async function cached<T>(type: CacheType, key: string, loader: () => Promise<T>): Promise<T> {
+    return (await cachedFetch(type, key, loader)).value;
+}
@@ -0,0 +1,32 @@
+import type { CacheBackend, CacheEntry } from "./types";
+
+/** In-process LRU. Values are cloned in and out so callers can't mutate cached data. */
+export class MemoryCache implements CacheBackend {
+    readonly name = "memory";
+    // Map iteration order doubles as recency order (oldest first)
+    private entries = new Map<string, { entry: CacheEntry; expiresAt: number }>();
+
+    constructor(private readonly maxEntries = 500) { }
+
+    async get<T>(key: string): Promise<CacheEntry<T> | null> {
+        const slot = this.entries.get(key);
+        if (!slot) return null;
+        this.entries.delete(key);
+        if (slot.expiresAt <= Date.now()) return null;
+
+        this.entries.set(key, slot);
+        return structuredClone(slot.entry) as CacheEntry<T>;
+    }
+
+    async set<T>(key: string, entry: CacheEntry<T>, ttlMs: number): Promise<void> {
+        this.entries.delete(key);
+        this.entries.set(key, { entry: structuredClone(entry), expiresAt: Date.now() + ttlMs });
+        while (this.entries.size > this.maxEntries) {
+            this.entries.delete(this.entries.keys().next().value as string);
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+}
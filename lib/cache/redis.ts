@@ -0,0 +1,139 @@
+import net from 'net';
+import { deserializeEntry, serializeEntry } from "./serialize";
+import type { CacheBackend, CacheEntry } from "./types";
+
+type Reply = string | number | null | Reply[];
+
+const CONNECT_TIMEOUT_MS = 5 * 1000;
+
+const encode = (args: string[]) =>
+    `*${args.length}\r\n${args.map(a => `$${Buffer.byteLength(a)}\r\n${a}\r\n`).join("")}`;
+
+/**
+ * Parses one RESP reply starting at `offset`; null when the buffer doesn't
+ * hold a complete reply yet. Error replies are returned as Error objects.
+ */
+function parseReply(buf: Buffer, offset: number): { reply: Reply | Error; next: number } | null {
+    const lineEnd = buf.indexOf("\r\n", offset);
+    if (lineEnd === -1) return null;
+    const type = String.fromCharCode(buf[offset]);
+    const line = buf.toString('utf8', offset + 1, lineEnd);
+    const next = lineEnd + 2;
+
+    switch (type) {
+        case '+': return { reply: line, next };
+        case '-': return { reply: new Error(line), next };
+        case ':': return { reply: Number(line), next };
+        case '$': {
+            const length = Number(line);
+            if (length === -1) return { reply: null, next };
+            if (buf.length < next + length + 2) return null;
+            return { reply: buf.toString('utf8', next, next + length), next: next + length + 2 };
+        }
+        case '*': {
+            const count = Number(line);
+            if (count === -1) return { reply: null, next };
+            const items: Reply[] = [];
+            let cursor = next;
+            for (let i = 0; i < count; i++) {
+                const item = parseReply(buf, cursor);
+                if (!item) return null;
+                if (item.reply instanceof Error) return item;
+                items.push(item.reply);
+                cursor = item.next;
+            }
+            return { reply: items, next: cursor };
+        }
+        default:
+            throw new Error(`Unexpected RESP reply type "${type}"`);
+    }
+}
+
+/**
+ * Minimal Redis client (GET / SET PX / DEL over RESP) so any Redis-compatible
+ * server works: Redis, Valkey, KeyDB, or a local stand-in in tests.
+ * REDIS_URL=redis://[:password@]host:port[/db]
+ */
+export class RedisCache implements CacheBackend {
+    readonly name = "redis";
+    private socket: net.Socket | null = null;
+    private ready: Promise<void> | null = null;
+    private buffer = Buffer.alloc(0);
+    private waiting: { resolve: (reply: Reply) => void; reject: (err: Error) => void }[] = [];
+
+    constructor(private readonly url: string, private readonly prefix = "stock-cache:") { }
+
+    private connect(): Promise<void> {
+        if (this.ready) return this.ready;
+
+        const { hostname, port, password, pathname } = new URL(this.url);
+        const socket = net.createConnection({ host: hostname || "127.0.0.1", port: Number(port) || 6379 });
+        socket.setTimeout(CONNECT_TIMEOUT_MS);
+        this.socket = socket;
+
+        socket.on('data', (chunk) => {
+            this.buffer = Buffer.concat([this.buffer, chunk]);
+            let parsed;
+            while (this.waiting.length > 0 && (parsed = parseReply(this.buffer, 0))) {
+                this.buffer = this.buffer.subarray(parsed.next);
+                const pending = this.waiting.shift()!;
+                if (parsed.reply instanceof Error) pending.reject(parsed.reply);
+                else pending.resolve(parsed.reply);
+            }
+        });
+        const fail = (err: Error) => {
+            socket.destroy();
+            if (this.socket !== socket) return; // already replaced by a newer connection
+            this.waiting.splice(0).forEach(w => w.reject(err));
+            this.socket = null;
+            this.ready = null;
+            this.buffer = Buffer.alloc(0);
+        };
+        socket.on('error', fail);
+        socket.on('timeout', () => fail(new Error("Redis connection timed out")));
+        socket.on('close', () => fail(new Error("Redis connection closed")));
+
+        this.ready = new Promise<void>((resolve, reject) => {
+            socket.once('connect', async () => {
+                socket.setTimeout(0);
+                try {
+                    if (password) await this.send(["AUTH", decodeURIComponent(password)]);
+                    const db = pathname.replace(/^\//, "");
+                    if (db) await this.send(["SELECT", db]);
+                    resolve();
+                } catch (err: unknown) {
+                    reject(err);
+                }
+            });
+            socket.once('error', reject);
+        });
+        return this.ready;
+    }
+
+    // Writes one command; replies arrive in order, so a FIFO of callbacks is enough
+    private send(args: string[]): Promise<Reply> {
+        return new Promise((resolve, reject) => {
+            if (!this.socket) return reject(new Error("Redis is not connected"));
+            this.waiting.push({ resolve, reject });
+            this.socket.write(encode(args));
+        });
+    }
+
+    private async command(args: string[]): Promise<Reply> {
+        await this.connect();
+        return this.send(args);
+    }
+
+    async get<T>(key: string): Promise<CacheEntry<T> | null> {
+        const reply = await this.command(["GET", this.prefix + key]);
+        return typeof reply === "string" ? deserializeEntry<CacheEntry<T>>(reply) : null;
+    }
+
+    async set<T>(key: string, entry: CacheEntry<T>, ttlMs: number): Promise<void> {
+        await this.command(["SET", this.prefix + key, serializeEntry(entry), "PX", String(Math.max(1, Math.round(ttlMs)))]);
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.command(["DEL", this.prefix + key]);
+    }
+}
@@ -0,0 +1,15 @@
+// JSON that keeps Date objects (provider bars and events carry Dates), for
+// backends that store strings.
+
+export function serializeEntry(value: unknown): string {
+    return JSON.stringify(value, function (this: Record<string, unknown>, key, val) {
+        const raw = this[key];
+        return raw instanceof Date ? { $date: raw.toISOString() } : val;
+    });
+}
+
+export function deserializeEntry<T>(text: string): T {
+    return JSON.parse(text, (_key, val) =>
+        val && typeof val === "object" && typeof val.$date === "string" && Object.keys(val).length === 1 ? new Date(val.$date) : val
+    );
+}
@@ -0,0 +1,16 @@
+// Shared cache for upstream calls (market data provider, Gemini, sentiment
+// publishers). Backends only store entries; freshness, stale-while-revalidate
+// and request coalescing live in lib/cache/index.ts.
+
+export interface CacheEntry<T = unknown> {
+    value: T;
+    storedAt: number; // epoch ms
+}
+
+export interface CacheBackend {
+    readonly name: string;
+    get<T>(key: string): Promise<CacheEntry<T> | null>;
+    // The backend may drop the entry after `ttlMs`
+    set<T>(key: string, entry: CacheEntry<T>, ttlMs: number): Promise<void>;
+    delete(key: string): Promise<void>;
+}
@@ -0,0 +1,64 @@
+// The dashboard's shareable state as URL query parameters, e.g.
+// /?symbol=005930.KS&range=5y&zones=-2,-1&compare=AAPL,SPY
+// Custom ranges add start/end. Unknown or malformed values fall back to the defaults.
+
+import type { SigmaZone } from "./analytics";
+import { RANGE_PRESETS, type CustomRange } from "./ranges";
+
+export interface DashboardUrlState {
+    symbol: string | null;
+    range: string; // a RANGE_PRESETS entry or "custom"
+    customRange: CustomRange;
+    zones: SigmaZone[]; // buy zones of the volatility simulation
+    compare: string[];
+}
+
+export const DEFAULT_RANGE = "1y";
+export const DEFAULT_ZONES: SigmaZone[] = ["-2", "-1"];
+
+const ZONES: readonly SigmaZone[] = ["-2", "-1", "0", "1", "2"];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const list = (value: string | null) => (value ? value.split(",").map(s => s.trim()).filter(Boolean) : []);
+
+export function readDashboardUrl(search: string): DashboardUrlState {
+    const params = new URLSearchParams(search);
+
+    const start = params.get("start") ?? "";
+    const end = params.get("end") ?? "";
+    const customRange = { start: ISO_DATE.test(start) ? start : "", end: ISO_DATE.test(end) ? end : "" };
+
+    let range = params.get("range")?.toLowerCase() ?? DEFAULT_RANGE;
+    if (range === "custom" ? !customRange.start || !customRange.end : !(RANGE_PRESETS as readonly string[]).includes(range)) {
+        range = DEFAULT_RANGE;
+    }
+
+    // "zones=" (present but empty) means no buy zones; a missing parameter means the defaults
+    const zones = params.has("zones")
+        ? ZONES.filter(zone => list(params.get("zones")).includes(zone))
+        : DEFAULT_ZONES;
+
+    return {
+        symbol: params.get("symbol")?.trim() || null,
+        range,
+        customRange,
+        zones,
+        compare: Array.from(new Set(list(params.get("compare"))))
+    };
+}
+
+/** Query string ("?symbol=...") for the state; defaults are left out to keep links short. */
+export function dashboardSearch(state: DashboardUrlState): string {
+    if (!state.symbol) return "";
+    const params = new URLSearchParams({ symbol: state.symbol });
+    if (state.range !== DEFAULT_RANGE) params.set("range", state.range);
+    if (state.range === "custom") {
+        params.set("start", state.customRange.start);
+        params.set("end", state.customRange.end);
+    }
+    const zones = ZONES.filter(zone => state.zones.includes(zone));
+    if (zones.join(",") !== DEFAULT_ZONES.join(",")) params.set("zones", zones.join(","));
+    if (state.compare.length > 0) params.set("compare", state.compare.join(","));
+    // URLSearchParams escapes commas; they are safe in a query and easier to read unescaped
+    return `?${params.toString().replace(/%2C/g, ",")}`;
+}
@@ -0,0 +1,276 @@
+// Shape of the return distribution beyond mean and SD: higher moments, a
+// normality test, fitted normal and Student-t models, tail risk (VaR / CVaR)
+// and histogram bin widths. Pure, like lib/analytics; returns are in %.
+
+import { distributionBinSize, mean, MIN_BIN_SIZE, standardDeviation } from "./analytics";
+import type { BarInterval } from "./ranges";
+
+export type ReturnKind = "simple" | "log";
+
+// "auto" is the interval's default width, "fd" the Freedman-Diaconis rule, a number a fixed width in %
+export type BinWidthRule = "auto" | "fd" | number;
+
+export const VAR_CONFIDENCES = [0.95, 0.99] as const;
+
+export interface StudentTFit {
+    df: number;       // degrees of freedom; lower means fatter tails
+    location: number;
+    scale: number;
+}
+
+export interface TailEstimate {
+    var: number;  // loss (positive %) not exceeded with the given confidence
+    cvar: number; // mean loss beyond the VaR (expected shortfall)
+}
+
+export interface TailRisk {
+    confidence: number;
+    historical: TailEstimate;
+    normal: TailEstimate;
+    studentT: TailEstimate | null;
+}
+
+export interface DistributionAnalysis {
+    count: number;
+    mean: number;
+    sd: number;
+    skewness: number;
+    excessKurtosis: number; // 0 for a normal distribution
+    jarqueBera: { statistic: number; pValue: number };
+    studentT: StudentTFit | null;
+    tailRisk: TailRisk[];
+}
+
+/** % simple returns as % log returns: 100 · ln(1 + r / 100). */
+export const toLogReturns = (changes: number[]) => changes.map(c => Math.log(1 + c / 100) * 100);
+
+/** Linearly interpolated quantile of ascending `sorted` values (p in [0, 1]). */
+export function quantile(sorted: number[], p: number): number {
+    if (sorted.length === 0) return NaN;
+    const at = (sorted.length - 1) * p;
+    const lo = Math.floor(at);
+    const hi = Math.min(lo + 1, sorted.length - 1);
+    return sorted[lo] + (sorted[hi] - sorted[lo]) * (at - lo);
+}
+
+// Smallest 1 / 2 / 2.5 / 5 × 10^k at or above `width`, so bin labels stay readable
+function niceWidth(width: number): number {
+    const magnitude = Math.pow(10, Math.floor(Math.log10(width)));
+    const step = [1, 2, 2.5, 5, 10].find(s => s * magnitude >= width * (1 - 1e-9)) ?? 10;
+    return parseFloat((step * magnitude).toPrecision(2));
+}
+
+/** Freedman-Diaconis width 2 · IQR / n^(1/3), rounded up to a readable step; null without spread. */
+export function freedmanDiaconisWidth(values: number[]): number | null {
+    if (values.length < 2) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const iqr = quantile(sorted, 0.75) - quantile(sorted, 0.25);
+    return iqr > 0 ? Math.max(niceWidth((2 * iqr) / Math.cbrt(values.length)), MIN_BIN_SIZE) : null;
+}
+
+/** Histogram bin width in % for a rule; Freedman-Diaconis falls back to the interval default. */
+export function resolveBinWidth(rule: BinWidthRule, values: number[], interval: BarInterval): number {
+    if (typeof rule === "number") return rule;
+    if (rule === "fd") return freedmanDiaconisWidth(values) ?? distributionBinSize(interval);
+    return distributionBinSize(interval);
+}
+
+// --- special functions ---
+
+// Lanczos approximation (g = 7, n = 9)
+const LANCZOS = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7
+];
+
+function logGamma(x: number): number {
+    if (x < 0.5) return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+    const z = x - 1;
+    let sum = LANCZOS[0];
+    for (let i = 1; i < LANCZOS.length; i++) sum += LANCZOS[i] / (z + i);
+    const t = z + 7.5;
+    return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+// Continued fraction of the regularized incomplete beta function (Numerical Recipes' betacf)
+function betaContinuedFraction(a: number, b: number, x: number): number {
+    const tiny = 1e-300;
+    let c = 1;
+    let d = 1 - ((a + b) * x) / (a + 1);
+    if (Math.abs(d) < tiny) d = tiny;
+    d = 1 / d;
+    let h = d;
+    for (let m = 1; m <= 200; m++) {
+        const m2 = 2 * m;
+        let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+        d = 1 + aa * d;
+        if (Math.abs(d) < tiny) d = tiny;
+        c = 1 + aa / c;
+        if (Math.abs(c) < tiny) c = tiny;
+        d = 1 / d;
+        h *= d * c;
+        aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+        d = 1 + aa * d;
+        if (Math.abs(d) < tiny) d = tiny;
+        c = 1 + aa / c;
+        if (Math.abs(c) < tiny) c = tiny;
+        d = 1 / d;
+        const delta = d * c;
+        h *= delta;
+        if (Math.abs(delta - 1) < 1e-12) break;
+    }
+    return h;
+}
+
+function incompleteBeta(a: number, b: number, x: number): number {
+    if (x <= 0) return 0;
+    if (x >= 1) return 1;
+    const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+    return x < (a + 1) / (a + b + 2)
+        ? (front * betaContinuedFraction(a, b, x)) / a
+        : 1 - (front * betaContinuedFraction(b, a, 1 - x)) / b;
+}
+
+export const normalPdf = (x: number, mu = 0, sigma = 1) =>
+    Math.exp(-0.5 * Math.pow((x - mu) / sigma, 2)) / (sigma * Math.sqrt(2 * Math.PI));
+
+/** Inverse standard normal CDF (Acklam's rational approximation, ~1e-9 relative error). */
+export function normalQuantile(p: number): number {
+    const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+    const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+    const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+    const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+    const low = 0.02425;
+    if (p < low) {
+        const q = Math.sqrt(-2 * Math.log(p));
+        return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    }
+    if (p > 1 - low) return -normalQuantile(1 - p);
+    const q = p - 0.5;
+    const r = q * q;
+    return ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+export function studentTPdf(x: number, { df, location, scale }: StudentTFit): number {
+    const z = (x - location) / scale;
+    return Math.exp(logGamma((df + 1) / 2) - logGamma(df / 2) - 0.5 * Math.log(df * Math.PI) - Math.log(scale) - ((df + 1) / 2) * Math.log(1 + (z * z) / df));
+}
+
+// Standard t CDF
+function studentTCdf(t: number, df: number): number {
+    const tail = 0.5 * incompleteBeta(df / 2, 0.5, df / (df + t * t));
+    return t > 0 ? 1 - tail : tail;
+}
+
+// Standard t quantile by bisection; the CDF is monotonic and cheap enough
+function studentTQuantile(p: number, df: number): number {
+    let lo = -1e4;
+    let hi = 1e4;
+    for (let i = 0; i < 200 && hi - lo > 1e-10; i++) {
+        const mid = (lo + hi) / 2;
+        if (studentTCdf(mid, df) < p) lo = mid;
+        else hi = mid;
+    }
+    return (lo + hi) / 2;
+}
+
+// --- fits ---
+
+// Candidate degrees of freedom; location and scale are fitted for each by EM
+const T_DF_GRID = [2.2, 2.5, 3, 3.5, 4, 4.5, 5, 6, 7, 8, 10, 12, 15, 20, 30, 50, 100];
+
+/**
+ * Maximum-likelihood Student-t fit: for each candidate df, location and scale
+ * come from the EM iteration for the t (weights (ν + 1) / (ν + z²)); the df
+ * with the highest likelihood wins. Null for fewer than 10 values or no spread.
+ */
+export function fitStudentT(values: number[]): StudentTFit | null {
+    const sd = standardDeviation(values);
+    if (values.length < 10 || sd === 0) return null;
+
+    let best: (StudentTFit & { logLikelihood: number }) | null = null;
+    T_DF_GRID.forEach((df) => {
+        let location = mean(values);
+        let scale = sd;
+        for (let iteration = 0; iteration < 100; iteration++) {
+            const weights = values.map(x => (df + 1) / (df + Math.pow((x - location) / scale, 2)));
+            const weightSum = weights.reduce((a, b) => a + b, 0);
+            const nextLocation = values.reduce((sum, x, i) => sum + weights[i] * x, 0) / weightSum;
+            const nextScale = Math.sqrt(values.reduce((sum, x, i) => sum + weights[i] * Math.pow(x - nextLocation, 2), 0) / values.length);
+            const converged = Math.abs(nextLocation - location) < 1e-9 && Math.abs(nextScale - scale) < 1e-9;
+            location = nextLocation;
+            scale = nextScale;
+            if (converged) break;
+        }
+        const fit = { df, location, scale };
+        const logLikelihood = values.reduce((sum, x) => sum + Math.log(studentTPdf(x, fit)), 0);
+        if (!best || logLikelihood > best.logLikelihood) best = { ...fit, logLikelihood };
+    });
+
+    const { df, location, scale } = best!;
+    return { df, location, scale };
+}
+
+function tailRisk(sorted: number[], m: number, sd: number, t: StudentTFit | null, confidence: number): TailRisk {
+    const alpha = 1 - confidence;
+    const cutoff = quantile(sorted, alpha);
+    const tail = sorted.filter(x => x <= cutoff);
+
+    const z = normalQuantile(alpha);
+    const q = t ? studentTQuantile(alpha, t.df) : 0;
+
+    return {
+        confidence,
+        historical: { var: -cutoff, cvar: -mean(tail) },
+        normal: { var: -(m + sd * z), cvar: -(m - (sd * normalPdf(z)) / alpha) },
+        // Expected shortfall of the t: scale · (ν + q²) / (ν − 1) · f(q) / α below the location
+        studentT: t ? {
+            var: -(t.location + t.scale * q),
+            cvar: -(t.location - (t.scale * ((t.df + q * q) / (t.df - 1)) * studentTPdf(q, { df: t.df, location: 0, scale: 1 })) / alpha)
+        } : null
+    };
+}
+
+/**
+ * Moments, Jarque-Bera normality test, Student-t fit and one-bar VaR / CVaR at
+ * 95% and 99% (historical, normal and Student-t). Uses population moments like
+ * returnDistribution; null for fewer than 4 values or no spread.
+ */
+export function analyzeDistribution(values: number[]): DistributionAnalysis | null {
+    const n = values.length;
+    const m = mean(values);
+    const sd = standardDeviation(values);
+    if (n < 4 || sd === 0) return null;
+
+    const centralMoment = (k: number) => values.reduce((sum, x) => sum + Math.pow(x - m, k), 0) / n;
+    const skewness = centralMoment(3) / Math.pow(sd, 3);
+    const excessKurtosis = centralMoment(4) / Math.pow(sd, 4) - 3;
+
+    // JB ~ χ²(2) under normality, whose survival function is exp(-x / 2)
+    const statistic = (n / 6) * (skewness * skewness + (excessKurtosis * excessKurtosis) / 4);
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const studentT = fitStudentT(values);
+
+    return {
+        count: n,
+        mean: m,
+        sd,
+        skewness,
+        excessKurtosis,
+        jarqueBera: { statistic, pValue: Math.exp(-statistic / 2) },
+        studentT,
+        tailRisk: VAR_CONFIDENCES.map(confidence => tailRisk(sorted, m, sd, studentT, confidence))
+    };
+}
+
+/** Expected count per histogram bin under the fitted normal and Student-t (for overlay lines). */
+export function fittedCounts(bins: { bin: number }[], binSize: number, analysis: DistributionAnalysis): { normal: number; studentT: number | null }[] {
+    return bins.map(({ bin }) => {
+        const center = bin + binSize / 2;
+        return {
+            normal: analysis.count * binSize * normalPdf(center, analysis.mean, analysis.sd),
+            studentT: analysis.studentT ? analysis.count * binSize * studentTPdf(center, analysis.studentT) : null
+        };
+    });
+}
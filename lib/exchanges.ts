@@ -0,0 +1,131 @@
+// Exchange trading calendars: which local dates a market is open, so calendar
+// rules (monthly DCA) land on real sessions. Data sources sometimes return
+// placeholder bars on exchange holidays; those must not count as trading days.
+
+export interface TradingCalendar {
+    id: string;
+    timeZone: string; // IANA zone the exchange's dates are in
+    isTradingDay: (date: string) => boolean; // YYYY-MM-DD in timeZone
+    // False where isTradingDay is a guess, e.g. a year without a holiday list
+    isKnown?: (date: string) => boolean;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** The bar's calendar date in `timeZone` as YYYY-MM-DD. */
+export function localDateKey(date: string | Date, timeZone: string): string {
+    if (!formatters.has(timeZone)) {
+        // en-CA formats dates as YYYY-MM-DD
+        formatters.set(timeZone, new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }));
+    }
+    return formatters.get(timeZone)!.format(new Date(date));
+}
+
+const isWeekday = (date: string) => {
+    const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+    return day !== 0 && day !== 6;
+};
+
+// Fixed-date KRX holidays: New Year's Day, Independence Movement Day, Labour
+// Day, Children's Day, Memorial Day, Liberation Day, National Foundation Day,
+// Hangul Day and Christmas. Some of them move to the next free weekday when
+// they fall on a weekend, from the year the substitute rule took effect.
+const KRX_FIXED_HOLIDAYS = ["01-01", "03-01", "05-01", "05-05", "06-06", "08-15", "10-03", "10-09", "12-25"];
+const KRX_SUBSTITUTE_SINCE: Record<string, number> = {
+    "03-01": 2021, "05-05": 2014, "08-15": 2021, "10-03": 2021, "10-09": 2021, "12-25": 2023
+};
+
+// Holidays no rule here can produce, as KRX publishes them: Seollal, Buddha's
+// Birthday and Chuseok (lunar calendar) with their substitutes, election days
+// and one-off closures. Extend as KRX publishes new years; years missing here
+// are flagged by KRX_CALENDAR.isKnown.
+const KRX_LISTED_HOLIDAYS = new Set([
+    // 2023
+    "2023-01-23", "2023-01-24", "2023-05-29", "2023-09-28", "2023-09-29", "2023-10-02",
+    // 2024
+    "2024-02-09", "2024-02-12", "2024-04-10", "2024-05-15", "2024-09-16", "2024-09-17", "2024-09-18",
+    "2024-10-01",
+    // 2025
+    "2025-01-27", "2025-01-28", "2025-01-29", "2025-01-30", "2025-05-06", "2025-06-03", "2025-10-06",
+    "2025-10-07", "2025-10-08",
+    // 2026
+    "2026-02-16", "2026-02-17", "2026-02-18", "2026-05-25", "2026-06-03", "2026-09-24", "2026-09-25",
+]);
+const KRX_LISTED_YEARS = new Set([...KRX_LISTED_HOLIDAYS].map(date => date.slice(0, 4)));
+
+const krxRuleHolidays = new Map<string, Set<string>>();
+
+/** Weekday holidays of `year` that follow from the fixed dates and substitute rules. */
+function krxFixedHolidays(year: string): Set<string> {
+    if (krxRuleHolidays.has(year)) return krxRuleHolidays.get(year)!;
+    const holidays = new Set<string>();
+    const isOff = (date: string) => !isWeekday(date) || holidays.has(date) || KRX_LISTED_HOLIDAYS.has(date);
+    for (const monthDay of KRX_FIXED_HOLIDAYS) {
+        const date = `${year}-${monthDay}`;
+        if (isWeekday(date)) holidays.add(date);
+    }
+    for (const monthDay of KRX_FIXED_HOLIDAYS) {
+        const date = `${year}-${monthDay}`;
+        if (isWeekday(date) || !(Number(year) >= (KRX_SUBSTITUTE_SINCE[monthDay] ?? Infinity))) continue;
+        const next = new Date(`${date}T00:00:00Z`);
+        do next.setUTCDate(next.getUTCDate() + 1);
+        while (isOff(next.toISOString().split('T')[0]));
+        holidays.add(next.toISOString().split('T')[0]);
+    }
+    krxRuleHolidays.set(year, holidays);
+    return holidays;
+}
+
+// KRX closes on the last weekday of the year for year-end settlement
+const krxYearEnd = (date: string) => {
+    if (!date.endsWith("-12-31") && !date.endsWith("-12-30") && !date.endsWith("-12-29")) return false;
+    const day = Number(date.slice(8));
+    for (let d = 31; d > day; d--) {
+        if (isWeekday(`${date.slice(0, 8)}${d}`)) return false;
+    }
+    return true;
+};
+
+export const KRX_CALENDAR: TradingCalendar = {
+    id: "KRX",
+    timeZone: "Asia/Seoul",
+    isTradingDay: (date) => isWeekday(date) && !KRX_LISTED_HOLIDAYS.has(date) && !krxFixedHolidays(date.slice(0, 4)).has(date) && !krxYearEnd(date),
+    isKnown: (date) => KRX_LISTED_YEARS.has(date.slice(0, 4)),
+};
+
+// Every bar is a session; dates in UTC (the calendar rules' original behaviour)
+export const DEFAULT_CALENDAR: TradingCalendar = {
+    id: "default",
+    timeZone: "UTC",
+    isTradingDay: () => true,
+};
+
+/** KOSPI (.KS) and KOSDAQ (.KQ) listings and the KRX indices (^KS11, ^KQ11, ...). */
+export const isKrxSymbol = (symbol: string) => /\.(KS|KQ)$/i.test(symbol) || /^\^(KS|KQ)\d+$/i.test(symbol);
+
+/** Years of `dates` (YYYY-MM-DD in the calendar's zone) whose sessions the calendar can only guess. */
+export function unknownCalendarYears(calendar: TradingCalendar, dates: string[]): string[] {
+    const years = new Set<string>();
+    for (const date of dates) {
+        if (calendar.isKnown && !calendar.isKnown(date)) years.add(date.slice(0, 4));
+    }
+    return [...years].sort();
+}
+
+export const calendarForSymbol = (symbol: string): TradingCalendar => isKrxSymbol(symbol) ? KRX_CALENDAR : DEFAULT_CALENDAR;
+
+// Trading currency by Yahoo symbol suffix, for search results that don't carry one
+const SUFFIX_CURRENCIES: Record<string, string> = {
+    KS: "KRW", KQ: "KRW", T: "JPY", HK: "HKD", SS: "CNY", SZ: "CNY", TW: "TWD",
+    L: "GBP", DE: "EUR", F: "EUR", PA: "EUR", AS: "EUR", MI: "EUR", MC: "EUR",
+    TO: "CAD", V: "CAD", AX: "AUD", SW: "CHF"
+};
+const US_EXCHANGES = new Set(["NMS", "NGM", "NCM", "NYQ", "NYS", "ASE", "PCX", "BTS", "NAS", "NASDAQ", "NYSE"]);
+
+/** Best guess of a listing's trading currency from its symbol and exchange code; undefined when unknown. */
+export function listingCurrency(symbol: string, exchange?: string): string | undefined {
+    if (/[=^]/.test(symbol)) return undefined; // FX pairs and indices
+    const suffix = symbol.match(/\.([A-Z]+)$/i)?.[1]?.toUpperCase();
+    if (suffix) return SUFFIX_CURRENCIES[suffix];
+    return exchange && US_EXCHANGES.has(exchange.toUpperCase()) ? "USD" : undefined;
+}
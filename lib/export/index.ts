@@ -0,0 +1,178 @@
+import type { StockData } from "@/components/StockDashboard";
+import { priceSeries, type PriceBasis } from "../adjustments";
+import { returnDistribution, rollingStdDev, type SigmaZone } from "../analytics";
+import { monthlyDcaPreset, runBacktest, volatilityPreset, type BacktestSeries } from "../backtest";
+import { DEFAULT_ZONES } from "../dashboardUrl";
+import { analyzeDistribution, resolveBinWidth, toLogReturns, type BinWidthRule, type ReturnKind } from "../distribution";
+import { calendarForSymbol } from "../exchanges";
+import { rollingWindow } from "../ranges";
+import { analyzeVolatility } from "../volatility";
+import { computeIndicators, DEFAULT_CHART_INDICATORS, type IndicatorRequest } from "../indicators";
+import { EXPORT_FORMATS, type ExportCell, type ExportFile, type ExportFormat, type ExportTable } from "./types";
+import { xlsxWorkbook } from "./xlsx";
+
+export type * from "./types";
+export { EXPORT_FORMATS } from "./types";
+
+export const EXPORT_TABLES = ["history", "distribution", "distributionStats", "volatilitySimulation", "dcaSimulation"] as const;
+export type ExportTableName = typeof EXPORT_TABLES[number];
+
+// Unknown table or format; the route answers 400
+export class ExportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ExportError";
+    }
+}
+
+export interface DashboardExportOptions {
+    basis?: PriceBasis;
+    zones?: SigmaZone[]; // volatility simulation buy zones
+    indicators?: IndicatorRequest[]; // extra history columns, as on the price chart
+    returnKind?: ReturnKind; // returns of the distribution tables
+    binWidth?: BinWidthRule;
+}
+
+/**
+ * The dashboard's numbers for `data` with the given settings: price history
+ * with bar change, 20-bar rolling SD, indicator lines, annualized realized /
+ * EWMA / GARCH volatility and the volatility regime; the return histogram,
+ * its sigma counts, moments, Student-t fit and VaR / CVaR; the per-bar
+ * histories of both simulations. Same
+ * library calls as StockDashboard, so files match what the charts show.
+ */
+export function dashboardTables(
+    data: StockData,
+    { basis = "adjusted", zones = DEFAULT_ZONES, indicators = DEFAULT_CHART_INDICATORS, returnKind = "simple", binWidth = "auto" }: DashboardExportOptions = {}
+): ExportTable[] {
+    const interval = data.interval || "1d";
+    const series = priceSeries(data.history || [], data.splits || [], data.dividends || [], basis);
+    const rollingSD = rollingStdDev(series.changes, rollingWindow(interval));
+    const volatility = analyzeVolatility(series.changes, { interval });
+    const lines = computeIndicators({ ...series, interval }, indicators)
+        .flatMap(result => Object.entries(result.values || {}).map(([line, values]) => ({ column: `${result.id}.${line}`, values })));
+
+    const changes = series.history.length < 2 ? [] : series.changes.slice(1);
+    const returns = returnKind === "log" ? toLogReturns(changes) : changes;
+    const distribution = returnDistribution(returns, resolveBinWidth(binWidth, returns, interval));
+    const analysis = analyzeDistribution(returns);
+
+    const backtestSeries: BacktestSeries = { bars: series.history, changes: series.changes, dividends: series.dividends, calendar: calendarForSymbol(data.symbol) };
+    const hasSeries = series.history.length > 0;
+    const reinvest = hasSeries && distribution.sd ? runBacktest(backtestSeries, volatilityPreset(zones, "reinvest"), data.currentPrice) : null;
+    const noReinvest = hasSeries && distribution.sd ? runBacktest(backtestSeries, volatilityPreset(zones, "cash"), data.currentPrice) : null;
+    const dca = hasSeries ? runBacktest(backtestSeries, monthlyDcaPreset(), data.currentPrice) : null;
+
+    const within = (count: number) => distribution.totalDays ? (count / distribution.totalDays) * 100 : null;
+
+    return [
+        {
+            name: "history",
+            columns: [
+                "date", "open", "high", "low", "close", "volume", "changePercent", "rollingSD",
+                "realizedVol10", "realizedVol20", "realizedVol60", "ewmaVol", "garchVol", "volatilityRegime",
+                ...lines.map(l => l.column)
+            ],
+            rows: series.history.map((bar, i): ExportCell[] => [
+                bar.date, bar.open, bar.high, bar.low, bar.close, bar.volume, series.changes[i], rollingSD[i],
+                volatility.realized[10][i], volatility.realized[20][i], volatility.realized[60][i],
+                volatility.ewma[i], volatility.garch?.volatility[i] ?? null, volatility.regimes[i],
+                ...lines.map(l => l.values[i])
+            ])
+        },
+        {
+            name: "distribution",
+            columns: ["bin", "count"],
+            rows: distribution.data.map(b => [b.bin, b.count])
+        },
+        {
+            name: "distributionStats",
+            columns: ["metric", "value"],
+            rows: [
+                ["mean", distribution.mean],
+                ["sd", distribution.sd],
+                ["count1Sigma", distribution.count1Sigma],
+                ["percent1Sigma", within(distribution.count1Sigma)],
+                ["count2Sigma", distribution.count2Sigma],
+                ["percent2Sigma", within(distribution.count2Sigma)],
+                ["totalBars", distribution.totalDays],
+                ["binSize", distribution.binSize],
+                ["returnKind", returnKind],
+                ["skewness", analysis?.skewness ?? null],
+                ["excessKurtosis", analysis?.excessKurtosis ?? null],
+                ["jarqueBera", analysis?.jarqueBera.statistic ?? null],
+                ["jarqueBeraPValue", analysis?.jarqueBera.pValue ?? null],
+                ["studentTDf", analysis?.studentT?.df ?? null],
+                ["studentTLocation", analysis?.studentT?.location ?? null],
+                ["studentTScale", analysis?.studentT?.scale ?? null],
+                // e.g. var95Historical, cvar99StudentT: one-bar losses as positive %
+                ...(analysis?.tailRisk ?? []).flatMap(risk => ([["Historical", risk.historical], ["Normal", risk.normal], ["StudentT", risk.studentT]] as const)
+                    .flatMap(([model, estimate]): ExportCell[][] => [
+                        [`var${Math.round(risk.confidence * 100)}${model}`, estimate?.var ?? null],
+                        [`cvar${Math.round(risk.confidence * 100)}${model}`, estimate?.cvar ?? null]
+                    ]))
+            ]
+        },
+        {
+            name: "volatilitySimulation",
+            columns: ["date", "invested", "valueReinvest", "valueNoReinvest"],
+            rows: reinvest && noReinvest
+                ? reinvest.history.map((point, i) => [point.date, point.invested, point.value, noReinvest.history[i].value])
+                : []
+        },
+        {
+            name: "dcaSimulation",
+            columns: ["date", "invested", "cash", "shares", "value"],
+            rows: dca ? dca.history.map(point => [point.date, point.invested, point.cash, point.shares, point.value]) : []
+        }
+    ];
+}
+
+const csvCell = (value: ExportCell) => {
+    if (value === null || (typeof value === "number" && !Number.isFinite(value))) return "";
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (table: ExportTable) =>
+    [table.columns, ...table.rows].map(row => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+
+// Rows as objects keyed by column; non-finite numbers become null
+const tableObjects = (table: ExportTable) => table.rows.map(row =>
+    Object.fromEntries(table.columns.map((column, i) => [column, typeof row[i] === "number" && !Number.isFinite(row[i]) ? null : row[i]])));
+
+const fileStem = (symbol: string) => symbol.replace(/[^A-Za-z0-9.-]/g, "_");
+
+/**
+ * `tables` as a download. `table` picks one of them (CSV needs exactly one and
+ * defaults to "history"); JSON and XLSX hold every table otherwise.
+ */
+export function exportFile(data: StockData, tables: ExportTable[], format: ExportFormat, table?: string): ExportFile {
+    const name = table ?? (format === "csv" ? "history" : undefined);
+    const selected = name ? tables.filter(t => t.name === name) : tables;
+    if (name && selected.length === 0) {
+        throw new ExportError(`Unknown table "${name}". Available: ${tables.map(t => t.name).join(", ")}`);
+    }
+
+    const stem = `${fileStem(data.symbol)}_${data.range ?? "custom"}${name ? `_${name}` : ""}`;
+    switch (format) {
+        case "csv":
+            return { fileName: `${stem}.csv`, contentType: "text/csv; charset=utf-8", body: toCsv(selected[0]) };
+        case "json":
+            return {
+                fileName: `${stem}.json`,
+                contentType: "application/json",
+                body: JSON.stringify({
+                    symbol: data.symbol,
+                    currency: data.currency,
+                    range: data.range,
+                    interval: data.interval,
+                    tables: Object.fromEntries(selected.map(t => [t.name, tableObjects(t)]))
+                }, null, 2)
+            };
+        case "xlsx":
+            return { fileName: `${stem}.xlsx`, contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet", body: xlsxWorkbook(selected) };
+        default:
+            throw new ExportError(`format must be one of ${EXPORT_FORMATS.join(", ")}`);
+    }
+}
@@ -0,0 +1,19 @@
+// Dashboard numbers as plain tables, so one builder feeds every file format
+// (lib/export/index.ts) for both the dashboard's export buttons and /api/export.
+
+export type ExportCell = string | number | null;
+
+export interface ExportTable {
+    name: string;
+    columns: string[];
+    rows: ExportCell[][];
+}
+
+export const EXPORT_FORMATS = ["csv", "json", "xlsx"] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export interface ExportFile {
+    fileName: string;
+    contentType: string;
+    body: string | Uint8Array<ArrayBuffer>;
+}
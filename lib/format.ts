@@ -0,0 +1,34 @@
+// Money formatting shared by the dashboard, simulations, watchlists and portfolio.
+
+/** Decimal places the currency is normally quoted with (KRW and JPY 0, USD 2). */
+export function currencyDigits(currency: string): number {
+    try {
+        return new Intl.NumberFormat("en-US", { style: "currency", currency }).resolvedOptions().maximumFractionDigits ?? 2;
+    } catch {
+        return 2;
+    }
+}
+
+/**
+ * "$1,234.56", "₩68,713"; never more decimals than the currency uses.
+ * Unknown codes fall back to "1234.56 XYZ". `locale` defaults to the runtime's
+ * (pass one for output that must not depend on the machine, e.g. reports).
+ */
+export function formatMoney(value: number, currency: string, maximumFractionDigits = 2, locale?: string): string {
+    const digits = Math.min(maximumFractionDigits, currencyDigits(currency));
+    try {
+        return value.toLocaleString(locale, { style: "currency", currency, minimumFractionDigits: digits, maximumFractionDigits: digits });
+    } catch {
+        return `${value.toFixed(digits)} ${currency}`;
+    }
+}
+
+/** Narrow symbol for chart axes ("$", "₩"); the code itself when there is none. */
+export function currencySymbol(currency: string): string {
+    try {
+        const parts = new Intl.NumberFormat("en-US", { style: "currency", currency, currencyDisplay: "narrowSymbol" }).formatToParts(0);
+        return parts.find(p => p.type === "currency")?.value ?? currency;
+    } catch {
+        return currency;
+    }
+}
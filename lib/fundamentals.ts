@@ -0,0 +1,107 @@
+// Checks the Gemini fundamentals (P/E, yield) before they reach the dashboard:
+// the model's JSON must match a schema, and each value is compared with the
+// quote so an answer far off the published number is flagged or dropped.
+
+export type FundamentalField = "trailingPE" | "forwardPE" | "dividendYield";
+
+export const FUNDAMENTAL_FIELDS: FundamentalField[] = ["trailingPE", "forwardPE", "dividendYield"];
+
+export type GeminiFundamentals = Record<FundamentalField, number | null>;
+
+export type ReconciliationStatus =
+    | "agrees"      // within tolerance of the quote
+    | "flagged"     // outside tolerance; shown with a warning
+    | "suppressed"  // too far off to show (value is null)
+    | "unverified"  // no quote value to compare with
+    | "missing";    // the model had no value
+
+export interface ReconciledValue {
+    value: number | null;
+    reference: number | null;
+    // (value - reference) / |reference| in %; null without both numbers
+    divergence: number | null;
+    status: ReconciliationStatus;
+}
+
+export type ReconciledFundamentals = Record<FundamentalField, ReconciledValue>;
+
+export class FundamentalsSchemaError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "FundamentalsSchemaError";
+    }
+}
+
+// Plausible ranges; anything outside is treated as a malformed answer
+const RANGES: Record<FundamentalField, [number, number]> = {
+    trailingPE: [-1000, 1000],
+    forwardPE: [-1000, 1000],
+    dividendYield: [0, 100], // percent
+};
+
+/**
+ * A value agrees when it is within max(absolute, relative × |reference|) of the
+ * quote; beyond SUPPRESS_MULTIPLE times that it is suppressed.
+ */
+export const TOLERANCES: Record<FundamentalField, { relative: number; absolute: number }> = {
+    trailingPE: { relative: 0.10, absolute: 0.5 },
+    forwardPE: { relative: 0.15, absolute: 0.5 }, // estimates differ between data vendors
+    dividendYield: { relative: 0.15, absolute: 0.1 }, // percentage points
+};
+export const SUPPRESS_MULTIPLE = 3;
+
+/** Parses the model's reply into { trailingPE, forwardPE, dividendYield }; throws on any schema violation. */
+export function parseGeminiFundamentals(text: string): GeminiFundamentals {
+    let json: unknown;
+    try {
+        json = JSON.parse(text.replace(/```json|```/g, "").trim());
+    } catch {
+        throw new FundamentalsSchemaError("Reply is not JSON");
+    }
+    if (!json || typeof json !== "object" || Array.isArray(json)) {
+        throw new FundamentalsSchemaError("Reply is not a JSON object");
+    }
+
+    const raw = json as Record<string, unknown>;
+    const result = {} as GeminiFundamentals;
+    for (const field of FUNDAMENTAL_FIELDS) {
+        const value = raw[field];
+        if (value === null || value === undefined) {
+            result[field] = null;
+            continue;
+        }
+        if (typeof value !== "number" || !Number.isFinite(value)) {
+            throw new FundamentalsSchemaError(`${field} must be a number or null`);
+        }
+        const [min, max] = RANGES[field];
+        if (value < min || value > max) {
+            throw new FundamentalsSchemaError(`${field} ${value} is outside [${min}, ${max}]`);
+        }
+        result[field] = value;
+    }
+    return result;
+}
+
+/** Compares one model value with the quote's value under the field's tolerance. */
+export function reconcileValue(field: FundamentalField, value: number | null, reference: number | null | undefined): ReconciledValue {
+    const ref = typeof reference === "number" && Number.isFinite(reference) ? reference : null;
+    if (value === null) return { value: null, reference: ref, divergence: null, status: "missing" };
+    if (ref === null) return { value, reference: null, divergence: null, status: "unverified" };
+
+    const { relative, absolute } = TOLERANCES[field];
+    const tolerance = Math.max(absolute, relative * Math.abs(ref));
+    const diff = Math.abs(value - ref);
+    const divergence = ref !== 0 ? ((value - ref) / Math.abs(ref)) * 100 : null;
+
+    if (diff <= tolerance) return { value, reference: ref, divergence, status: "agrees" };
+    if (diff <= SUPPRESS_MULTIPLE * tolerance) return { value, reference: ref, divergence, status: "flagged" };
+    return { value: null, reference: ref, divergence, status: "suppressed" };
+}
+
+export function reconcileFundamentals(llm: GeminiFundamentals, reference: Partial<Record<FundamentalField, number | null>>): ReconciledFundamentals {
+    return {
+        trailingPE: reconcileValue("trailingPE", llm.trailingPE, reference.trailingPE),
+        forwardPE: reconcileValue("forwardPE", llm.forwardPE, reference.forwardPE),
+        dividendYield: reconcileValue("dividendYield", llm.dividendYield, reference.dividendYield),
+    };
+}
@@ -0,0 +1,88 @@
+// Currency conversion for the dashboard, comparison and portfolio. /api/stock
+// attaches daily FX rates (local -> base currency) when the listing trades in
+// another currency; everything here is pure so the UI can switch views freely.
+
+import type { StockData } from "@/components/StockDashboard";
+import type { Provenance } from "./provenance";
+
+export const BASE_CURRENCIES = ["USD", "KRW", "EUR", "JPY", "GBP", "CNY", "HKD"] as const;
+export const DEFAULT_BASE_CURRENCY = "USD";
+
+export interface FxPoint {
+    date: string; // ISO
+    rate: number; // 1 unit of the local currency in the base currency
+}
+
+export interface FxSeries {
+    base: string;
+    pair: string; // provider symbol the rates came from, e.g. "USDKRW=X" (inverted)
+    current: number;
+    points: FxPoint[]; // daily, oldest first
+    provenance: Provenance;
+}
+
+/** Yahoo-style FX symbol quoting 1 `from` in `to`, e.g. "KRWUSD=X". */
+export const fxPairSymbol = (from: string, to: string) => `${from}${to}=X`;
+
+/** Rate in effect on `date`: the last point on or before it (the first point for earlier dates). */
+export function rateOn(points: FxPoint[], date: string): number {
+    const day = date.slice(0, 10);
+    let lo = 0;
+    let hi = points.length - 1;
+    let found = 0;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (points[mid].date.slice(0, 10) <= day) {
+            found = mid;
+            lo = mid + 1;
+        } else {
+            hi = mid - 1;
+        }
+    }
+    return points[found]?.rate ?? NaN;
+}
+
+/**
+ * The same payload with prices, dividends and the quote in `data.fx.base`:
+ * each bar and dividend at its own date's rate, the quote at the current rate.
+ * Ratios (P/E, yield, split factors) don't change.
+ */
+export function toBaseCurrency(data: StockData): StockData {
+    const fx = data.fx;
+    if (!fx || fx.points.length === 0 || fx.base === data.currency) return data;
+
+    const at = (date: string) => rateOn(fx.points, date);
+    const previousRate = fx.points.length > 1 ? fx.points[fx.points.length - 2].rate : fx.current;
+    const currentPrice = data.currentPrice * fx.current;
+    const previousClose = (data.currentPrice - data.change) * previousRate;
+
+    return {
+        ...data,
+        currency: fx.base,
+        currentPrice,
+        change: currentPrice - previousClose,
+        changePercent: previousClose ? ((currentPrice - previousClose) / previousClose) * 100 : 0,
+        history: data.history.map((bar) => {
+            const rate = at(bar.date);
+            return { ...bar, open: bar.open * rate, high: bar.high * rate, low: bar.low * rate, close: bar.close * rate, adjClose: bar.adjClose * rate };
+        }),
+        dividends: data.dividends?.map((div) => ({ ...div, amount: div.amount * at(div.date) }))
+    };
+}
+
+/**
+ * Splits the base-currency P&L of a simulation funded by contributions (each
+ * buy is new money) into the price effect, i.e. the P&L in the local currency
+ * translated at today's rate, and the FX effect of buying at older rates.
+ */
+export function fxImpact(
+    result: { currentValue: number; totalInvested: number; trades: { date: string; side: string; amount: number }[] },
+    fx: FxSeries
+) {
+    const total = result.currentValue - result.totalInvested;
+    const investedLocal = result.trades
+        .filter(t => t.side === "buy")
+        .reduce((sum, t) => sum + t.amount / rateOn(fx.points, t.date), 0);
+    const price = result.currentValue - investedLocal * fx.current;
+    return { total, price, fx: total - price };
+}
@@ -0,0 +1,197 @@
+// Indicator registry behind /api/indicators. Each entry turns a price series
+// plus numeric parameters into named value lines aligned with the bars (or a
+// distribution for the histogram). Add new indicators to INDICATORS.
+
+import { bollingerBands, MIN_BIN_SIZE, movingAverage, returnDistribution, rollingStdDev, type ReturnDistribution } from "./analytics";
+import { isIntraday, type BarInterval } from "./ranges";
+import {
+    averageTrueRange, exponentialMovingAverage, keltnerChannels, macd, onBalanceVolume,
+    relativeStrengthIndex, stochastic, volumeWeightedAveragePrice
+} from "./technical";
+
+export interface IndicatorSeries {
+    history: { date: string; open: number; high: number; low: number; close: number; volume: number }[];
+    changes: number[]; // % change per bar, first bar 0
+    interval?: BarInterval;
+}
+
+// Where a chart draws it: on the price axis, in its own pane below, or not at all
+export type IndicatorPane = "overlay" | "subpane" | "none";
+
+export interface IndicatorRequest {
+    type: string;
+    [param: string]: unknown;
+}
+
+export interface IndicatorResult {
+    id: string;                                  // e.g. "bollinger(20,2)"
+    type: string;
+    params: Record<string, number>;
+    values?: Record<string, (number | null)[]>;  // one entry per bar
+    distribution?: ReturnDistribution;
+}
+
+type IndicatorOutput = Pick<IndicatorResult, "values" | "distribution">;
+
+interface IndicatorDefinition {
+    label: string;
+    pane: IndicatorPane;
+    defaults: Record<string, number>;
+    compute: (series: IndicatorSeries, params: Record<string, number>) => IndicatorOutput;
+}
+
+// What the price chart shows until a symbol has its own selection
+export const DEFAULT_CHART_INDICATORS: IndicatorRequest[] = [{ type: "bollinger", period: 20, k: 2 }];
+
+// Bad indicator names or parameters; the route answers 400
+export class IndicatorError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "IndicatorError";
+    }
+}
+
+const closes = (series: IndicatorSeries) => series.history.map(bar => bar.close);
+const ohlc = (series: IndicatorSeries) => ({
+    highs: series.history.map(bar => bar.high),
+    lows: series.history.map(bar => bar.low),
+    closes: closes(series)
+});
+
+export const INDICATORS: Record<string, IndicatorDefinition> = {
+    returns: {
+        label: "Bar Change %",
+        pane: "none",
+        defaults: {},
+        compute: (series) => ({ values: { change: series.changes } })
+    },
+    sma: {
+        label: "SMA",
+        pane: "overlay",
+        defaults: { period: 20 },
+        compute: (series, { period }) => ({ values: { sma: movingAverage(closes(series), period) } })
+    },
+    bollinger: {
+        label: "Bollinger Bands",
+        pane: "overlay",
+        defaults: { period: 20, k: 2 },
+        compute: (series, { period, k }) => {
+            const bands = bollingerBands(closes(series), period, k);
+            return { values: { middle: bands.map(b => b.middle), upper: bands.map(b => b.upper), lower: bands.map(b => b.lower) } };
+        }
+    },
+    rollingSD: {
+        label: "Rolling SD of Returns",
+        pane: "subpane",
+        defaults: { period: 20 },
+        // 0 until the window is full on the dashboard; null here so scripts can tell
+        compute: (series, { period }) => ({
+            values: { sd: rollingStdDev(series.changes, period).map((sd, i) => i >= period - 1 ? sd : null) }
+        })
+    },
+    histogram: {
+        label: "Return Histogram",
+        pane: "none",
+        defaults: { binSize: 0.1 },
+        compute: (series, { binSize }) => ({ distribution: returnDistribution(series.changes.slice(1), binSize) })
+    },
+    ema: {
+        label: "EMA",
+        pane: "overlay",
+        defaults: { period: 20 },
+        compute: (series, { period }) => ({ values: { ema: exponentialMovingAverage(closes(series), period) } })
+    },
+    keltner: {
+        label: "Keltner Channels",
+        pane: "overlay",
+        defaults: { period: 20, atrPeriod: 10, multiplier: 2 },
+        compute: (series, { period, atrPeriod, multiplier }) => {
+            const { highs, lows, closes } = ohlc(series);
+            return { values: keltnerChannels(highs, lows, closes, period, atrPeriod, multiplier) };
+        }
+    },
+    vwap: {
+        label: "VWAP",
+        pane: "overlay",
+        defaults: {},
+        compute: (series) => ({
+            values: { vwap: volumeWeightedAveragePrice(series.history, series.interval ? isIntraday(series.interval) : false) }
+        })
+    },
+    rsi: {
+        label: "RSI",
+        pane: "subpane",
+        defaults: { period: 14 },
+        compute: (series, { period }) => ({ values: { rsi: relativeStrengthIndex(closes(series), period) } })
+    },
+    macd: {
+        label: "MACD",
+        pane: "subpane",
+        defaults: { fast: 12, slow: 26, signal: 9 },
+        compute: (series, { fast, slow, signal }) => ({ values: macd(closes(series), fast, slow, signal) })
+    },
+    stochastic: {
+        label: "Slow Stochastic",
+        pane: "subpane",
+        defaults: { kPeriod: 14, dPeriod: 3, smoothing: 3 },
+        compute: (series, { kPeriod, dPeriod, smoothing }) => {
+            const { highs, lows, closes } = ohlc(series);
+            return { values: stochastic(highs, lows, closes, kPeriod, dPeriod, smoothing) };
+        }
+    },
+    atr: {
+        label: "ATR",
+        pane: "subpane",
+        defaults: { period: 14 },
+        compute: (series, { period }) => {
+            const { highs, lows, closes } = ohlc(series);
+            return { values: { atr: averageTrueRange(highs, lows, closes, period) } };
+        }
+    },
+    obv: {
+        label: "OBV",
+        pane: "subpane",
+        defaults: {},
+        compute: (series) => ({ values: { obv: onBalanceVolume(closes(series), series.history.map(bar => bar.volume)) } })
+    },
+};
+
+// Window lengths must be whole bars
+const INTEGER_PARAMS = new Set(["period", "atrPeriod", "fast", "slow", "signal", "kPeriod", "dPeriod", "smoothing"]);
+// Lower bounds beyond positivity; a tiny bin size would ask for millions of bins
+const MINIMUM_PARAMS: Record<string, number> = { binSize: MIN_BIN_SIZE };
+
+function resolveParams(request: IndicatorRequest, definition: IndicatorDefinition): Record<string, number> {
+    const params: Record<string, number> = {};
+    for (const [name, fallback] of Object.entries(definition.defaults)) {
+        const raw = request[name] ?? fallback;
+        const value = typeof raw === "string" ? parseFloat(raw) : raw;
+        if (typeof value !== "number" || !isFinite(value) || value <= 0) {
+            throw new IndicatorError(`${request.type}: "${name}" must be a positive number`);
+        }
+        if (INTEGER_PARAMS.has(name) && !Number.isInteger(value)) {
+            throw new IndicatorError(`${request.type}: "${name}" must be a whole number of bars`);
+        }
+        if (Object.hasOwn(MINIMUM_PARAMS, name) && value < MINIMUM_PARAMS[name]) {
+            throw new IndicatorError(`${request.type}: "${name}" must be at least ${MINIMUM_PARAMS[name]}`);
+        }
+        params[name] = value;
+    }
+    return params;
+}
+
+export function computeIndicator(series: IndicatorSeries, request: IndicatorRequest): IndicatorResult {
+    if (!request || typeof request.type !== "string") {
+        throw new IndicatorError('Each indicator needs a "type"');
+    }
+    const definition = Object.hasOwn(INDICATORS, request.type) ? INDICATORS[request.type] : undefined;
+    if (!definition) {
+        throw new IndicatorError(`Unknown indicator "${request.type}". Available: ${Object.keys(INDICATORS).join(", ")}`);
+    }
+    const params = resolveParams(request, definition);
+    const id = `${request.type}(${Object.values(params).join(",")})`;
+    return { id, type: request.type, params, ...definition.compute(series, params) };
+}
+
+export const computeIndicators = (series: IndicatorSeries, requests: IndicatorRequest[]) =>
+    requests.map(request => computeIndicator(series, request));
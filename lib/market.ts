@@ -0,0 +1,237 @@
+import fs from 'fs';
+import path from 'path';
+import type { MarketData } from "@/components/MarketStatus";
+import { cached, cachedFetch } from "@/lib/cache";
+import { calendarForSymbol, localDateKey } from "@/lib/exchanges";
+import { defaultProvenance, type Provenance, type ProvenanceStatus } from "@/lib/provenance";
+import { getMarketDataProvider, providerProvenance } from "@/lib/providers";
+import { getSentimentSources, llmSentimentSource, type MetricPoint, type SentimentMetric, type SentimentReadings } from "@/lib/sentiment";
+
+// Every accepted GEX / DIX / Fear & Greed reading, one point per date per metric
+const HISTORY_FILE = path.resolve(process.cwd(), '.cache/market_history.json');
+const HISTORY_DAYS = 30; // window returned for the sparklines, same as VIX
+const HISTORY_KEEP_DAYS = 2 * 365;
+
+type MetricHistory = Record<SentimentMetric, MetricPoint[]>;
+
+const METRIC_KEYS: SentimentMetric[] = ["gex", "dix", "fearGreed"];
+
+const daysAgo = (days: number) => {
+    const date = new Date();
+    date.setDate(date.getDate() - days);
+    return date.toISOString().split('T')[0];
+};
+
+async function readMetricHistory(): Promise<MetricHistory> {
+    const empty: MetricHistory = { gex: [], dix: [], fearGreed: [] };
+    try {
+        return { ...empty, ...JSON.parse(await fs.promises.readFile(HISTORY_FILE, 'utf8')) };
+    } catch (e: unknown) {
+        if ((e as NodeJS.ErrnoException).code !== 'ENOENT') console.warn("Failed to read market history:", e);
+        return empty;
+    }
+}
+
+/**
+ * Upserts every point of each reading under its date (a newer value for the
+ * same date replaces the stored one); true when anything changed.
+ */
+function mergeReadings(history: MetricHistory, readings: SentimentReadings): boolean {
+    const today = new Date().toISOString().split('T')[0];
+    const oldest = daysAgo(HISTORY_KEEP_DAYS);
+    let changed = false;
+
+    for (const key of METRIC_KEYS) {
+        const reading = readings[key];
+        // LLM answers are shown but never become part of the stored series
+        if (!reading || reading.source.estimated) continue;
+
+        const byDate = new Map(history[key].map(p => [p.date, p.value]));
+        for (const { date, value } of reading.points) {
+            if (date > today || date < oldest || !Number.isFinite(value) || byDate.get(date) === value) continue;
+            byDate.set(date, value);
+            changed = true;
+        }
+        history[key] = [...byDate.entries()]
+            .filter(([date]) => date >= oldest)
+            .map(([date, value]) => ({ date, value }))
+            .sort((a, b) => a.date.localeCompare(b.date));
+    }
+    return changed;
+}
+
+// Read-modify-write cycles are queued (as in lib/alerts/store) so concurrent
+// /api/market requests don't overwrite each other's readings within this process
+let pending: Promise<unknown> = Promise.resolve();
+
+/** Merges the readings into the stored series, saves them if anything changed, and returns them. */
+function recordReadings(readings: SentimentReadings): Promise<MetricHistory> {
+    const run = pending.then(async () => {
+        const history = await readMetricHistory();
+        if (mergeReadings(history, readings)) {
+            try {
+                await fs.promises.mkdir(path.dirname(HISTORY_FILE), { recursive: true });
+                await fs.promises.writeFile(HISTORY_FILE, JSON.stringify(history, null, 2));
+            } catch (e: unknown) {
+                console.warn("Failed to save market history:", e);
+            }
+        }
+        return history;
+    });
+    pending = run.catch(() => undefined);
+    return run;
+}
+
+// Latest reading, its change against the previous reading, and the month before it
+function metricFromHistory(points: MetricPoint[], provenance: Omit<Provenance, "asOf">): MarketData["metrics"][SentimentMetric] {
+    const latest = points[points.length - 1];
+    const previous = points[points.length - 2];
+    if (!latest) return { current: null, date: null, change: 0, history: [], provenance: defaultProvenance() };
+
+    const since = new Date(latest.date);
+    since.setDate(since.getDate() - HISTORY_DAYS);
+    return {
+        current: latest.value,
+        date: latest.date,
+        change: previous ? latest.value - previous.value : 0,
+        history: points.filter(p => p.date >= since.toISOString().split('T')[0]),
+        provenance: { ...provenance, asOf: latest.date }
+    };
+}
+
+/**
+ * GEX, DIX and Fear & Greed, per source through lib/cache: fresh cache ->
+ * publisher adapters (lib/sentiment) -> stale cache -> LLM search, flagged as estimated.
+ */
+async function loadSentiment(): Promise<{ readings: SentimentReadings; status: Partial<Record<SentimentMetric, ProvenanceStatus>> }> {
+    const readings: SentimentReadings = {};
+    const status: Partial<Record<SentimentMetric, ProvenanceStatus>> = {};
+    const oldest = daysAgo(HISTORY_KEEP_DAYS);
+
+    const sources = getSentimentSources();
+    const settled = await Promise.allSettled(sources.map(source => cachedFetch("sentiment", source.name, async () => {
+        const fetched = await source.fetch();
+        // Keep a bounded copy: SqueezeMetrics publishes every session since 2011
+        for (const reading of Object.values(fetched)) {
+            reading.points = reading.points.filter(p => p.date >= oldest);
+        }
+        return fetched;
+    })));
+    settled.forEach((outcome, i) => {
+        if (outcome.status === "fulfilled") {
+            const { value, status: cacheStatus } = outcome.value;
+            Object.assign(readings, value);
+            // Saved sample files count as cached, like the recorded market data fixtures
+            Object.entries(value).forEach(([key, reading]) => {
+                status[key as SentimentMetric] = cacheStatus === "live" && reading.source.recorded ? "cached" : cacheStatus;
+            });
+        } else console.error(`${sources[i].name} sentiment fetch failed:`, (outcome.reason as Error).message);
+    });
+
+    // Last resort: nothing published is available for these metrics
+    const llm = llmSentimentSource(METRIC_KEYS.filter(key => !readings[key]));
+    if (llm) {
+        try {
+            console.warn(`Falling back to ${llm.name} for ${llm.metrics.join(", ")} (values are estimated).`);
+            const estimates = await cached("sentiment", `${llm.name}:${llm.metrics.join(",")}`, () => llm.fetch());
+            Object.assign(readings, estimates);
+            Object.keys(estimates).forEach(key => { status[key as SentimentMetric] = "estimated"; });
+        } catch (e: unknown) {
+            console.error("Gemini Search failed (Rate Limit/Error):", (e as Error).message);
+        }
+    }
+    return { readings, status };
+}
+
+// Index cards shown next to VIX
+const INDEX_SYMBOLS = { kospi: '^KS11', kosdaq: '^KQ11' } as const;
+
+/** Last close and its change against the previous session; a failed fetch leaves an empty card. */
+async function loadIndex(symbol: string, period1: Date, period2: Date): Promise<MarketData["indices"]["kospi"]> {
+    try {
+        const { value: bars, status } = await cachedFetch("history", `${symbol}:${HISTORY_DAYS}d:1d`, () =>
+            getMarketDataProvider().history(symbol, { period1, period2 }, '1d'));
+        const last = bars[bars.length - 1];
+        const previous = bars[bars.length - 2];
+        if (!last) throw new Error("no bars");
+
+        const change = previous ? last.close - previous.close : 0;
+        return {
+            symbol,
+            current: last.close,
+            change,
+            changePercent: previous ? (change / previous.close) * 100 : 0,
+            // Session date on the exchange's own calendar
+            date: localDateKey(last.date, calendarForSymbol(symbol).timeZone),
+            history: bars.map((day) => ({ date: day.date.toISOString(), close: day.close })),
+            provenance: providerProvenance(last.date.toISOString(), status)
+        };
+    } catch (e: unknown) {
+        console.error(`${symbol} history fetch failed:`, (e as Error).message);
+        return { symbol, current: null, change: 0, changePercent: 0, date: null, history: [], provenance: defaultProvenance() };
+    }
+}
+
+/** Builds the /api/market payload: VIX and KOSPI/KOSDAQ history plus GEX, DIX and Fear & Greed. */
+export async function loadMarketData(): Promise<MarketData> {
+    // 1. Fetch VIX History (market data provider)
+    const endDate = new Date();
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - HISTORY_DAYS);
+
+    const vixHistoryPromise = cachedFetch("history", `^VIX:${HISTORY_DAYS}d:1d`, () => getMarketDataProvider().history('^VIX', {
+        period1: startDate,
+        period2: endDate
+    }, '1d'));
+
+    // 2. Fetch Market Sentiment (publisher adapters, see loadSentiment) and the KRX indices
+    const [{ value: vixHistory, status: vixStatus }, { readings: sentiment, status }, kospi, kosdaq] = await Promise.all([
+        vixHistoryPromise,
+        loadSentiment(),
+        loadIndex(INDEX_SYMBOLS.kospi, startDate, endDate),
+        loadIndex(INDEX_SYMBOLS.kosdaq, startDate, endDate)
+    ]);
+
+    const vixData = vixHistory;
+
+    // Readings (fresh or cached) extend the stored series; the cards show the
+    // latest stored reading, so the last known value survives a failed fetch
+    const metricHistory = await recordReadings(sentiment);
+    const metric = (key: SentimentMetric) => {
+        const reading = sentiment[key];
+        const points = reading?.source.estimated
+            ? [...metricHistory[key].filter(p => p.date < reading.points[0].date), ...reading.points]
+            : metricHistory[key];
+        // Nothing fetched this time: the latest stored reading is stale
+        return metricFromHistory(points, reading
+            ? { source: reading.source.name, url: reading.source.url, status: status[key] || "live" }
+            : { source: "Stored history", status: "stale" });
+    };
+
+    const fearGreed = metric("fearGreed");
+    if (fearGreed.current === null) {
+        fearGreed.current = 50; // Default 50 neutral
+        fearGreed.provenance = defaultProvenance("Neutral placeholder");
+    }
+
+    const lastVix = vixData[vixData.length - 1];
+    const vixDate = lastVix?.date ? new Date(lastVix.date).toISOString().split('T')[0] : null;
+
+    return {
+        vix: {
+            current: lastVix?.close || 0,
+            date: vixDate,
+            history: vixData.map((day) => ({
+                date: day.date.toISOString(),
+                close: day.close
+            })),
+            provenance: lastVix ? providerProvenance(lastVix.date.toISOString(), vixStatus) : defaultProvenance()
+        },
+        indices: { kospi, kosdaq },
+        metrics: {
+            gex: metric("gex"),
+            dix: metric("dix"),
+            fearGreed
+        }
+    };
+}
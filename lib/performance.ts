@@ -0,0 +1,153 @@
+// Performance metrics for backtest results (lib/backtest). Strategies that add
+// money over time (DCA) would look like they "gain" every contribution, so
+// risk metrics use time-weighted returns and XIRR covers the money-weighted view.
+
+import { mean, standardDeviation } from "./analytics";
+import type { BacktestPoint } from "./backtest";
+import type { BarInterval } from "./ranges";
+
+export interface PerformanceMetrics {
+    totalReturn: number;          // time-weighted, %
+    cagr: number | null;          // %, null for spans under a day
+    volatility: number;           // annualized, %
+    sharpe: number | null;
+    sortino: number | null;
+    maxDrawdown: number;          // peak-to-trough, % (positive number)
+    maxDrawdownDays: number;      // calendar days from that peak to recovery (or the last bar)
+    xirr: number | null;          // money-weighted annual return, %
+}
+
+export interface MetricsOptions {
+    interval: BarInterval;
+    riskFreeRate?: number;        // annual, % (default 0)
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const YEAR_DAYS = 365.25;
+
+/** Bars per year for annualizing (US session: 78 five-minute bars a day). */
+export function periodsPerYear(interval: BarInterval): number {
+    switch (interval) {
+        case '5m': return 252 * 78;
+        case '15m': return 252 * 26;
+        case '1wk': return 52;
+        case '1d':
+        default:
+            return 252;
+    }
+}
+
+/**
+ * Per-bar time-weighted returns: the day's contribution is removed before
+ * comparing with the previous value. Bars before any money is in are skipped.
+ */
+export function timeWeightedReturns(history: BacktestPoint[]): { dates: string[]; returns: number[] } {
+    const dates: string[] = [];
+    const returns: number[] = [];
+    for (let i = 1; i < history.length; i++) {
+        const prev = history[i - 1];
+        if (prev.value <= 0) continue;
+        const flow = history[i].invested - prev.invested;
+        dates.push(history[i].date);
+        returns.push((history[i].value - flow) / prev.value - 1);
+    }
+    return { dates, returns };
+}
+
+/**
+ * Annualized money-weighted return for dated cash flows (negative = money in,
+ * positive = money out). Newton's method with a bisection fallback; null when
+ * the flows have no sign change or no root is found.
+ */
+export function xirr(flows: { date: string; amount: number }[]): number | null {
+    if (!flows.some(f => f.amount < 0) || !flows.some(f => f.amount > 0)) return null;
+
+    const t0 = new Date(flows[0].date).getTime();
+    const years = flows.map(f => (new Date(f.date).getTime() - t0) / DAY / YEAR_DAYS);
+    const npv = (rate: number) => flows.reduce((sum, f, i) => sum + f.amount / Math.pow(1 + rate, years[i]), 0);
+    const dnpv = (rate: number) => flows.reduce((sum, f, i) => sum - years[i] * f.amount / Math.pow(1 + rate, years[i] + 1), 0);
+
+    let rate = 0.1;
+    for (let iter = 0; iter < 50; iter++) {
+        const value = npv(rate);
+        const slope = dnpv(rate);
+        if (Math.abs(value) < 1e-7) return rate * 100;
+        if (slope === 0) break;
+        const next = rate - value / slope;
+        if (!isFinite(next) || next <= -1) break;
+        rate = next;
+    }
+
+    // Bisection between -99.99% and +10000%
+    let lo = -0.9999, hi = 100;
+    if (npv(lo) * npv(hi) > 0) return null;
+    for (let iter = 0; iter < 200; iter++) {
+        const mid = (lo + hi) / 2;
+        if (npv(lo) * npv(mid) <= 0) hi = mid;
+        else lo = mid;
+    }
+    return ((lo + hi) / 2) * 100;
+}
+
+/** Cash flows implied by a backtest history: contributions out, final value back in. */
+export function cashFlows(history: BacktestPoint[]): { date: string; amount: number }[] {
+    if (history.length === 0) return [];
+    const flows = history
+        .map((point, i) => ({ date: point.date, amount: -(point.invested - (i > 0 ? history[i - 1].invested : 0)) }))
+        .filter(f => f.amount !== 0);
+    const last = history[history.length - 1];
+    flows.push({ date: last.date, amount: last.value });
+    return flows;
+}
+
+/** Full metrics block for one backtest history. */
+export function performanceMetrics(history: BacktestPoint[], { interval, riskFreeRate = 0 }: MetricsOptions): PerformanceMetrics {
+    const { dates, returns } = timeWeightedReturns(history);
+    const periods = periodsPerYear(interval);
+
+    // Growth index and drawdowns
+    let index = 1;
+    let peak = 1;
+    let peakDate = dates[0];
+    let maxDrawdown = 0;
+    let maxDrawdownDays = 0;
+    let drawdownStart: string | null = null;
+    returns.forEach((r, i) => {
+        index *= 1 + r;
+        // Compounding drifts by a few ulps, so getting back to the peak value counts as recovered
+        if (index >= peak * (1 - 1e-12)) {
+            if (drawdownStart) {
+                maxDrawdownDays = Math.max(maxDrawdownDays, (new Date(dates[i]).getTime() - new Date(drawdownStart).getTime()) / DAY);
+                drawdownStart = null;
+            }
+            peak = Math.max(peak, index);
+            peakDate = dates[i];
+        } else {
+            if (!drawdownStart) drawdownStart = peakDate;
+            maxDrawdown = Math.max(maxDrawdown, 1 - index / peak);
+        }
+    });
+    // Still under water at the end
+    if (drawdownStart && dates.length) {
+        maxDrawdownDays = Math.max(maxDrawdownDays, (new Date(dates[dates.length - 1]).getTime() - new Date(drawdownStart).getTime()) / DAY);
+    }
+
+    const spanYears = dates.length > 1 ? (new Date(dates[dates.length - 1]).getTime() - new Date(dates[0]).getTime()) / DAY / YEAR_DAYS : 0;
+    const cagr = spanYears * YEAR_DAYS >= 1 ? (Math.pow(index, 1 / spanYears) - 1) * 100 : null;
+
+    const rfPerPeriod = riskFreeRate / 100 / periods;
+    const excess = returns.map(r => r - rfPerPeriod);
+    const sd = standardDeviation(returns);
+    const downside = Math.sqrt(mean(excess.map(r => Math.pow(Math.min(r, 0), 2))));
+
+    return {
+        totalReturn: (index - 1) * 100,
+        cagr,
+        volatility: sd * Math.sqrt(periods) * 100,
+        sharpe: sd > 0 ? (mean(excess) / sd) * Math.sqrt(periods) : null,
+        sortino: downside > 0 ? (mean(excess) / downside) * Math.sqrt(periods) : null,
+        maxDrawdown: maxDrawdown * 100,
+        maxDrawdownDays: Math.round(maxDrawdownDays),
+        xirr: xirr(cashFlows(history))
+    };
+}
@@ -0,0 +1,281 @@
+// Portfolio accounting for recorded trades: FIFO cost basis, realized and
+// unrealized P&L, dividend income and value over time. Pure functions; the
+// Portfolio component feeds them /api/stock data.
+
+import { splitFactorAt, type DividendPoint, type SplitPoint } from "./adjustments";
+
+export type LotSide = "buy" | "sell";
+
+export interface Lot {
+    id: string;
+    symbol: string;
+    side: LotSide;
+    date: string;      // YYYY-MM-DD trade date
+    quantity: number;  // shares as traded (pre-split count for older trades)
+    price: number;     // per share, as traded
+    currency: string;
+    fees: number;      // total commission/fees for the trade
+}
+
+/** The slice of a /api/stock payload the portfolio needs for one symbol. */
+export interface MarketSeries {
+    currency: string;
+    currentPrice: number;
+    history: { date: string; close: number }[]; // raw (unadjusted) closes
+    dividends: DividendPoint[];
+    splits: SplitPoint[];
+    // Current rate of `currency` in the page's base currency, when /api/stock sent FX rates
+    fxRate?: number;
+}
+
+export interface OpenLot {
+    lotId: string;
+    date: string;
+    quantity: number;     // post-split shares still held
+    costPerShare: number; // post-split, fees included
+}
+
+export interface ClosedLot {
+    buyLotId: string;
+    sellLotId: string;
+    buyDate: string;
+    sellDate: string;
+    quantity: number;
+    costBasis: number;
+    proceeds: number;
+    realized: number;
+}
+
+export interface Position {
+    symbol: string;
+    currency: string;
+    quantity: number;
+    costBasis: number;
+    marketPrice: number | null;
+    marketValue: number | null;
+    unrealized: number | null;
+    unrealizedPercent: number | null;
+    realized: number;
+    dividendIncome: number;
+    fees: number;
+    openLots: OpenLot[];
+    closedLots: ClosedLot[];
+}
+
+export interface PortfolioPoint {
+    date: string;
+    value: number;
+    costBasis: number;
+}
+
+export interface PortfolioTotals {
+    currency: string;
+    marketValue: number;
+    costBasis: number;
+    unrealized: number;
+    realized: number;
+    dividendIncome: number;
+}
+
+// Shares below this are treated as zero (float noise from split ratios)
+const EPSILON = 1e-9;
+
+const dayKey = (date: string) => new Date(date).toISOString().split('T')[0];
+
+const byDate = (a: Lot, b: Lot) => a.date.localeCompare(b.date) || (a.side === b.side ? 0 : a.side === "buy" ? -1 : 1);
+
+interface FifoState {
+    openLots: OpenLot[];
+    closedLots: ClosedLot[];
+    fees: number;
+}
+
+/**
+ * Replays trades in date order (buys before sells on the same day) and
+ * matches each sell against the oldest open buys. Quantities and prices are
+ * restated on today's share basis so lots on either side of a split match.
+ */
+function replayFifo(lots: Lot[], splits: SplitPoint[]): FifoState {
+    const state: FifoState = { openLots: [], closedLots: [], fees: 0 };
+
+    [...lots].sort(byDate).forEach((lot) => {
+        const factor = splitFactorAt(lot.date, splits);
+        const quantity = lot.quantity / factor;
+        state.fees += lot.fees;
+
+        if (lot.side === "buy") {
+            state.openLots.push({
+                lotId: lot.id,
+                date: lot.date,
+                quantity,
+                costPerShare: (lot.quantity * lot.price + lot.fees) / quantity
+            });
+            return;
+        }
+
+        const proceedsPerShare = (lot.quantity * lot.price - lot.fees) / quantity;
+        let remaining = quantity;
+        while (remaining > EPSILON && state.openLots.length > 0) {
+            const open = state.openLots[0];
+            const matched = Math.min(open.quantity, remaining);
+            state.closedLots.push({
+                buyLotId: open.lotId,
+                sellLotId: lot.id,
+                buyDate: open.date,
+                sellDate: lot.date,
+                quantity: matched,
+                costBasis: matched * open.costPerShare,
+                proceeds: matched * proceedsPerShare,
+                realized: matched * (proceedsPerShare - open.costPerShare)
+            });
+            open.quantity -= matched;
+            remaining -= matched;
+            if (open.quantity <= EPSILON) state.openLots.shift();
+        }
+        // Overselling is rejected by validateLot, so anything left here is float noise
+    });
+
+    return state;
+}
+
+const sharesHeld = (openLots: OpenLot[]) => openLots.reduce((sum, l) => sum + l.quantity, 0);
+const openCost = (openLots: OpenLot[]) => openLots.reduce((sum, l) => sum + l.quantity * l.costPerShare, 0);
+
+/**
+ * Returns an error message if adding `candidate` would leave the position
+ * short at any point, otherwise null. Pass the symbol's splits so trades on
+ * either side of a split are compared in the same share units.
+ */
+export function validateLot(lots: Lot[], candidate: Lot, splits: SplitPoint[] = []): string | null {
+    if (!candidate.symbol) return "Symbol is required";
+    if (!(candidate.quantity > 0)) return "Quantity must be positive";
+    if (!(candidate.price >= 0)) return "Price cannot be negative";
+    if (!(candidate.fees >= 0)) return "Fees cannot be negative";
+    if (isNaN(new Date(candidate.date).getTime())) return "Invalid trade date";
+
+    const trades = [...lots.filter(l => l.symbol === candidate.symbol), candidate].sort(byDate);
+    let held = 0;
+    for (const trade of trades) {
+        const quantity = trade.quantity / splitFactorAt(trade.date, splits);
+        held += trade.side === "buy" ? quantity : -quantity;
+        if (held < -EPSILON) return `Sell on ${trade.date} exceeds the ${trade.symbol} shares held`;
+    }
+    return null;
+}
+
+/** Dividend cash received: post-split shares held the day before each ex-date times the amount. */
+function dividendIncome(lots: Lot[], market: MarketSeries): number {
+    return market.dividends.reduce((sum, div) => {
+        const exDate = dayKey(div.date);
+        const held = sharesHeld(replayFifo(lots.filter(l => l.date < exDate), market.splits).openLots);
+        return sum + held * div.amount * splitFactorAt(div.date, market.splits);
+    }, 0);
+}
+
+/** FIFO position for one symbol. Without market data only cost-side figures are filled in. */
+export function buildPosition(symbol: string, lots: Lot[], market?: MarketSeries): Position {
+    const own = lots.filter(l => l.symbol === symbol);
+    const { openLots, closedLots, fees } = replayFifo(own, market?.splits || []);
+
+    const quantity = sharesHeld(openLots);
+    const costBasis = openCost(openLots);
+    const marketPrice = market ? market.currentPrice : null;
+    const marketValue = marketPrice !== null ? quantity * marketPrice : null;
+    const unrealized = marketValue !== null ? marketValue - costBasis : null;
+
+    return {
+        symbol,
+        // Until FX conversion exists, figures are in the currency the trades were entered in
+        currency: own[0]?.currency || market?.currency || "USD",
+        quantity,
+        costBasis,
+        marketPrice,
+        marketValue,
+        unrealized,
+        unrealizedPercent: unrealized !== null && costBasis > 0 ? (unrealized / costBasis) * 100 : null,
+        realized: closedLots.reduce((sum, c) => sum + c.realized, 0),
+        dividendIncome: market ? dividendIncome(own, market) : 0,
+        fees,
+        openLots,
+        closedLots
+    };
+}
+
+/** Per-currency sums over all positions (no FX conversion). */
+export function portfolioTotals(positions: Position[]): PortfolioTotals[] {
+    const totals = new Map<string, PortfolioTotals>();
+    positions.forEach((p) => {
+        const t = totals.get(p.currency) || { currency: p.currency, marketValue: 0, costBasis: 0, unrealized: 0, realized: 0, dividendIncome: 0 };
+        t.marketValue += p.marketValue ?? p.costBasis;
+        t.costBasis += p.costBasis;
+        t.unrealized += p.unrealized ?? 0;
+        t.realized += p.realized;
+        t.dividendIncome += p.dividendIncome;
+        totals.set(p.currency, t);
+    });
+    return Array.from(totals.values());
+}
+
+/**
+ * Per-currency totals summed into `base` at current FX rates (`rates` maps a
+ * currency to 1 unit in `base`). Currencies without a rate are left out and
+ * listed in `missing`.
+ */
+export function totalsInBase(totals: PortfolioTotals[], rates: Record<string, number>, base: string): { total: PortfolioTotals; missing: string[] } {
+    const total: PortfolioTotals = { currency: base, marketValue: 0, costBasis: 0, unrealized: 0, realized: 0, dividendIncome: 0 };
+    const missing: string[] = [];
+    totals.forEach((t) => {
+        const rate = t.currency === base ? 1 : rates[t.currency];
+        if (!rate) {
+            missing.push(t.currency);
+            return;
+        }
+        total.marketValue += t.marketValue * rate;
+        total.costBasis += t.costBasis * rate;
+        total.unrealized += t.unrealized * rate;
+        total.realized += t.realized * rate;
+        total.dividendIncome += t.dividendIncome * rate;
+    });
+    return { total, missing };
+}
+
+/**
+ * Daily market value and open cost basis of every position in `currency`,
+ * from the first trade onwards. Each symbol carries its last close forward
+ * over days it didn't trade (holidays on other exchanges).
+ */
+export function portfolioTimeline(lots: Lot[], markets: Record<string, MarketSeries>, currency: string): PortfolioPoint[] {
+    const symbols = Array.from(new Set(lots.filter(l => l.currency === currency).map(l => l.symbol)))
+        .filter(symbol => markets[symbol]);
+    if (symbols.length === 0) return [];
+
+    const firstTrade = lots.filter(l => symbols.includes(l.symbol)).map(l => l.date).sort()[0];
+
+    // Split-adjusted closes keyed by day
+    const closes = new Map(symbols.map((symbol) => {
+        const { history, splits } = markets[symbol];
+        return [symbol, new Map(history.map(bar => [dayKey(bar.date), bar.close * splitFactorAt(bar.date, splits)]))];
+    }));
+
+    const dates = Array.from(new Set(symbols.flatMap(symbol => Array.from(closes.get(symbol)!.keys()))))
+        .filter(date => date >= firstTrade)
+        .sort();
+
+    const lastClose = new Map<string, number>();
+    return dates.map((date) => {
+        let value = 0;
+        let costBasis = 0;
+        symbols.forEach((symbol) => {
+            const close = closes.get(symbol)!.get(date);
+            if (close !== undefined) lastClose.set(symbol, close);
+
+            const own = lots.filter(l => l.symbol === symbol && l.date <= date);
+            const { openLots } = replayFifo(own, markets[symbol].splits);
+            const price = lastClose.get(symbol);
+            // Before the first close is known, value the holding at cost
+            value += price !== undefined ? sharesHeld(openLots) * price : openCost(openLots);
+            costBasis += openCost(openLots);
+        });
+        return { date, value, costBasis };
+    });
+}
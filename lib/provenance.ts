@@ -0,0 +1,27 @@
+// Where a displayed value came from and how much to trust it.
+// Shared by the API routes (which set it) and the UI badges.
+
+export type ProvenanceStatus =
+    | "live"       // fetched from the source for this response
+    | "cached"     // from a cache or recording that is still within its freshness window
+    | "stale"      // last known value, served because the source failed
+    | "estimated"  // produced by an LLM or other inference, not published data
+    | "default";   // placeholder; no data was available
+
+export interface Provenance {
+    source: string;
+    url?: string;
+    // When the value was true at the source (trading day or quote time); null if unknown
+    asOf: string | null;
+    status: ProvenanceStatus;
+}
+
+export const PROVENANCE_LABELS: Record<ProvenanceStatus, string> = {
+    live: "Live",
+    cached: "Cached",
+    stale: "Stale",
+    estimated: "Estimated",
+    default: "Default",
+};
+
+export const defaultProvenance = (source = "No data"): Provenance => ({ source, asOf: null, status: "default" });
@@ -0,0 +1,49 @@
+import path from 'path';
+import type { CacheStatus } from "../cache";
+import type { Provenance } from "../provenance";
+import { LocalProvider } from "./local";
+import { YahooProvider } from "./yahoo";
+import type { MarketDataProvider } from "./types";
+
+export type * from "./types";
+
+const PROVIDER_LABELS: Record<string, string> = { yahoo: "Yahoo Finance", local: "Recorded fixtures" };
+
+const DEFAULT_FIXTURES_DIR = path.resolve(process.cwd(), 'fixtures/market-data');
+
+let provider: MarketDataProvider | null = null;
+
+/**
+ * Returns the process-wide market data provider.
+ *
+ * MARKET_DATA_PROVIDER=yahoo (default) | local
+ * MARKET_DATA_FIXTURES=<dir>  fixture directory for the local provider
+ */
+export function getMarketDataProvider(): MarketDataProvider {
+    if (provider) return provider;
+
+    const kind = (process.env.MARKET_DATA_PROVIDER || "yahoo").toLowerCase();
+    switch (kind) {
+        case "local":
+            provider = new LocalProvider(process.env.MARKET_DATA_FIXTURES
+                ? path.resolve(process.env.MARKET_DATA_FIXTURES)
+                : DEFAULT_FIXTURES_DIR);
+            break;
+        case "yahoo":
+            provider = new YahooProvider();
+            break;
+        default:
+            throw new Error(`Unknown MARKET_DATA_PROVIDER "${kind}" (expected "yahoo" or "local")`);
+    }
+    return provider;
+}
+
+/**
+ * Provenance for values read from the active provider, given how lib/cache
+ * served them; recorded fixtures count as cached.
+ */
+export function providerProvenance(asOf: string | null, cacheStatus: CacheStatus = "live"): Provenance {
+    const { name } = getMarketDataProvider();
+    const status = cacheStatus === "live" && name === "local" ? "cached" : cacheStatus;
+    return { source: PROVIDER_LABELS[name] || name, asOf, status };
+}
@@ -0,0 +1,131 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { BarInterval, DateRange, DividendEvent, HistoryBar, MarketDataProvider, Quote, SplitEvent, SymbolMatch } from "./types";
+
+// On-disk format of a recorded symbol. Dates are ISO strings.
+interface SymbolFixture {
+    quote: Quote;
+    exchange?: string;
+    type?: string;
+    history: (Omit<HistoryBar, "date"> & { date: string })[];
+    // 5-minute bars for the most recent sessions, if recorded
+    intraday?: (Omit<HistoryBar, "date"> & { date: string })[];
+    dividends?: { date: string; amount: number }[];
+    splits?: { date: string; numerator: number; denominator: number }[];
+}
+
+// "^VIX" -> "_VIX.json", "005930.KS" -> "005930.KS.json"
+export const fixtureFileName = (symbol: string) => `${symbol.replace(/[^A-Za-z0-9.-]/g, "_")}.json`;
+
+const inRange = (date: Date, { period1, period2 }: DateRange) => date >= period1 && date <= period2;
+
+const MINUTE = 60 * 1000;
+
+// Bucket start for coarser bars built from the recorded ones
+const bucketStart: Record<BarInterval, (date: Date) => number> = {
+    '5m': (date) => Math.floor(date.getTime() / (5 * MINUTE)) * 5 * MINUTE,
+    '15m': (date) => Math.floor(date.getTime() / (15 * MINUTE)) * 15 * MINUTE,
+    '1d': (date) => date.getTime(),
+    // Monday of the bar's week (UTC)
+    '1wk': (date) => {
+        const monday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+        monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+        return monday.getTime();
+    }
+};
+
+/** Merges consecutive bars sharing a bucket into one OHLCV bar dated at its first bar. */
+function aggregate(bars: HistoryBar[], interval: BarInterval): HistoryBar[] {
+    const result: HistoryBar[] = [];
+    let currentKey: number | null = null;
+    for (const bar of bars) {
+        const key = bucketStart[interval](bar.date);
+        const last = result[result.length - 1];
+        if (key !== currentKey || !last) {
+            result.push({ ...bar });
+            currentKey = key;
+        } else {
+            last.high = Math.max(last.high, bar.high);
+            last.low = Math.min(last.low, bar.low);
+            last.close = bar.close;
+            last.adjClose = bar.adjClose;
+            last.volume += bar.volume;
+        }
+    }
+    return result;
+}
+
+/**
+ * Serves quotes, history and dividends from recorded JSON files so the API
+ * routes can run without network access (tests, sandbox, demos).
+ */
+export class LocalProvider implements MarketDataProvider {
+    readonly name = "local";
+
+    constructor(private readonly dir: string) { }
+
+    private async load(symbol: string): Promise<SymbolFixture> {
+        const file = path.join(this.dir, fixtureFileName(symbol));
+        try {
+            return JSON.parse(await fs.readFile(file, 'utf8'));
+        } catch {
+            throw new Error(`No local fixture for symbol "${symbol}" (${file})`);
+        }
+    }
+
+    private async loadAll(): Promise<SymbolFixture[]> {
+        const files = (await fs.readdir(this.dir)).filter((f) => f.endsWith(".json"));
+        return Promise.all(files.map(async (f) => JSON.parse(await fs.readFile(path.join(this.dir, f), 'utf8'))));
+    }
+
+    async search(query: string): Promise<SymbolMatch[]> {
+        const q = query.trim().toLowerCase();
+        if (!q) return [];
+
+        const fixtures = await this.loadAll();
+        return fixtures
+            .filter(({ quote }) =>
+                quote.symbol.toLowerCase() === q ||
+                quote.symbol.toLowerCase().startsWith(q) ||
+                (quote.shortName || quote.longName || "").toLowerCase().includes(q) ||
+                (quote.localName || "").toLowerCase().includes(q))
+            // Exact symbol hits first, like Yahoo's own ranking
+            .sort((a, b) => Number(b.quote.symbol.toLowerCase() === q) - Number(a.quote.symbol.toLowerCase() === q))
+            .map(({ quote, exchange, type }) => ({
+                symbol: quote.symbol,
+                name: quote.shortName || quote.longName,
+                exchange,
+                type,
+                currency: quote.currency
+            }));
+    }
+
+    async quote(symbol: string): Promise<Quote> {
+        return (await this.load(symbol)).quote;
+    }
+
+    async history(symbol: string, range: DateRange, interval: BarInterval): Promise<HistoryBar[]> {
+        const fixture = await this.load(symbol);
+        const intraday = interval === '5m' || interval === '15m';
+        const recorded = intraday ? fixture.intraday || [] : fixture.history;
+
+        const bars = recorded
+            .map((bar) => ({ ...bar, date: new Date(bar.date) }))
+            .filter((bar) => inRange(bar.date, range));
+        return interval === '5m' || interval === '1d' ? bars : aggregate(bars, interval);
+    }
+
+    async dividends(symbol: string, range: DateRange): Promise<DividendEvent[]> {
+        const { dividends = [] } = await this.load(symbol);
+        return dividends
+            .map((div) => ({ date: new Date(div.date), amount: div.amount }))
+            .filter((div) => inRange(div.date, range));
+    }
+
+    async splits(symbol: string, range: DateRange): Promise<SplitEvent[]> {
+        const { splits = [] } = await this.load(symbol);
+        return splits
+            .map((split) => ({ ...split, date: new Date(split.date) }))
+            .filter((split) => inRange(split.date, range));
+    }
+}
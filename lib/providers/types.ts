@@ -0,0 +1,71 @@
+import type { BarInterval } from "../ranges";
+
+export type { BarInterval };
+
+// Provider-neutral shapes for upstream market data.
+// Routes talk to a MarketDataProvider instead of a concrete client so the
+// source can be swapped (Yahoo in production, recorded fixtures offline).
+
+export interface SymbolMatch {
+    symbol: string;
+    name?: string;
+    exchange?: string;
+    type?: string;
+    currency?: string; // when the source reports it
+}
+
+export interface Quote {
+    symbol: string;
+    shortName?: string;
+    longName?: string;
+    // Name in the listing's home-market language (e.g. Korean for KRX), if the source has one
+    localName?: string;
+    currency?: string;
+    regularMarketPrice?: number;
+    regularMarketChange?: number;
+    regularMarketChangePercent?: number;
+    trailingPE?: number;
+    forwardPE?: number;
+    dividendYield?: number;
+    // Time of the last trade the price reflects
+    regularMarketTime?: Date;
+}
+
+// Prices and volume as traded; split/dividend adjustment happens downstream
+// (see lib/adjustments.ts) using the split and dividend events. Providers whose
+// source back-adjusts for splits must undo that, or it would be applied twice.
+export interface HistoryBar {
+    date: Date;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    adjClose?: number;
+    volume: number;
+}
+
+export interface DividendEvent {
+    date: Date;
+    amount: number;
+}
+
+// A numerator:denominator split, e.g. 4:1 means each share became four
+export interface SplitEvent {
+    date: Date;
+    numerator: number;
+    denominator: number;
+}
+
+export interface DateRange {
+    period1: Date;
+    period2: Date;
+}
+
+export interface MarketDataProvider {
+    readonly name: string;
+    search(query: string): Promise<SymbolMatch[]>;
+    quote(symbol: string): Promise<Quote>;
+    history(symbol: string, range: DateRange, interval: BarInterval): Promise<HistoryBar[]>;
+    dividends(symbol: string, range: DateRange): Promise<DividendEvent[]>;
+    splits(symbol: string, range: DateRange): Promise<SplitEvent[]>;
+}
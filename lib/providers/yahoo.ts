@@ -0,0 +1,110 @@
+import yahooFinance from 'yahoo-finance2';
+import { splitFactorAt, type SplitPoint } from "../adjustments";
+import type { BarInterval, DateRange, DividendEvent, HistoryBar, MarketDataProvider, Quote, SplitEvent, SymbolMatch } from "./types";
+
+export class YahooProvider implements MarketDataProvider {
+    readonly name = "yahoo";
+    private yf = new yahooFinance();
+
+    async search(query: string): Promise<SymbolMatch[]> {
+        const result = await this.yf.search(query);
+        return result.quotes
+            .filter((q) => typeof q.symbol === "string")
+            .map((q) => ({
+                symbol: q.symbol as string,
+                name: (q.shortname || q.longname) as string | undefined,
+                exchange: q.exchange as string | undefined,
+                type: q.quoteType as string | undefined
+            }));
+    }
+
+    async quote(symbol: string): Promise<Quote> {
+        const quote = await this.yf.quote(symbol);
+        return {
+            symbol: quote.symbol,
+            shortName: quote.shortName,
+            longName: quote.longName,
+            currency: quote.currency,
+            regularMarketPrice: quote.regularMarketPrice,
+            regularMarketChange: quote.regularMarketChange,
+            regularMarketChangePercent: quote.regularMarketChangePercent,
+            trailingPE: "trailingPE" in quote ? quote.trailingPE : undefined,
+            forwardPE: "forwardPE" in quote ? quote.forwardPE : undefined,
+            dividendYield: "dividendYield" in quote ? quote.dividendYield : undefined,
+            regularMarketTime: quote.regularMarketTime
+        };
+    }
+
+    // Yahoo back-adjusts bars and dividends for every split up to today, including
+    // splits after the requested range; these are the splits to undo that with
+    private async splitsSince(symbol: string, since: Date): Promise<SplitPoint[]> {
+        const splits = await this.splits(symbol, { period1: since, period2: new Date() });
+        return splits.map((split) => ({ ...split, date: split.date.toISOString() }));
+    }
+
+    // As-traded bar from a split-adjusted one
+    private static unadjust(bar: HistoryBar, splits: SplitPoint[]): HistoryBar {
+        const factor = splitFactorAt(bar.date.toISOString(), splits);
+        if (factor === 1) return bar;
+        return {
+            ...bar,
+            open: bar.open / factor,
+            high: bar.high / factor,
+            low: bar.low / factor,
+            close: bar.close / factor,
+            volume: Math.round(bar.volume * factor)
+        };
+    }
+
+    async history(symbol: string, range: DateRange, interval: BarInterval): Promise<HistoryBar[]> {
+        const [bars, splits] = await Promise.all([this.adjustedHistory(symbol, range, interval), this.splitsSince(symbol, range.period1)]);
+        return bars.map((bar) => YahooProvider.unadjust(bar, splits));
+    }
+
+    private async adjustedHistory(symbol: string, { period1, period2 }: DateRange, interval: BarInterval): Promise<HistoryBar[]> {
+        if (interval === '1d' || interval === '1wk') {
+            const rows = await this.yf.historical(symbol, { period1, period2, interval });
+            return rows.map((row) => ({
+                date: row.date,
+                open: row.open,
+                high: row.high,
+                low: row.low,
+                close: row.close,
+                adjClose: row.adjClose,
+                volume: row.volume
+            }));
+        }
+
+        // historical() only does daily and coarser; intraday bars come from chart()
+        const chart = await this.yf.chart(symbol, { period1, period2, interval, return: 'array' });
+        return chart.quotes
+            .filter((row) => row.open !== null && row.high !== null && row.low !== null && row.close !== null)
+            .map((row) => ({
+                date: row.date,
+                open: row.open as number,
+                high: row.high as number,
+                low: row.low as number,
+                close: row.close as number,
+                adjClose: row.adjclose ?? undefined,
+                volume: row.volume ?? 0
+            }));
+    }
+
+    async dividends(symbol: string, { period1, period2 }: DateRange): Promise<DividendEvent[]> {
+        const [rows, splits] = await Promise.all([
+            this.yf.historical(symbol, { period1, period2, interval: '1d', events: 'dividends' }),
+            this.splitsSince(symbol, period1)
+        ]);
+        // Amounts are per split-adjusted share, like the bars; restate them per share held at the time
+        return rows.map((row) => ({ date: row.date, amount: row.dividends / splitFactorAt(row.date.toISOString(), splits) }));
+    }
+
+    async splits(symbol: string, { period1, period2 }: DateRange): Promise<SplitEvent[]> {
+        const rows = await this.yf.historical(symbol, { period1, period2, interval: '1d', events: 'split' });
+        // Yahoo reports ratios as "numerator:denominator", e.g. "4:1"
+        return rows.flatMap((row) => {
+            const [numerator, denominator] = row.stockSplits.split(":").map(Number);
+            return numerator > 0 && denominator > 0 ? [{ date: row.date, numerator, denominator }] : [];
+        });
+    }
+}
@@ -0,0 +1,122 @@
+// Time range presets and bar-size selection shared by /api/stock and the UI.
+
+export type BarInterval = '5m' | '15m' | '1d' | '1wk';
+
+export const RANGE_PRESETS = ['1d', '5d', 'ytd', '1y', '2y', '3y', '5y', '10y', 'max'] as const;
+export type RangePreset = typeof RANGE_PRESETS[number];
+export type RangeKey = RangePreset | 'custom';
+
+export interface CustomRange {
+    start: string; // YYYY-MM-DD
+    end: string;   // YYYY-MM-DD
+}
+
+export interface ResolvedRange {
+    period1: Date;
+    period2: Date;
+    interval: BarInterval;
+    // Intraday presets ask for a few extra calendar days (weekends, holidays)
+    // and then keep only the last N sessions.
+    sessions?: number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Yahoo only serves 5m/15m bars for roughly the last 60 days
+const INTRADAY_LOOKBACK_DAYS = 60;
+
+/** Picks the bar size for an arbitrary window: intraday for short recent spans, weekly for decades. */
+export function intervalForSpan(period1: Date, period2: Date, now = new Date()): BarInterval {
+    const spanDays = (period2.getTime() - period1.getTime()) / DAY;
+    const recent = (now.getTime() - period1.getTime()) / DAY <= INTRADAY_LOOKBACK_DAYS;
+
+    if (recent && spanDays <= 2) return '5m';
+    if (recent && spanDays <= 10) return '15m';
+    if (spanDays > 20 * 365) return '1wk';
+    return '1d';
+}
+
+export function resolveRange(range: string, custom?: Partial<CustomRange>, now = new Date()): ResolvedRange {
+    const period2 = new Date(now);
+    const period1 = new Date(now);
+
+    switch (range) {
+        case '1d':
+            period1.setTime(now.getTime() - 5 * DAY);
+            return { period1, period2, interval: '5m', sessions: 1 };
+        case '5d':
+            period1.setTime(now.getTime() - 10 * DAY);
+            return { period1, period2, interval: '15m', sessions: 5 };
+        case 'ytd':
+            period1.setMonth(0, 1);
+            period1.setHours(0, 0, 0, 0);
+            return { period1, period2, interval: '1d' };
+        case 'max':
+            return { period1: new Date('1970-01-01'), period2, interval: '1wk' };
+        case 'custom': {
+            const start = custom?.start ? new Date(custom.start) : null;
+            const end = custom?.end ? new Date(custom.end) : period2;
+            if (!start || isNaN(start.getTime()) || isNaN(end.getTime()) || start >= end) {
+                throw new Error("Custom range needs a valid start date before the end date");
+            }
+            // Make the end date inclusive
+            const inclusiveEnd = new Date(Math.min(end.getTime() + DAY, now.getTime()));
+            return { period1: start, period2: inclusiveEnd, interval: intervalForSpan(start, inclusiveEnd, now) };
+        }
+        case '2y':
+        case '3y':
+        case '5y':
+        case '10y':
+            period1.setFullYear(now.getFullYear() - parseInt(range));
+            return { period1, period2, interval: '1d' };
+        case '1y':
+        default:
+            period1.setFullYear(now.getFullYear() - 1);
+            return { period1, period2, interval: '1d' };
+    }
+}
+
+/** Keeps only the bars belonging to the last `sessions` distinct trading days. */
+export function lastSessions<T extends { date: Date }>(bars: T[], sessions: number): T[] {
+    const days = Array.from(new Set(bars.map((bar) => bar.date.toISOString().split('T')[0])));
+    const keep = new Set(days.slice(-sessions));
+    return bars.filter((bar) => keep.has(bar.date.toISOString().split('T')[0]));
+}
+
+export const isIntraday = (interval: BarInterval) => interval === '5m' || interval === '15m';
+
+/** Human label for one bar, used in chart titles ("Daily Change %", "15m Change %"). */
+export function barLabel(interval: BarInterval): string {
+    switch (interval) {
+        case '5m': return "5-Minute";
+        case '15m': return "15-Minute";
+        case '1wk': return "Weekly";
+        case '1d':
+        default:
+            return "Daily";
+    }
+}
+
+/**
+ * Bars in the rolling volatility (SD) window: about a month of daily bars, a
+ * quarter of weekly bars, one regular session of intraday bars.
+ */
+export function rollingWindow(interval: BarInterval): number {
+    switch (interval) {
+        case '5m': return 78;
+        case '15m': return 26;
+        case '1wk': return 13;
+        case '1d':
+        default:
+            return 20;
+    }
+}
+
+/** Human label for an N-bar rolling window ("20-Day", "20-Week", "20 × 5m"). */
+export function windowLabel(period: number, interval: BarInterval): string {
+    switch (interval) {
+        case '1d': return `${period}-Day`;
+        case '1wk': return `${period}-Week`;
+        default: return `${period} × ${interval}`;
+    }
+}
@@ -0,0 +1,5 @@
+// Cadence for polling quotes and market data (page auto-refresh, watchlists)
+export const AUTO_REFRESH_MS = 10 * 60 * 1000; // 10 minutes
+
+// The alert log is cheap to read, so browser notifications poll it more often
+export const ALERT_POLL_MS = 60 * 1000; // 1 minute
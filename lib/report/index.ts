@@ -0,0 +1,185 @@
+// Printable research report for one symbol (GET /api/report): the dashboard's
+// header and Key Statistics, price/Bollinger, volatility and distribution
+// charts as inline SVG images, both simulation summaries and the market cards
+// as of generation time, in one self-contained HTML file. Rendering is pure
+// (fixed locale, generation time passed in), so equal input gives equal output.
+
+import type { MarketData } from "@/components/MarketStatus";
+import type { StockData } from "@/components/StockDashboard";
+import { priceSeries, type PriceBasis } from "../adjustments";
+import { bollingerBands, distributionBinSize, returnDistribution, rollingStdDev, SIGMA_ZONE_LABELS, type SigmaZone } from "../analytics";
+import { monthlyDcaPreset, runBacktest, volatilityPreset, type BacktestResult, type BacktestSeries } from "../backtest";
+import { DEFAULT_ZONES } from "../dashboardUrl";
+import { calendarForSymbol } from "../exchanges";
+import { formatMoney } from "../format";
+import type { ReconciledValue } from "../fundamentals";
+import { performanceMetrics } from "../performance";
+import { PROVENANCE_LABELS, type Provenance } from "../provenance";
+import { rollingWindow, windowLabel } from "../ranges";
+import { escapeXml as escapeHtml, histogramSvg, lineChartSvg, svgDataUri } from "./svg";
+
+export interface ReportInput {
+    stock: StockData;
+    market: MarketData | null; // null when the market snapshot could not be loaded
+    generatedAt: Date;
+    basis?: PriceBasis;
+    zones?: SigmaZone[];
+}
+
+const LOCALE = "en-US";
+
+const fixed = (value: number, digits = 2) => value.toLocaleString(LOCALE, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+const signed = (value: number, digits = 2) => `${value >= 0 ? "+" : ""}${fixed(value, digits)}`;
+const tone = (value: number) => value >= 0 ? "up" : "down";
+
+function provenanceText(provenance: Provenance | null): string {
+    if (!provenance) return "";
+    const asOf = provenance.asOf ? ` · ${provenance.asOf.slice(0, 10)}` : "";
+    return `<span class="source">${PROVENANCE_LABELS[provenance.status]} · ${escapeHtml(provenance.source)}${asOf}</span>`;
+}
+
+const card = (label: string, value: string, note = "") =>
+    `<div class="card"><div class="label">${label}</div><div class="value">${value}</div>${note}</div>`;
+
+const chart = (title: string, markup: string, caption = "") =>
+    `<figure><figcaption>${title}</figcaption><img alt="${escapeHtml(title)}" src="${svgDataUri(markup)}"/>${caption ? `<p class="caption">${caption}</p>` : ""}</figure>`;
+
+// Gemini's value next to a Key Statistics card, as on the dashboard
+function geminiNote(check: ReconciledValue | undefined, provenance: Provenance | null, unit = ""): string {
+    if (!check || check.status === "missing") return "";
+    const divergence = check.divergence !== null ? `${signed(check.divergence, 1)}% vs quote` : "";
+    const text = check.status === "suppressed"
+        ? `Gemini: suppressed (${divergence})`
+        : `Gemini: ${fixed(check.value!)}${unit} ${check.status === "unverified" ? "(no quote to check)" : `(${divergence})`}${check.status === "flagged" ? " ⚠" : ""}`;
+    return `<div class="note">${text} ${provenanceText(provenance)}</div>`;
+}
+
+function simulationSection(title: string, strategy: string, result: BacktestResult | null, money: (v: number, digits?: number) => string, interval: StockData["interval"]): string {
+    if (!result) return `<section><h2>${title}</h2><p class="muted">Not enough history to simulate.</p></section>`;
+    const metrics = performanceMetrics(result.history, { interval: interval || "1d" });
+    return `<section><h2>${title}</h2><p class="muted">${strategy}</p><div class="grid four">${[
+        card("Total Buys", String(result.totalBuys)),
+        card("Total Invested", money(result.totalInvested)),
+        card("Avg Buy Price", money(result.avgPrice, 2)),
+        card("Total Dividends", money(result.totalDividends, 2)),
+        card("Current Value", money(result.currentValue, 0)),
+        card("Total Return", `<span class="${tone(result.totalReturn)}">${signed(result.totalReturn)}%</span>`),
+        card("CAGR", metrics.cagr === null ? "N/A" : `${signed(metrics.cagr)}%`),
+        card("Max Drawdown", `-${fixed(metrics.maxDrawdown)}%`),
+    ].join("")}</div></section>`;
+}
+
+function marketSection(market: MarketData | null): string {
+    if (!market) return `<section><h2>Market Snapshot</h2><p class="muted">Market data was unavailable when this report was generated.</p></section>`;
+    const { vix, indices, metrics } = market;
+    const rows: [string, string, string, Provenance][] = [
+        ["VIX", fixed(vix.current), vix.date?.slice(0, 10) ?? "", vix.provenance],
+        ["Fear &amp; Greed", metrics.fearGreed.current === null ? "N/A" : `${metrics.fearGreed.current} (${signed(metrics.fearGreed.change, 0)})`, metrics.fearGreed.date?.slice(0, 10) ?? "", metrics.fearGreed.provenance],
+        ["GEX", metrics.gex.current === null ? "N/A" : `$${fixed(metrics.gex.current, 1)} B (${signed(metrics.gex.change, 1)})`, metrics.gex.date?.slice(0, 10) ?? "", metrics.gex.provenance],
+        ["DIX", metrics.dix.current === null ? "N/A" : `${fixed(metrics.dix.current, 1)}% (${signed(metrics.dix.change, 1)})`, metrics.dix.date?.slice(0, 10) ?? "", metrics.dix.provenance],
+        ...([["KOSPI", indices.kospi], ["KOSDAQ", indices.kosdaq]] as const).map(([label, index]): [string, string, string, Provenance] => [
+            label,
+            index.current === null ? "N/A" : `${fixed(index.current)} (${signed(index.changePercent)}%)`,
+            index.date ?? "",
+            index.provenance
+        ])
+    ];
+    return `<section><h2>Market Snapshot</h2><table><thead><tr><th>Gauge</th><th>Value</th><th>As of</th><th>Source</th></tr></thead><tbody>${rows.map(([label, value, date, provenance]) =>
+        `<tr><td>${label}</td><td>${value}</td><td>${date}</td><td>${provenanceText(provenance)}</td></tr>`).join("")}</tbody></table></section>`;
+}
+
+const STYLES = `
+@page { size: A4; margin: 12mm; }
+* { box-sizing: border-box; }
+body { font-family: Helvetica, Arial, sans-serif; color: #111827; margin: 0 auto; max-width: 760px; padding: 24px; font-size: 13px; }
+h1 { font-size: 28px; margin: 0; }
+h2 { font-size: 16px; margin: 0 0 8px; border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; }
+section, figure { break-inside: avoid; margin: 0 0 20px; }
+figure img { width: 100%; height: auto; }
+figcaption { font-weight: bold; margin-bottom: 4px; }
+header { display: flex; justify-content: space-between; align-items: flex-end; margin-bottom: 20px; }
+.price { font-size: 28px; font-weight: bold; text-align: right; }
+.grid { display: grid; gap: 8px; }
+.grid.three { grid-template-columns: repeat(3, 1fr); }
+.grid.four { grid-template-columns: repeat(4, 1fr); }
+.card { border: 1px solid #e5e7eb; border-radius: 8px; padding: 8px; }
+.label { color: #6b7280; font-size: 11px; text-transform: uppercase; letter-spacing: 0.04em; }
+.value { font-size: 18px; font-weight: bold; }
+.note, .caption, .muted, .source { color: #6b7280; font-size: 11px; }
+.up { color: #15803d; }
+.down { color: #b91c1c; }
+table { width: 100%; border-collapse: collapse; }
+th, td { text-align: left; padding: 4px 6px; border-bottom: 1px solid #f3f4f6; }
+footer { color: #9ca3af; font-size: 11px; border-top: 1px solid #e5e7eb; padding-top: 8px; }
+`;
+
+export function renderReport({ stock, market, generatedAt, basis = "adjusted", zones = DEFAULT_ZONES }: ReportInput): string {
+    const interval = stock.interval || "1d";
+    const money = (value: number, digits?: number) => formatMoney(value, stock.currency, digits, LOCALE);
+
+    const series = priceSeries(stock.history || [], stock.splits || [], stock.dividends || [], basis);
+    const dates = series.history.map(bar => bar.date);
+    const bands = bollingerBands(series.history.map(bar => bar.close), 20, 2);
+    const sdWindow = rollingWindow(interval);
+    const rollingSD = rollingStdDev(series.changes, sdWindow);
+    const distribution = returnDistribution(series.history.length < 2 ? [] : series.changes.slice(1), distributionBinSize(interval));
+
+    const backtestSeries: BacktestSeries = { bars: series.history, changes: series.changes, dividends: series.dividends, calendar: calendarForSymbol(stock.symbol) };
+    const hasSeries = series.history.length > 0;
+    const volatility = hasSeries && distribution.sd ? runBacktest(backtestSeries, volatilityPreset(zones, "reinvest"), stock.currentPrice) : null;
+    const dca = hasSeries ? runBacktest(backtestSeries, monthlyDcaPreset(), stock.currentPrice) : null;
+
+    const within = (count: number) => distribution.totalDays ? fixed((count / distribution.totalDays) * 100, 1) : "0.0";
+    const title = `${stock.symbol}${stock.localName ? ` ${stock.localName}` : ""} — ${stock.name}`;
+    const zoneText = zones.length ? zones.map(z => SIGMA_ZONE_LABELS[z]).join(", ") : "none";
+
+    const body = [
+        `<header><div><h1>${escapeHtml(stock.symbol)}</h1><div>${stock.localName ? `${escapeHtml(stock.localName)} · ` : ""}${escapeHtml(stock.name)}</div>`,
+        `<div class="muted">${escapeHtml(stock.range ?? "")} · ${interval} bars · ${basis} prices · ${escapeHtml(stock.currency)}</div></div>`,
+        `<div><div class="price">${money(stock.currentPrice)}</div>`,
+        `<div class="${tone(stock.change)}" style="text-align:right">${signed(stock.change)} (${signed(stock.changePercent)}%)</div>`,
+        `<div style="text-align:right">${provenanceText(stock.provenance.quote)}</div></div></header>`,
+
+        `<section><h2>Key Statistics</h2><div class="grid three">${[
+            card("TTM PER", stock.trailingPE ? fixed(stock.trailingPE) : "N/A", geminiNote(stock.geminiMetrics?.trailingPE, stock.provenance.geminiMetrics)),
+            card("Forward PER", stock.forwardPE ? fixed(stock.forwardPE) : "N/A", geminiNote(stock.geminiMetrics?.forwardPE, stock.provenance.geminiMetrics)),
+            card("Dividend Yield", stock.dividendYield ? `${fixed(stock.dividendYield)}%` : "N/A",
+                `${geminiNote(stock.geminiMetrics?.dividendYield, stock.provenance.geminiMetrics, "%")}${stock.dividendYield ? `<div class="note">${provenanceText(stock.provenance.dividendYield)}</div>` : ""}`),
+        ].join("")}</div></section>`,
+
+        chart("Price with Bollinger Bands (20, 2σ)", lineChartSvg({
+            dates,
+            formatValue: v => money(v, v >= 1000 ? 0 : 2),
+            series: [
+                { label: "Close", values: series.history.map(bar => bar.close), color: "#2563eb" },
+                { label: "SMA 20", values: bands.map(b => b.middle), color: "#f59e0b" },
+                { label: "Upper band", values: bands.map(b => b.upper), color: "#9ca3af", dashed: true },
+                { label: "Lower band", values: bands.map(b => b.lower), color: "#9ca3af", dashed: true },
+            ]
+        }), provenanceText(stock.provenance.history)),
+
+        chart(`Volatility (${windowLabel(sdWindow, interval)} rolling SD of % change)`, lineChartSvg({
+            dates,
+            formatValue: v => `${fixed(v)}%`,
+            // The first bars have no full window yet
+            series: [{ label: "Rolling SD", values: rollingSD.map((v, i) => i < sdWindow ? null : v), color: "#7c3aed" }]
+        })),
+
+        chart("Return Distribution", histogramSvg({ bins: distribution.data, binSize: distribution.binSize, mean: distribution.mean, sd: distribution.sd }),
+            `Mean ${fixed(distribution.mean, 3)}% · SD ${fixed(distribution.sd, 3)}% · within ±1σ ${within(distribution.count1Sigma)}% · within ±2σ ${within(distribution.count2Sigma)}% of ${distribution.totalDays} bars`),
+
+        simulationSection("Volatility Trading Simulation", `Buy 1 share on bars whose change falls in: ${zoneText}, measured against the returns before each bar; dividends reinvested.`, volatility, money, interval),
+        simulationSection("Monthly DCA Simulation", "Buy 1 share on the first trading day of each month; dividends reinvested.", dca, money, interval),
+
+        marketSection(market),
+
+        `<footer>Generated ${generatedAt.toISOString()} · Values as of the sources shown · ${escapeHtml(stock.symbol)} ${escapeHtml(stock.range ?? "")}</footer>`,
+    ].join("\n");
+
+    return `<!DOCTYPE html>
+<html lang="en"><head><meta charset="utf-8"/><title>${escapeHtml(title)} report</title><style>${STYLES}</style></head>
+<body>
+${body}
+</body></html>
+`;
+}
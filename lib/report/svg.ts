@@ -0,0 +1,146 @@
+// Static SVG charts for the report: no browser, no chart library, and the
+// same input always gives the same markup (coordinates rounded to 0.1px).
+
+export interface LineSeries {
+    label: string;
+    values: (number | null)[];
+    color: string;
+    dashed?: boolean;
+}
+
+export interface LineChartInput {
+    dates: string[]; // ISO, one per value
+    series: LineSeries[];
+    formatValue: (value: number) => string;
+    width?: number;
+    height?: number;
+}
+
+export interface HistogramInput {
+    bins: { bin: number; count: number }[];
+    binSize: number;
+    mean: number;
+    sd: number;
+    width?: number;
+    height?: number;
+}
+
+const MAX_POINTS = 500;
+const PADDING = { top: 16, right: 16, bottom: 40, left: 64 };
+const FONT = `font-family="Helvetica, Arial, sans-serif" font-size="11"`;
+
+const r = (n: number) => Math.round(n * 10) / 10;
+
+export const escapeXml = (text: string) =>
+    text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const svg = (width: number, height: number, body: string) =>
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">${body}</svg>`;
+
+/** An <img>-ready data URI, so the report stays a single file. */
+export const svgDataUri = (markup: string) => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`;
+
+// Every step-th index (plus the last), like the dashboard's chart downsampling
+function sampleIndexes(length: number): number[] {
+    const step = Math.max(1, Math.ceil(length / MAX_POINTS));
+    const indexes: number[] = [];
+    for (let i = 0; i < length; i += step) indexes.push(i);
+    if (length > 0 && indexes[indexes.length - 1] !== length - 1) indexes.push(length - 1);
+    return indexes;
+}
+
+function niceTicks(min: number, max: number, count = 4): number[] {
+    if (min === max) return [min];
+    return Array.from({ length: count + 1 }, (_, i) => min + ((max - min) * i) / count);
+}
+
+export function lineChartSvg({ dates, series, formatValue, width = 720, height = 260 }: LineChartInput): string {
+    const plotWidth = width - PADDING.left - PADDING.right;
+    const plotHeight = height - PADDING.top - PADDING.bottom;
+    const indexes = sampleIndexes(dates.length);
+
+    const finite = series.flatMap(s => indexes.map(i => s.values[i])).filter((v): v is number => v !== null && Number.isFinite(v));
+    if (finite.length === 0) {
+        return svg(width, height, `<text x="${width / 2}" y="${height / 2}" text-anchor="middle" fill="#6b7280" ${FONT}>No data</text>`);
+    }
+    let min = Math.min(...finite);
+    let max = Math.max(...finite);
+    if (min === max) {
+        min -= 1;
+        max += 1;
+    }
+
+    const x = (i: number) => r(PADDING.left + (dates.length > 1 ? (i / (dates.length - 1)) * plotWidth : plotWidth / 2));
+    const y = (v: number) => r(PADDING.top + (1 - (v - min) / (max - min)) * plotHeight);
+
+    const grid = niceTicks(min, max).map(tick =>
+        `<line x1="${PADDING.left}" x2="${width - PADDING.right}" y1="${y(tick)}" y2="${y(tick)}" stroke="#e5e7eb"/>` +
+        `<text x="${PADDING.left - 6}" y="${y(tick) + 4}" text-anchor="end" fill="#6b7280" ${FONT}>${escapeXml(formatValue(tick))}</text>`
+    ).join("");
+
+    const xLabels = [0, Math.floor((dates.length - 1) / 2), dates.length - 1]
+        .filter((i, k, all) => all.indexOf(i) === k)
+        .map(i => `<text x="${x(i)}" y="${height - PADDING.bottom + 16}" text-anchor="middle" fill="#6b7280" ${FONT}>${dates[i].slice(0, 10)}</text>`)
+        .join("");
+
+    const paths = series.map((s) => {
+        // A gap (null) starts a new segment
+        let d = "";
+        let pen = false;
+        indexes.forEach((i) => {
+            const v = s.values[i];
+            if (v === null || !Number.isFinite(v)) {
+                pen = false;
+                return;
+            }
+            d += `${pen ? "L" : "M"}${x(i)} ${y(v)}`;
+            pen = true;
+        });
+        return `<path d="${d}" fill="none" stroke="${s.color}" stroke-width="1.5"${s.dashed ? ' stroke-dasharray="4 3"' : ""}/>`;
+    }).join("");
+
+    const legend = series.map((s, k) =>
+        `<rect x="${PADDING.left + k * 150}" y="${height - 14}" width="12" height="3" fill="${s.color}"/>` +
+        `<text x="${PADDING.left + k * 150 + 18}" y="${height - 10}" fill="#374151" ${FONT}>${escapeXml(s.label)}</text>`
+    ).join("");
+
+    return svg(width, height, grid + xLabels + paths + legend);
+}
+
+/** Return histogram with the mean and ±1σ / ±2σ marked, like the dashboard's distribution chart. */
+export function histogramSvg({ bins, binSize, mean, sd, width = 720, height = 260 }: HistogramInput): string {
+    if (bins.length === 0) {
+        return svg(width, height, `<text x="${width / 2}" y="${height / 2}" text-anchor="middle" fill="#6b7280" ${FONT}>No data</text>`);
+    }
+    const plotWidth = width - PADDING.left - PADDING.right;
+    const plotHeight = height - PADDING.top - PADDING.bottom;
+    const lo = bins[0].bin;
+    const hi = bins[bins.length - 1].bin + binSize;
+    const maxCount = Math.max(...bins.map(b => b.count), 1);
+
+    const x = (v: number) => r(PADDING.left + ((v - lo) / (hi - lo)) * plotWidth);
+    const y = (count: number) => r(PADDING.top + (1 - count / maxCount) * plotHeight);
+    const barWidth = Math.max(r(plotWidth / bins.length - 1), 0.5);
+
+    const bars = bins.map(b => {
+        const inside = Math.abs(b.bin + binSize / 2 - mean) <= sd;
+        return `<rect x="${x(b.bin)}" y="${y(b.count)}" width="${barWidth}" height="${r(PADDING.top + plotHeight - y(b.count))}" fill="${inside ? "#3b82f6" : "#93c5fd"}"/>`;
+    }).join("");
+
+    const markers = [
+        { value: mean, label: "mean", color: "#111827" },
+        { value: mean - sd, label: "-1σ", color: "#f59e0b" },
+        { value: mean + sd, label: "+1σ", color: "#f59e0b" },
+        { value: mean - 2 * sd, label: "-2σ", color: "#ef4444" },
+        { value: mean + 2 * sd, label: "+2σ", color: "#ef4444" },
+    ].filter(m => m.value >= lo && m.value <= hi).map(m =>
+        `<line x1="${x(m.value)}" x2="${x(m.value)}" y1="${PADDING.top}" y2="${PADDING.top + plotHeight}" stroke="${m.color}" stroke-dasharray="4 3"/>` +
+        `<text x="${x(m.value)}" y="${PADDING.top - 4}" text-anchor="middle" fill="${m.color}" ${FONT}>${m.label}</text>`
+    ).join("");
+
+    const axis = niceTicks(lo, hi).map(tick =>
+        `<text x="${x(tick)}" y="${height - PADDING.bottom + 16}" text-anchor="middle" fill="#6b7280" ${FONT}>${tick.toFixed(1)}%</text>`
+    ).join("") + `<text x="${PADDING.left - 6}" y="${PADDING.top + 4}" text-anchor="end" fill="#6b7280" ${FONT}>${maxCount}</text>`;
+
+    return svg(width, height, bars + markers + axis);
+}
@@ -0,0 +1,132 @@
+// Instrument search for /api/search and free-text resolution in /api/stock.
+// Candidates from the market data provider (Yahoo by default) and Naver's
+// stock autocomplete are merged by symbol and ranked against the query, so
+// "Samsung" or "삼성" lists every matching listing instead of guessing one.
+
+import { cached } from "@/lib/cache";
+import { listingCurrency } from "@/lib/exchanges";
+import { getMarketDataProvider } from "@/lib/providers";
+
+export type SearchSource = "provider" | "naver";
+
+export interface SearchCandidate {
+    symbol: string; // ticker /api/stock accepts, e.g. "005930.KS"
+    name?: string;
+    localName?: string; // Korean name for KRX listings
+    exchange?: string;
+    type?: string; // "EQUITY", "ETF", "INDEX", ...
+    currency?: string;
+    sources: SearchSource[];
+}
+
+export const MAX_SUGGESTIONS = 10;
+
+export interface NaverMatch {
+    code: string;
+    name: string; // Korean name for KRX listings
+    typeCode: string; // "KOSPI", "KOSDAQ", ...
+}
+
+const NAVER_TIMEOUT_MS = 5 * 1000;
+
+/** False with the local provider: recorded fixtures work offline, so Naver isn't asked either. */
+export const naverEnabled = () => getMarketDataProvider().name !== "local";
+
+// Naver Stock autocomplete (ac.stock.naver.com): returns JSON, supports UTF-8
+export async function naverAutocomplete(query: string): Promise<NaverMatch[]> {
+    const naverUrl = `https://ac.stock.naver.com/ac?q=${encodeURIComponent(query)}&target=stock,index,test&q_enc=utf-8&st=11&r_format=json&t_koreng=1`;
+    const res = await fetch(naverUrl, { signal: AbortSignal.timeout(NAVER_TIMEOUT_MS) });
+    const json = await res.json();
+    return json?.items || [];
+}
+
+// Yahoo suffix for Naver's market codes. Other markets Naver lists (NASDAQ,
+// NYSE, ...) use Reuters codes and are covered by the provider's own search.
+const NAVER_SUFFIXES: Record<string, string> = { KOSPI: ".KS", KOSDAQ: ".KQ" };
+
+function naverCandidates(items: NaverMatch[]): SearchCandidate[] {
+    return items
+        .filter(item => item.code && NAVER_SUFFIXES[item.typeCode])
+        .map(item => ({
+            symbol: item.code + NAVER_SUFFIXES[item.typeCode],
+            localName: item.name,
+            exchange: item.typeCode,
+            type: "EQUITY",
+            currency: "KRW",
+            sources: ["naver"]
+        }));
+}
+
+// Higher is better: exact ticker, ticker prefix, name prefix, name substring;
+// listings both sources know and plain stocks/ETFs break ties
+function score(candidate: SearchCandidate, query: string): number {
+    const q = query.toLowerCase();
+    const symbol = candidate.symbol.toLowerCase();
+    const names = [candidate.name, candidate.localName].filter((n): n is string => !!n).map(n => n.toLowerCase());
+
+    let points = 0;
+    if (symbol === q || symbol.split(".")[0] === q) points = 100;
+    else if (symbol.startsWith(q)) points = 60;
+    else if (names.some(n => n === q)) points = 55;
+    else if (names.some(n => n.startsWith(q))) points = 50;
+    else if (names.some(n => n.includes(q))) points = 30;
+
+    if (candidate.sources.length > 1) points += 10;
+    if (candidate.type === "EQUITY" || candidate.type === "ETF") points += 5;
+    return points;
+}
+
+/** Merges candidates by symbol (provider fields first, Naver's Korean name added) and ranks them. */
+export function rankCandidates(query: string, lists: SearchCandidate[][], limit = MAX_SUGGESTIONS): SearchCandidate[] {
+    const merged = new Map<string, SearchCandidate>();
+    lists.flat().forEach((candidate) => {
+        const key = candidate.symbol.toUpperCase();
+        const existing = merged.get(key);
+        if (!existing) {
+            merged.set(key, { ...candidate, sources: [...candidate.sources] });
+            return;
+        }
+        existing.name ??= candidate.name;
+        existing.localName ??= candidate.localName;
+        existing.exchange ??= candidate.exchange;
+        existing.type ??= candidate.type;
+        existing.currency ??= candidate.currency;
+        candidate.sources.forEach(s => { if (!existing.sources.includes(s)) existing.sources.push(s); });
+    });
+
+    // Stable sort keeps each source's own order among equal scores
+    return Array.from(merged.values())
+        .map((candidate, order) => ({ candidate, order, points: score(candidate, query) }))
+        .sort((a, b) => b.points - a.points || a.order - b.order)
+        .slice(0, limit)
+        .map(({ candidate }) => candidate);
+}
+
+/**
+ * Ranked instruments matching a name, ticker or Korean name. A source that
+ * fails is left out; only when every source fails does this throw (so the
+ * empty answer isn't cached).
+ */
+export function searchInstruments(query: string): Promise<SearchCandidate[]> {
+    const q = query.trim();
+    return cached("search", `suggest:${q.toLowerCase()}`, async () => {
+        const provider = getMarketDataProvider();
+        const sources: [string, Promise<SearchCandidate[]>][] = [
+            [provider.name, provider.search(q).then(matches => matches.map((m): SearchCandidate => ({
+                ...m,
+                currency: m.currency ?? listingCurrency(m.symbol, m.exchange),
+                sources: ["provider"]
+            })))]
+        ];
+        if (naverEnabled()) sources.push(["Naver", naverAutocomplete(q).then(naverCandidates)]);
+        const settled = await Promise.allSettled(sources.map(([, search]) => search));
+
+        const lists: SearchCandidate[][] = [];
+        settled.forEach((result, i) => {
+            if (result.status === "fulfilled") lists.push(result.value);
+            else console.warn(`${sources[i][0]} search failed for "${q}":`, (result.reason as Error).message);
+        });
+        if (lists.length === 0) throw new Error("Symbol search is unavailable");
+        return rankCandidates(q, lists);
+    });
+}
@@ -0,0 +1,46 @@
+import type { MetricPoint, SentimentReadings, SentimentSource, SourceDocument } from "./types";
+
+export const CNN_FEAR_GREED_URL = "https://production.dataviz.cnn.io/index/fearandgreed/graphdata";
+
+interface CnnGraphData {
+    fear_and_greed?: { score?: number; timestamp?: string };
+    fear_and_greed_historical?: { data?: { x: number; y: number }[] };
+}
+
+const toDate = (value: number | string) => new Date(value).toISOString().split('T')[0];
+
+/**
+ * Parses CNN's Fear & Greed graph data: the daily history (`x` is epoch ms,
+ * `y` the 0-100 score) plus the current score, rounded as CNN displays it.
+ */
+export function parseCnnFearGreed(text: string): MetricPoint[] {
+    const json: CnnGraphData = JSON.parse(text);
+    const points = new Map<string, number>();
+
+    for (const { x, y } of json.fear_and_greed_historical?.data || []) {
+        if (Number.isFinite(x) && Number.isFinite(y)) points.set(toDate(x), Math.round(y));
+    }
+    const current = json.fear_and_greed;
+    if (current && typeof current.score === 'number' && current.timestamp) {
+        points.set(toDate(current.timestamp), Math.round(current.score));
+    }
+
+    return [...points.entries()]
+        .map(([date, value]) => ({ date, value }))
+        .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export class CnnFearGreedSource implements SentimentSource {
+    readonly name = "CNN";
+    readonly metrics = ["fearGreed" as const];
+
+    constructor(private readonly document: SourceDocument) { }
+
+    async fetch(): Promise<SentimentReadings> {
+        const points = parseCnnFearGreed(await this.document.read());
+        if (points.length === 0) throw new Error("Fear & Greed data has no scores");
+        return {
+            fearGreed: { points, source: { name: "CNN Fear & Greed", url: this.document.location, fetchedAt: new Date().toISOString(), estimated: false, recorded: this.document.recorded } }
+        };
+    }
+}
@@ -0,0 +1,51 @@
+import { GoogleGenerativeAI, type Tool } from "@google/generative-ai";
+import type { SentimentMetric, SentimentReadings, SentimentSource } from "./types";
+
+const PROMPT_NAMES: Record<SentimentMetric, string> = {
+    fearGreed: '"CNN Fear and Greed Index" (score 0-100)',
+    gex: '"S&P 500 Gamma Exposure" (GEX, SqueezeMetrics) in billions of dollars',
+    dix: '"Dark Index" (DIX, SqueezeMetrics) in percent',
+};
+
+/**
+ * Last resort when the publishers can't be reached: asks Gemini with Google
+ * Search for the latest published values. Everything it returns is flagged
+ * `estimated`, and it is told to answer null rather than guess.
+ */
+export class GeminiSearchSource implements SentimentSource {
+    readonly name = "Gemini search";
+
+    constructor(private readonly apiKey: string, readonly metrics: SentimentMetric[]) { }
+
+    async fetch(): Promise<SentimentReadings> {
+        // Use 2.0-flash-exp to enable Google Search (needed for real data)
+        const model = new GoogleGenerativeAI(this.apiKey).getGenerativeModel({
+            model: "gemini-2.0-flash-exp",
+            // The SDK's Tool type predates googleSearch
+            tools: [{ googleSearch: {} } as Tool]
+        });
+
+        const today = new Date().toISOString().split('T')[0];
+        const prompt = `
+            Search for the latest published values of:
+            ${this.metrics.map((metric, i) => `${i + 1}. ${PROMPT_NAMES[metric]}`).join("\n            ")}
+
+            Return ONLY a JSON object with these keys: ${this.metrics.map(m => `"${m}"`).join(", ")}
+            Each value is { "current": number, "date": "YYYY-MM-DD" }, where "date" is the trading day the value belongs to (today is ${today}).
+            Use null for anything you cannot find published. Do not estimate or derive values from other indicators. Do not use Markdown.
+        `;
+
+        const result = await model.generateContent(prompt);
+        const json = JSON.parse(result.response.text().replace(/```json|```/g, "").trim());
+
+        const source = { name: "Gemini web search (unverified)", url: "gemini-2.0-flash-exp", fetchedAt: new Date().toISOString(), estimated: true };
+        const readings: SentimentReadings = {};
+        for (const metric of this.metrics) {
+            const reading = json?.[metric];
+            if (!reading || typeof reading.current !== 'number' || !Number.isFinite(reading.current)) continue;
+            const date = typeof reading.date === 'string' && /^\d{4}-\d{2}-\d{2}/.test(reading.date) ? reading.date.slice(0, 10) : today;
+            readings[metric] = { points: [{ date, value: reading.current }], source };
+        }
+        return readings;
+    }
+}
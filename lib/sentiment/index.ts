@@ -0,0 +1,67 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CNN_FEAR_GREED_URL, CnnFearGreedSource } from "./cnn";
+import { GeminiSearchSource } from "./gemini";
+import { SQUEEZEMETRICS_URL, SqueezeMetricsSource } from "./squeezemetrics";
+import type { SentimentMetric, SentimentSource, SourceDocument } from "./types";
+
+export type * from "./types";
+export { parseCnnFearGreed } from "./cnn";
+export { parseSqueezeMetricsCsv } from "./squeezemetrics";
+
+const DEFAULT_FIXTURES_DIR = path.resolve(process.cwd(), 'fixtures/sentiment');
+const FETCH_TIMEOUT_MS = 15 * 1000;
+
+function httpDocument(url: string): SourceDocument {
+    return {
+        location: url,
+        recorded: false,
+        async read() {
+            // CNN rejects requests without a browser-like User-Agent
+            const res = await fetch(url, {
+                headers: { "User-Agent": "Mozilla/5.0", "Accept": "application/json, text/csv, */*" },
+                signal: AbortSignal.timeout(FETCH_TIMEOUT_MS)
+            });
+            if (!res.ok) throw new Error(`${url} answered HTTP ${res.status}`);
+            return res.text();
+        }
+    };
+}
+
+function fileDocument(file: string): SourceDocument {
+    return { location: file, recorded: true, read: () => fs.readFile(file, 'utf8') };
+}
+
+/**
+ * Publisher adapters for GEX, DIX and Fear & Greed, tried before any LLM.
+ *
+ * MARKET_SENTIMENT_SOURCE=live | local  (default: local when MARKET_DATA_PROVIDER=local, else live)
+ * MARKET_SENTIMENT_FIXTURES=<dir>       sample DIX.csv / fearandgreed.json for the local source
+ */
+export function getSentimentSources(): SentimentSource[] {
+    const fallback = (process.env.MARKET_DATA_PROVIDER || "").toLowerCase() === "local" ? "local" : "live";
+    const kind = (process.env.MARKET_SENTIMENT_SOURCE || fallback).toLowerCase();
+
+    switch (kind) {
+        case "local": {
+            const dir = process.env.MARKET_SENTIMENT_FIXTURES ? path.resolve(process.env.MARKET_SENTIMENT_FIXTURES) : DEFAULT_FIXTURES_DIR;
+            return [
+                new SqueezeMetricsSource(fileDocument(path.join(dir, 'DIX.csv'))),
+                new CnnFearGreedSource(fileDocument(path.join(dir, 'fearandgreed.json')))
+            ];
+        }
+        case "live":
+            return [
+                new SqueezeMetricsSource(httpDocument(SQUEEZEMETRICS_URL)),
+                new CnnFearGreedSource(httpDocument(CNN_FEAR_GREED_URL))
+            ];
+        default:
+            throw new Error(`Unknown MARKET_SENTIMENT_SOURCE "${kind}" (expected "live" or "local")`);
+    }
+}
+
+/** The flagged LLM fallback for the given metrics, or null without a Gemini key. */
+export function llmSentimentSource(metrics: SentimentMetric[]): SentimentSource | null {
+    const apiKey = process.env.NEXT_PUBLIC_GEMINI_API_KEY;
+    return apiKey && metrics.length > 0 ? new GeminiSearchSource(apiKey, metrics) : null;
+}
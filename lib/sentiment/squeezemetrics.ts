@@ -0,0 +1,53 @@
+import type { MetricPoint, SentimentReadings, SentimentSource, SourceDocument } from "./types";
+
+export const SQUEEZEMETRICS_URL = "https://squeezemetrics.com/monitor/static/DIX.csv";
+
+/**
+ * Parses SqueezeMetrics' DIX.csv (`date,price,dix,gex`, one row per session).
+ * DIX is published as a fraction and becomes a percentage; GEX is in dollars
+ * and becomes billions, matching the MarketStatus cards.
+ */
+export function parseSqueezeMetricsCsv(text: string): { dix: MetricPoint[]; gex: MetricPoint[] } {
+    const [header, ...rows] = text.trim().split(/\r?\n/);
+    const columns = header.split(',').map(c => c.trim().toLowerCase());
+    const dateCol = columns.indexOf('date');
+    const dixCol = columns.indexOf('dix');
+    const gexCol = columns.indexOf('gex');
+    if (dateCol === -1 || dixCol === -1 || gexCol === -1) {
+        throw new Error(`Unexpected DIX.csv header "${header}"`);
+    }
+
+    const dix: MetricPoint[] = [];
+    const gex: MetricPoint[] = [];
+    for (const row of rows) {
+        const cells = row.split(',');
+        const date = cells[dateCol]?.trim();
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(date || "")) continue;
+
+        const dixValue = parseFloat(cells[dixCol]);
+        const gexValue = parseFloat(cells[gexCol]);
+        if (Number.isFinite(dixValue)) dix.push({ date, value: dixValue * 100 });
+        if (Number.isFinite(gexValue)) gex.push({ date, value: gexValue / 1e9 });
+    }
+
+    const byDate = (a: MetricPoint, b: MetricPoint) => a.date.localeCompare(b.date);
+    return { dix: dix.sort(byDate), gex: gex.sort(byDate) };
+}
+
+export class SqueezeMetricsSource implements SentimentSource {
+    readonly name = "SqueezeMetrics";
+    readonly metrics = ["dix" as const, "gex" as const];
+
+    constructor(private readonly document: SourceDocument) { }
+
+    async fetch(): Promise<SentimentReadings> {
+        const { dix, gex } = parseSqueezeMetricsCsv(await this.document.read());
+        if (dix.length === 0 && gex.length === 0) throw new Error("DIX.csv has no rows");
+
+        const source = { name: "SqueezeMetrics DIX.csv", url: this.document.location, fetchedAt: new Date().toISOString(), estimated: false, recorded: this.document.recorded };
+        return {
+            ...(dix.length > 0 && { dix: { points: dix, source } }),
+            ...(gex.length > 0 && { gex: { points: gex, source } })
+        };
+    }
+}
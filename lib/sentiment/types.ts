@@ -0,0 +1,41 @@
+// Source adapters for the market sentiment gauges on /api/market.
+// Each adapter parses one upstream format into dated points and says where
+// the numbers came from, so the UI can tell published data from LLM guesses.
+
+export type SentimentMetric = "gex" | "dix" | "fearGreed";
+
+export interface MetricPoint {
+    date: string; // YYYY-MM-DD
+    value: number;
+}
+
+export interface MetricSource {
+    name: string;
+    url: string;
+    fetchedAt: string;
+    // True for the LLM fallback: the value was found (or guessed) by a model, not parsed from the publisher
+    estimated: boolean;
+    // Read from a saved sample file rather than the publisher
+    recorded?: boolean;
+}
+
+export interface SentimentReading {
+    // Oldest first
+    points: MetricPoint[];
+    source: MetricSource;
+}
+
+export type SentimentReadings = Partial<Record<SentimentMetric, SentimentReading>>;
+
+export interface SentimentSource {
+    readonly name: string;
+    readonly metrics: SentimentMetric[];
+    fetch(): Promise<SentimentReadings>;
+}
+
+/** Raw document for an adapter: a live HTTP response or a saved sample file. */
+export interface SourceDocument {
+    location: string;
+    recorded: boolean;
+    read(): Promise<string>;
+}
@@ -0,0 +1,242 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import type { StockData } from "@/components/StockDashboard";
+import { trailingDividends } from "@/lib/adjustments";
+import { cached, cachedFetch } from "@/lib/cache";
+import { fxPairSymbol, type FxSeries } from "@/lib/fx";
+import { parseGeminiFundamentals, reconcileFundamentals, type GeminiFundamentals } from "@/lib/fundamentals";
+import { defaultProvenance, type Provenance } from "@/lib/provenance";
+import { getMarketDataProvider, providerProvenance } from "@/lib/providers";
+import { naverAutocomplete, naverEnabled, searchInstruments, type SearchCandidate } from "@/lib/search";
+import { lastSessions, resolveRange, type CustomRange, type ResolvedRange } from "@/lib/ranges";
+
+const genAI = new GoogleGenerativeAI(process.env.NEXT_PUBLIC_GEMINI_API_KEY || "");
+
+// Carries the HTTP status the route should answer with
+export class StockRequestError extends Error {
+    constructor(message: string, readonly status: number) {
+        super(message);
+        this.name = "StockRequestError";
+    }
+}
+
+export interface StockRequest extends Partial<CustomRange> {
+    query: string;
+    range?: string;
+    // ISO code; when it differs from the listing's currency the payload carries FX rates
+    baseCurrency?: string;
+}
+
+export interface LoadStockOptions {
+    // The Gemini fundamentals prompt is slow and rate limited; batch callers skip it
+    includeGeminiMetrics?: boolean;
+}
+
+export function resolveRequestRange({ range = '1y', start, end }: Omit<StockRequest, "query">): ResolvedRange {
+    try {
+        return resolveRange(range, { start, end });
+    } catch (e: unknown) {
+        throw new StockRequestError((e as Error).message, 400);
+    }
+}
+
+export function resolveBaseCurrency(value: unknown): string | undefined {
+    if (value === undefined || value === null || value === "") return undefined;
+    if (typeof value !== "string" || !/^[A-Za-z]{3}$/.test(value)) {
+        throw new StockRequestError("baseCurrency must be a 3-letter currency code", 400);
+    }
+    return value.toUpperCase();
+}
+
+/** Korean name of a .KS / .KQ listing from Naver; null for other symbols or when unknown. */
+export async function koreanName(symbol: string): Promise<string | null> {
+    if (!/\.(KS|KQ)$/i.test(symbol) || !naverEnabled()) return null;
+    const code = symbol.split(".")[0];
+    try {
+        return await cached("search", `krx-name:${code}`, async () =>
+            (await naverAutocomplete(code)).find(item => item.code === code)?.name ?? null);
+    } catch (e: unknown) {
+        console.warn(`Korean name lookup failed for ${symbol}:`, (e as Error).message);
+        return null;
+    }
+}
+
+/** Resolves a free-text query (name, ticker, Korean name) to a ticker symbol. */
+export function resolveSymbol(query: string): Promise<string> {
+    return cached("search", query.trim().toLowerCase(), () => searchSymbol(query));
+}
+
+async function searchSymbol(query: string): Promise<string> {
+    let candidates: SearchCandidate[];
+    try {
+        candidates = await searchInstruments(query);
+    } catch (e: unknown) {
+        throw new StockRequestError((e as Error).message, 502);
+    }
+    // Same ranking as the search dropdown, so free text lands on its first suggestion
+    if (candidates.length === 0) {
+        throw new StockRequestError("Stock not found", 404);
+    }
+    return candidates[0].symbol;
+}
+
+// Throws on failure so a bad answer is never cached
+async function fetchGeminiMetrics(symbol: string): Promise<GeminiFundamentals> {
+    // Use 1.5-flash to ensure fallback works when Yahoo fails
+    const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
+    const prompt = `
+        Analyze the stock "${symbol}" and provide the following financial metrics based on the most recent data available to you:
+        1. Trailing P/E Ratio (TTM)
+        2. Forward P/E Ratio
+        3. Annual Dividend Yield (%)
+
+        Return ONLY a JSON object with keys: "trailingPE", "forwardPE", "dividendYield".
+        Values should be numbers (or null if not applicable/found).
+        Example: { "trailingPE": 25.4, "forwardPE": 22.1, "dividendYield": 0.85 }
+        Do not include markdown formatting.
+    `;
+    const result = await model.generateContent(prompt);
+    return parseGeminiFundamentals(result.response.text());
+}
+
+/**
+ * Daily rates for 1 `from` in `to` from the market data provider. Tries the
+ * direct pair and then the inverse one (only one of them is always listed).
+ */
+async function loadFxSeries(from: string, to: string, period1: Date, period2: Date, rangeKey: string): Promise<FxSeries> {
+    const provider = getMarketDataProvider();
+    const attempts = [{ pair: fxPairSymbol(from, to), invert: false }, { pair: fxPairSymbol(to, from), invert: true }];
+    let lastError: unknown = null;
+
+    for (const { pair, invert } of attempts) {
+        try {
+            const { value: bars, status } = await cachedFetch("history", `fx:${pair}:${rangeKey}`, () => provider.history(pair, { period1, period2 }, '1d'));
+            const points = bars
+                .filter(bar => bar.close > 0)
+                .map(bar => ({ date: bar.date.toISOString(), rate: invert ? 1 / bar.close : bar.close }));
+            if (points.length === 0) throw new Error(`No ${pair} rates`);
+
+            const last = points[points.length - 1];
+            return { base: to, pair, current: last.rate, points, provenance: providerProvenance(last.date, status) };
+        } catch (e: unknown) {
+            lastError = e;
+        }
+    }
+    throw lastError;
+}
+
+/** Builds the full /api/stock payload for one query. */
+export async function loadStockData(request: StockRequest, { includeGeminiMetrics = true }: LoadStockOptions = {}): Promise<StockData> {
+    const { query, range = '1y' } = request;
+    if (!query) {
+        throw new StockRequestError("Query is required", 400);
+    }
+    const baseCurrency = resolveBaseCurrency(request.baseCurrency);
+
+    const resolved = resolveRequestRange(request);
+    const provider = getMarketDataProvider();
+    const symbol = await resolveSymbol(query);
+
+    // 3. Fetch Quote Summary (Current Price, etc.)
+    const { value: quote, status: quoteStatus } = await cachedFetch("quote", symbol, () => provider.quote(symbol));
+
+    // 4. Resolve the Range (bar size is chosen from the span, see lib/ranges)
+    const { period1, period2, interval, sessions } = resolved;
+
+    // Dividends and splits cover at least the trailing year so the yield
+    // fallback below still works for short (intraday, YTD) ranges
+    const oneYearAgo = new Date();
+    oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
+    const eventsStart = period1 < oneYearAgo ? period1 : oneYearAgo;
+
+    // 5. Fetch Data in Parallel (History, Dividends, Splits, Gemini Metrics).
+    // Keyed by the requested range, not the resolved dates, which move with the clock
+    const rangeKey = `${symbol}:${range}:${request.start ?? ""}:${request.end ?? ""}`;
+    const needsFx = Boolean(baseCurrency && quote.currency && quote.currency.toUpperCase() !== baseCurrency);
+    const [{ value: rawHistory, status: historyStatus }, dividends, splits, localName, fx, geminiMetrics] = await Promise.all([
+        cachedFetch("history", `${rangeKey}:${interval}`, () => provider.history(symbol, { period1, period2 }, interval)),
+        cached("events", `dividends:${rangeKey}`, () => provider.dividends(symbol, { period1: eventsStart, period2 })),
+        cached("events", `splits:${rangeKey}`, () => provider.splits(symbol, { period1: eventsStart, period2 })),
+        quote.localName ? Promise.resolve(quote.localName) : koreanName(symbol),
+        // Without rates the payload stays in the local currency (no `fx`)
+        needsFx
+            ? loadFxSeries(quote.currency!.toUpperCase(), baseCurrency!, eventsStart, period2, `${range}:${request.start ?? ""}:${request.end ?? ""}`).catch((e: unknown) => {
+                console.warn(`FX rates ${quote.currency} -> ${baseCurrency} unavailable:`, (e as Error).message);
+                return null;
+            })
+            : Promise.resolve(null),
+        includeGeminiMetrics
+            ? cached("fundamentals", symbol, () => fetchGeminiMetrics(symbol)).catch((e: unknown) => {
+                console.error("Gemini metrics fetch failed:", e);
+                return null;
+            })
+            : Promise.resolve(null)
+    ]);
+
+    const history = sessions ? lastSessions(rawHistory, sessions) : rawHistory;
+
+    const lastBar = history[history.length - 1];
+    const historyProvenance = providerProvenance(lastBar ? lastBar.date.toISOString() : null, historyStatus);
+    const quoteProvenance = providerProvenance((quote.regularMarketTime ?? lastBar?.date)?.toISOString() ?? null, quoteStatus);
+
+    // Calculate Dividend Yield from history if missing in quote
+    let calculatedYield = quote.dividendYield;
+    let yieldProvenance: Provenance = calculatedYield ? quoteProvenance : defaultProvenance();
+    if (!calculatedYield && dividends.length > 0) {
+        // Amounts are per share held at the time; restate them on today's share basis
+        const lastYearDividends = trailingDividends(
+            dividends.map((d) => ({ date: d.date.toISOString(), amount: d.amount })),
+            splits.map((s) => ({ ...s, date: s.date.toISOString() })),
+            oneYearAgo.toISOString()
+        );
+
+        if (lastYearDividends > 0 && quote.regularMarketPrice) {
+            calculatedYield = (lastYearDividends / quote.regularMarketPrice) * 100;
+            yieldProvenance = { ...quoteProvenance, source: `Trailing 12M dividends (${quoteProvenance.source})` };
+        }
+    }
+
+    return {
+        symbol: quote.symbol,
+        name: (quote.shortName || quote.longName) as string,
+        localName: localName ?? undefined,
+        currentPrice: quote.regularMarketPrice as number,
+        currency: quote.currency as string,
+        change: quote.regularMarketChange as number,
+        changePercent: quote.regularMarketChangePercent as number,
+        trailingPE: quote.trailingPE,
+        forwardPE: quote.forwardPE,
+        dividendYield: calculatedYield,
+        // Model values checked against the quote (lib/fundamentals)
+        geminiMetrics: geminiMetrics
+            ? reconcileFundamentals(geminiMetrics, { trailingPE: quote.trailingPE, forwardPE: quote.forwardPE, dividendYield: calculatedYield })
+            : null,
+        range,
+        interval,
+        history: history.map((day) => ({
+            date: day.date.toISOString(),
+            open: day.open,
+            high: day.high,
+            low: day.low,
+            close: day.close,
+            adjClose: day.adjClose ?? day.close,
+            volume: day.volume
+        })),
+        dividends: dividends.map((div) => ({
+            date: div.date.toISOString(),
+            amount: div.amount
+        })),
+        splits: splits.map((split) => ({
+            date: split.date.toISOString(),
+            numerator: split.numerator,
+            denominator: split.denominator
+        })),
+        fx,
+        provenance: {
+            quote: quoteProvenance,
+            dividendYield: yieldProvenance,
+            history: historyProvenance,
+            // Model output from the prompt above, never published data
+            geminiMetrics: geminiMetrics ? { source: "Gemini (gemini-1.5-flash)", asOf: null, status: "estimated" } : null
+        }
+    };
+}
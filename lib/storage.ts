@@ -0,0 +1,73 @@
+import { useCallback, useSyncExternalStore } from "react";
+
+// Every localStorage key the app uses, in one place so readers and writers agree
+export const STORAGE_KEYS = {
+    searchHistory: "stockSearchHistory",
+    watchlists: "watchlists",
+    indicators: "chartIndicators",
+    portfolio: "portfolioLots",
+    alertsSeen: "alertsLastSeen",
+    baseCurrency: "baseCurrency",
+    currencyView: "currencyView",
+} as const;
+
+type Listener = () => void;
+const listeners = new Map<string, Set<Listener>>();
+const cache = new Map<string, { raw: string | null; value: unknown }>();
+
+function subscribe(key: string, listener: Listener) {
+    if (!listeners.has(key)) listeners.set(key, new Set());
+    listeners.get(key)!.add(listener);
+
+    // Other tabs
+    const onStorage = (e: StorageEvent) => { if (e.key === key) listener(); };
+    window.addEventListener("storage", onStorage);
+
+    return () => {
+        listeners.get(key)?.delete(listener);
+        window.removeEventListener("storage", onStorage);
+    };
+}
+
+/** Parsed value for `key`; the same object is returned until the stored string changes. */
+export function readStored<T>(key: string, fallback: T): T {
+    const raw = localStorage.getItem(key);
+    const cached = cache.get(key);
+    if (cached && cached.raw === raw) return cached.value as T;
+
+    let value = fallback;
+    if (raw) {
+        try {
+            value = JSON.parse(raw);
+        } catch {
+            console.warn(`Ignoring malformed localStorage value for "${key}"`);
+        }
+    }
+    cache.set(key, { raw, value });
+    return value;
+}
+
+export function writeStored<T>(key: string, value: T | null) {
+    if (value === null) localStorage.removeItem(key);
+    else localStorage.setItem(key, JSON.stringify(value));
+    listeners.get(key)?.forEach((listener) => listener());
+}
+
+/**
+ * useState backed by localStorage. The server render (and hydration) sees
+ * `fallback`, so pass a module-level constant to keep its identity stable.
+ */
+export function useStoredState<T>(key: string, fallback: T): [T, (next: T | ((prev: T) => T)) => void] {
+    const value = useSyncExternalStore(
+        useCallback((listener: Listener) => subscribe(key, listener), [key]),
+        () => readStored(key, fallback),
+        () => fallback
+    );
+
+    const setValue = useCallback((next: T | ((prev: T) => T)) => {
+        const prev = readStored(key, fallback);
+        writeStored(key, typeof next === "function" ? (next as (prev: T) => T)(prev) : next);
+    }, [key, fallback]);
+
+    return [value, setValue];
+}
@@ -0,0 +1,139 @@
+// Technical indicators on OHLCV arrays. Pure functions; every output is
+// aligned with the input bars and null until its lookback window is full.
+
+import { movingAverage } from "./analytics";
+
+type Series = (number | null)[];
+
+/** EMA seeded with the SMA of the first `period` values. */
+export function exponentialMovingAverage(values: number[], period: number): Series {
+    const alpha = 2 / (period + 1);
+    const seed = movingAverage(values, period);
+    let prev: number | null = null;
+    return values.map((value, i) => {
+        if (i < period - 1) return null;
+        prev = prev === null ? seed[i] : alpha * value + (1 - alpha) * prev;
+        return prev;
+    });
+}
+
+// Wilder's smoothing (RSI, ATR): average of the first `period` values, then
+// prev + (x - prev) / period. `start` is the first index with a valid input.
+function wilderSmooth(values: number[], period: number, start = 0): Series {
+    const out: Series = values.map(() => null);
+    if (values.length < start + period) return out;
+    let avg = values.slice(start, start + period).reduce((a, b) => a + b, 0) / period;
+    out[start + period - 1] = avg;
+    for (let i = start + period; i < values.length; i++) {
+        avg = avg + (values[i] - avg) / period;
+        out[i] = avg;
+    }
+    return out;
+}
+
+/** Relative Strength Index (Wilder), 0-100. */
+export function relativeStrengthIndex(closes: number[], period = 14): Series {
+    const gains = closes.map((c, i) => i === 0 ? 0 : Math.max(c - closes[i - 1], 0));
+    const losses = closes.map((c, i) => i === 0 ? 0 : Math.max(closes[i - 1] - c, 0));
+    const avgGain = wilderSmooth(gains, period, 1);
+    const avgLoss = wilderSmooth(losses, period, 1);
+    return closes.map((_, i) => {
+        const g = avgGain[i], l = avgLoss[i];
+        if (g === null || l === null) return null;
+        if (l === 0) return g === 0 ? 50 : 100;
+        return 100 - 100 / (1 + g / l);
+    });
+}
+
+/** MACD line (fast EMA - slow EMA), its signal EMA and the histogram. */
+export function macd(closes: number[], fast = 12, slow = 26, signalPeriod = 9): { macd: Series; signal: Series; histogram: Series } {
+    const fastEma = exponentialMovingAverage(closes, fast);
+    const slowEma = exponentialMovingAverage(closes, slow);
+    const line = closes.map((_, i) => fastEma[i] !== null && slowEma[i] !== null ? (fastEma[i] as number) - (slowEma[i] as number) : null);
+
+    // Signal is an EMA over the defined part of the MACD line
+    const first = line.findIndex(v => v !== null);
+    const signal: Series = closes.map(() => null);
+    if (first !== -1) {
+        const tail = exponentialMovingAverage(line.slice(first) as number[], signalPeriod);
+        tail.forEach((v, k) => { signal[first + k] = v; });
+    }
+
+    return {
+        macd: line,
+        signal,
+        histogram: line.map((v, i) => v !== null && signal[i] !== null ? v - (signal[i] as number) : null)
+    };
+}
+
+/**
+ * Slow stochastic, 0-100: the raw (fast) %K over `kPeriod` bars smoothed by a
+ * `smoothing`-bar SMA into %K, and %D as the `dPeriod` SMA of that.
+ */
+export function stochastic(highs: number[], lows: number[], closes: number[], kPeriod = 14, dPeriod = 3, smoothing = 3): { k: Series; d: Series } {
+    const fastK: Series = closes.map((close, i) => {
+        if (i < kPeriod - 1) return null;
+        const hh = Math.max(...highs.slice(i - kPeriod + 1, i + 1));
+        const ll = Math.min(...lows.slice(i - kPeriod + 1, i + 1));
+        return hh === ll ? 50 : ((close - ll) / (hh - ll)) * 100;
+    });
+    // SMA over the defined tail of a series that starts with nulls
+    const smooth = (values: Series, period: number): Series => {
+        const first = values.findIndex(v => v !== null);
+        const out: Series = values.map(() => null);
+        if (first !== -1) {
+            movingAverage(values.slice(first) as number[], period).forEach((v, j) => { out[first + j] = v; });
+        }
+        return out;
+    };
+    const k = smooth(fastK, smoothing);
+    return { k, d: smooth(k, dPeriod) };
+}
+
+/** Average True Range (Wilder). */
+export function averageTrueRange(highs: number[], lows: number[], closes: number[], period = 14): Series {
+    const trueRange = closes.map((_, i) => i === 0
+        ? highs[i] - lows[i]
+        : Math.max(highs[i] - lows[i], Math.abs(highs[i] - closes[i - 1]), Math.abs(lows[i] - closes[i - 1])));
+    return wilderSmooth(trueRange, period);
+}
+
+/**
+ * Volume-weighted average of the typical price (H+L+C)/3. Intraday bars
+ * restart every session; otherwise it is anchored at the first bar.
+ */
+export function volumeWeightedAveragePrice(bars: { date: string; high: number; low: number; close: number; volume: number }[], resetDaily = false): Series {
+    let pv = 0, vol = 0, session = "";
+    return bars.map((bar) => {
+        const day = bar.date.split('T')[0];
+        if (resetDaily && day !== session) {
+            pv = 0;
+            vol = 0;
+            session = day;
+        }
+        pv += ((bar.high + bar.low + bar.close) / 3) * bar.volume;
+        vol += bar.volume;
+        return vol > 0 ? pv / vol : null;
+    });
+}
+
+/** On-Balance Volume, starting at 0 on the first bar. */
+export function onBalanceVolume(closes: number[], volumes: number[]): number[] {
+    let obv = 0;
+    return closes.map((close, i) => {
+        if (i > 0) obv += close > closes[i - 1] ? volumes[i] : close < closes[i - 1] ? -volumes[i] : 0;
+        return obv;
+    });
+}
+
+/** Keltner channels: EMA of close ± multiplier × ATR. */
+export function keltnerChannels(highs: number[], lows: number[], closes: number[], period = 20, atrPeriod = 10, multiplier = 2): { middle: Series; upper: Series; lower: Series } {
+    const middle = exponentialMovingAverage(closes, period);
+    const atr = averageTrueRange(highs, lows, closes, atrPeriod);
+    const offset = (i: number, sign: number) => middle[i] !== null && atr[i] !== null ? (middle[i] as number) + sign * multiplier * (atr[i] as number) : null;
+    return {
+        middle,
+        upper: closes.map((_, i) => offset(i, 1)),
+        lower: closes.map((_, i) => offset(i, -1))
+    };
+}
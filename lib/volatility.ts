@@ -0,0 +1,278 @@
+// Volatility regimes: annualized realized volatility over several windows,
+// EWMA (RiskMetrics) and GARCH(1,1) conditional volatility with forecasts, and
+// a low / normal / high regime per bar. Pure, like lib/analytics; inputs are
+// the % changes per bar of priceSeries (first bar 0), outputs annualized %.
+
+import { mean, MIN_THRESHOLD_BARS, standardDeviation, type ThresholdWindow } from "./analytics";
+import { periodsPerYear } from "./performance";
+import type { BarInterval } from "./ranges";
+
+export type VolatilityRegime = "low" | "normal" | "high";
+
+// Series the regime is read from; GARCH falls back to EWMA when it can't be fitted
+export type RegimeSource = "realized" | "ewma" | "garch";
+
+export const REALIZED_WINDOWS = [10, 20, 60] as const;
+export const EWMA_LAMBDA = 0.94;
+
+export interface GarchFit {
+    omega: number;
+    alpha: number;           // weight of the last squared shock
+    beta: number;            // weight of the last variance
+    persistence: number;     // alpha + beta; shocks decay by this factor per bar
+    longRunVolatility: number; // annualized %
+    halfLife: number;        // bars for a shock to the variance to halve
+}
+
+export interface VolatilityForecast {
+    horizon: number;         // bars ahead
+    ewma: number;            // flat: EWMA has no mean reversion
+    garch: number | null;    // root of the mean forecast variance over the horizon
+    garchPath: number[];     // per-bar forecast, 1..horizon
+}
+
+export interface VolatilityOptions {
+    interval?: BarInterval;  // for annualizing; regimes don't depend on it
+    horizon?: number;        // forecast bars
+    source?: RegimeSource;
+    // Percentiles of the source series that separate low / normal / high
+    lowPercentile?: number;
+    highPercentile?: number;
+    // "expanding": each bar's percentiles use only the values up to it (backtests)
+    thresholds?: ThresholdWindow;
+}
+
+export interface VolatilityAnalysis {
+    realized: Record<typeof REALIZED_WINDOWS[number], (number | null)[]>;
+    ewma: (number | null)[];
+    garch: { fit: GarchFit; volatility: (number | null)[] } | null;
+    forecast: VolatilityForecast;
+    source: RegimeSource;    // the one actually used
+    thresholds: { low: number; high: number };
+    regimes: (VolatilityRegime | null)[]; // null while the source series warms up
+    current: VolatilityRegime | null;
+}
+
+export const REGIME_LABELS: Record<VolatilityRegime, string> = { low: "Low", normal: "Normal", high: "High" };
+
+const annualize = (variance: number, periods: number) => Math.sqrt(variance * periods);
+
+/**
+ * Rolling population SD of the last `window` changes, annualized; null until
+ * the window is full (the first bar's placeholder 0 is never included).
+ */
+export function realizedVolatility(changes: number[], window: number, periods = 252): (number | null)[] {
+    return changes.map((_, i) => i - window + 1 >= 1
+        ? standardDeviation(changes.slice(i - window + 1, i + 1)) * Math.sqrt(periods)
+        : null);
+}
+
+const EWMA_SEED_BARS = 20;
+
+/**
+ * EWMA variance σ²ᵢ = λσ²ᵢ₋₁ + (1 − λ)rᵢ², i.e. the estimate for the next bar
+ * as of bar i's close. Until 20 changes are in, it is the mean square of the
+ * changes so far, so no bar's estimate depends on later ones.
+ */
+export function ewmaVariance(changes: number[], lambda = EWMA_LAMBDA): (number | null)[] {
+    const returns = changes.slice(1);
+    if (returns.length === 0) return changes.map(() => null);
+    let variance = 0;
+    let sumSquares = 0;
+    return [null, ...returns.map((r, i) => {
+        if (i < EWMA_SEED_BARS) {
+            sumSquares += r * r;
+            variance = sumSquares / (i + 1);
+        } else {
+            variance = lambda * variance + (1 - lambda) * r * r;
+        }
+        return variance;
+    })];
+}
+
+// --- GARCH(1,1) ---
+
+// Conditional variances h₁..hₙ of demeaned returns (h₁ = sample variance) plus hₙ₊₁
+function garchVariances(residuals: number[], omega: number, alpha: number, beta: number, initial: number): number[] {
+    const h = [initial];
+    residuals.forEach((e, t) => h.push(omega + alpha * e * e + beta * h[t]));
+    return h;
+}
+
+function garchLogLikelihood(residuals: number[], alpha: number, beta: number, variance: number): number {
+    if (alpha <= 0 || beta < 0 || alpha + beta >= 0.9999) return -Infinity;
+    // Variance targeting: ω is tied to the sample variance, leaving two free parameters
+    const h = garchVariances(residuals, variance * (1 - alpha - beta), alpha, beta, variance);
+    let sum = 0;
+    residuals.forEach((e, t) => { sum -= 0.5 * (Math.log(h[t]) + (e * e) / h[t]); });
+    return sum;
+}
+
+/**
+ * Gaussian maximum-likelihood GARCH(1,1) with variance targeting: a coarse
+ * grid over α and α + β, then a shrinking pattern search around the best
+ * point. Null for fewer than 60 returns or no spread.
+ */
+export function fitGarch(changes: number[], periods = 252): GarchFit | null {
+    const returns = changes.slice(1);
+    if (returns.length < 60) return null;
+    const m = mean(returns);
+    const residuals = returns.map(r => r - m);
+    const variance = mean(residuals.map(e => e * e));
+    if (variance === 0) return null;
+
+    let best = { alpha: 0.05, beta: 0.9, ll: -Infinity };
+    for (let alpha = 0.02; alpha <= 0.3; alpha += 0.02) {
+        for (const persistence of [0.8, 0.85, 0.9, 0.93, 0.95, 0.97, 0.98, 0.99, 0.995]) {
+            const beta = persistence - alpha;
+            const ll = garchLogLikelihood(residuals, alpha, beta, variance);
+            if (ll > best.ll) best = { alpha, beta, ll };
+        }
+    }
+    for (let step = 0.02; step > 1e-5; step /= 2) {
+        let improved = true;
+        while (improved) {
+            improved = false;
+            for (const [da, db] of [[step, 0], [-step, 0], [0, step], [0, -step], [step, -step], [-step, step]]) {
+                const ll = garchLogLikelihood(residuals, best.alpha + da, best.beta + db, variance);
+                if (ll > best.ll + 1e-9) {
+                    best = { alpha: best.alpha + da, beta: best.beta + db, ll };
+                    improved = true;
+                }
+            }
+        }
+    }
+    if (!Number.isFinite(best.ll)) return null;
+
+    const { alpha, beta } = best;
+    const persistence = alpha + beta;
+    return {
+        omega: variance * (1 - persistence),
+        alpha,
+        beta,
+        persistence,
+        longRunVolatility: annualize(variance, periods),
+        halfLife: Math.log(0.5) / Math.log(persistence)
+    };
+}
+
+// Per-bar GARCH variance for the next bar as of each close (index-aligned with changes)
+function garchConditional(changes: number[], fit: GarchFit): (number | null)[] {
+    const returns = changes.slice(1);
+    const m = mean(returns);
+    const variance = fit.omega / (1 - fit.persistence);
+    const h = garchVariances(returns.map(r => r - m), fit.omega, fit.alpha, fit.beta, variance);
+    return [null, ...h.slice(1)];
+}
+
+// --- regimes ---
+
+function percentileOfSorted(sorted: number[], p: number): number {
+    const at = (sorted.length - 1) * p;
+    const lo = Math.floor(at);
+    return sorted[lo] + (sorted[Math.min(lo + 1, sorted.length - 1)] - sorted[lo]) * (at - lo);
+}
+
+const percentile = (values: number[], p: number) => percentileOfSorted([...values].sort((a, b) => a - b), p);
+
+/** Low below `low`, high above `high`, normal in between; null where the series has no value. */
+export const classifyRegimes = (volatility: (number | null)[], low: number, high: number): (VolatilityRegime | null)[] =>
+    volatility.map(v => v === null ? null : v < low ? "low" : v > high ? "high" : "normal");
+
+/**
+ * Regimes against percentiles of the values up to and including each bar;
+ * null until MIN_THRESHOLD_BARS values are in. The last bar's thresholds are
+ * the whole series' percentiles.
+ */
+function expandingRegimes(volatility: (number | null)[], lowPercentile: number, highPercentile: number): (VolatilityRegime | null)[] {
+    const sorted: number[] = [];
+    return volatility.map((v) => {
+        if (v === null) return null;
+        // Binary insert keeps the values seen so far sorted
+        let lo = 0;
+        let hi = sorted.length;
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if (sorted[mid] < v) lo = mid + 1;
+            else hi = mid;
+        }
+        sorted.splice(lo, 0, v);
+        if (sorted.length < MIN_THRESHOLD_BARS) return null;
+        const low = percentileOfSorted(sorted, lowPercentile);
+        const high = percentileOfSorted(sorted, highPercentile);
+        return v < low ? "low" : v > high ? "high" : "normal";
+    });
+}
+
+/**
+ * Realized (10/20/60 bars), EWMA and GARCH(1,1) volatility, forecasts for the
+ * next `horizon` bars, and regimes from the chosen source split at its own
+ * 25th / 75th percentiles. By default the percentiles come from the whole
+ * series (the chart's view); backtests pass `thresholds: "expanding"` so a
+ * bar's regime only depends on the bars up to it.
+ */
+export function analyzeVolatility(
+    changes: number[],
+    { interval = "1d", horizon = 20, source = "garch", lowPercentile = 0.25, highPercentile = 0.75, thresholds: window = "fullSample" }: VolatilityOptions = {}
+): VolatilityAnalysis {
+    const periods = periodsPerYear(interval);
+    const toVolatility = (variance: number | null) => variance === null ? null : annualize(variance, periods);
+
+    const realized = {
+        10: realizedVolatility(changes, 10, periods),
+        20: realizedVolatility(changes, 20, periods),
+        60: realizedVolatility(changes, 60, periods)
+    };
+    const ewmaVariances = ewmaVariance(changes);
+    const ewma = ewmaVariances.map(toVolatility);
+
+    const fit = fitGarch(changes, periods);
+    const garchVariancesNext = fit ? garchConditional(changes, fit) : null;
+    const garch = fit && garchVariancesNext ? { fit, volatility: garchVariancesNext.map(toVolatility) } : null;
+
+    // h-step GARCH forecast: V + persistenceʰ⁻¹ · (hₙ₊₁ − V)
+    const lastEwma = ewmaVariances[ewmaVariances.length - 1] ?? null;
+    const lastGarch = garchVariancesNext?.[garchVariancesNext.length - 1] ?? null;
+    const garchPathVariances = fit && lastGarch !== null
+        ? Array.from({ length: horizon }, (_, k) => fit.omega / (1 - fit.persistence) + Math.pow(fit.persistence, k) * (lastGarch - fit.omega / (1 - fit.persistence)))
+        : [];
+    const forecast: VolatilityForecast = {
+        horizon,
+        ewma: lastEwma === null ? 0 : annualize(lastEwma, periods),
+        garch: garchPathVariances.length ? annualize(mean(garchPathVariances), periods) : null,
+        garchPath: garchPathVariances.map(v => annualize(v, periods))
+    };
+
+    const used: RegimeSource = source === "garch" && !garch ? "ewma" : source;
+    const series = used === "garch" ? garch!.volatility : used === "ewma" ? ewma : realized[20];
+    const defined = series.filter((v): v is number => v !== null);
+    const thresholds = defined.length
+        ? { low: percentile(defined, lowPercentile), high: percentile(defined, highPercentile) }
+        : { low: 0, high: 0 };
+    const regimes = !defined.length ? series.map(() => null)
+        : window === "expanding" ? expandingRegimes(series, lowPercentile, highPercentile)
+            : classifyRegimes(series, thresholds.low, thresholds.high);
+
+    return {
+        realized,
+        ewma,
+        garch,
+        forecast,
+        source: used,
+        thresholds,
+        regimes,
+        current: regimes[regimes.length - 1] ?? null
+    };
+}
+
+/** Consecutive runs of one regime as [first index, last index] ranges, for shading a chart. */
+export function regimeRuns(regimes: (VolatilityRegime | null)[]): { regime: VolatilityRegime; start: number; end: number }[] {
+    const runs: { regime: VolatilityRegime; start: number; end: number }[] = [];
+    regimes.forEach((regime, i) => {
+        const last = runs[runs.length - 1];
+        if (regime === null) return;
+        if (last && last.regime === regime && last.end === i - 1) last.end = i;
+        else runs.push({ regime, start: i, end: i });
+    });
+    return runs;
+}
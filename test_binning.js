@@ -1,34 +1,57 @@
-const changes = [
-    -1.2, -1.1, -0.5, 0.0, 0.1, 0.5, 1.2, 1.5, 2.0, 0.15, -0.15
-];
+// Checks the return histogram (lib/analytics returnDistribution, the code the
+// dashboard and /api/indicators use) against the raw returns of a fixture.
+// Usage: npx tsx test_binning.js [symbol] [binSize]   (no server needed)
 
-const min = Math.floor(Math.min(...changes));
-const max = Math.ceil(Math.max(...changes));
-const binSize = 0.1;
-const bins = {};
+import fs from "fs";
+import path from "path";
+import { priceSeries } from "./lib/adjustments";
+import { MAX_HISTOGRAM_BINS } from "./lib/analytics";
+import { computeIndicator, IndicatorError } from "./lib/indicators";
+import { fixtureFileName } from "./lib/providers/local";
 
-console.log(`Min: ${min}, Max: ${max}, BinSize: ${binSize}`);
+const symbol = process.argv[2] || "AAPL";
+const binSize = parseFloat(process.argv[3] || "0.1");
 
-// Initialize bins
-for (let i = min; i <= max; i += binSize) {
-    bins[i.toFixed(1)] = 0;
-}
+function main() {
+    const file = path.join(process.cwd(), "fixtures", "market-data", fixtureFileName(symbol));
+    const fixture = JSON.parse(fs.readFileSync(file, "utf8"));
+    const series = priceSeries(fixture.history, fixture.splits || [], fixture.dividends || [], "adjusted");
+
+    const changes = series.changes.slice(1);
+    const { distribution } = computeIndicator(series, { type: "histogram", binSize });
+    const { data } = distribution;
+
+    console.log(`${symbol}: ${changes.length} returns, ${data.length} bins of ${distribution.binSize}`);
 
-console.log("Initialized bins count:", Object.keys(bins).length);
+    const total = data.reduce((a, b) => a + b.count, 0);
+    console.log("Total Data Points:", total, total === changes.length ? "OK" : "MISMATCH");
 
-changes.forEach(change => {
-    const bin = (Math.floor(change / binSize) * binSize).toFixed(1);
-    if (bins[bin] !== undefined) bins[bin]++;
-    else {
-        bins[bin] = 1;
-        console.log(`Added new bin: ${bin}`);
+    // Every return must sit inside the [bin, bin + binSize) it was counted in
+    const tolerance = 1e-9;
+    const misplaced = changes.filter(change => {
+        const bin = data.find(d => change >= d.bin - tolerance && change < d.bin + distribution.binSize - tolerance);
+        return !bin || bin.count === 0;
+    });
+    console.log("Returns outside a counted bin:", misplaced.length, misplaced.length === 0 ? "OK" : misplaced.slice(0, 5));
+
+    // A bin size below the minimum is refused instead of allocating millions of bins
+    let refused = false;
+    try {
+        computeIndicator(series, { type: "histogram", binSize: 1e-9 });
+    } catch (e) {
+        refused = e instanceof IndicatorError;
     }
-});
+    console.log("Tiny binSize refused:", refused ? "OK" : "NOT REFUSED");
+    const capped = data.length <= MAX_HISTOGRAM_BINS;
+    console.log(`At most ${MAX_HISTOGRAM_BINS} bins:`, capped ? "OK" : data.length);
 
-const chartData = Object.entries(bins).map(([bin, count]) => ({
-    bin: parseFloat(bin),
-    count
-})).sort((a, b) => a.bin - b.bin);
+    console.log("Chart Data Sample:", data.filter(d => d.count > 0).slice(0, 10));
+    process.exitCode = total === changes.length && misplaced.length === 0 && refused && capped ? 0 : 1;
+}
 
-console.log("Chart Data Sample:", chartData.filter(d => d.count > 0));
-console.log("Total Data Points:", chartData.reduce((a, b) => a + b.count, 0));
+try {
+    main();
+} catch (err) {
+    console.error(err);
+    process.exitCode = 1;
+}
@@ -0,0 +1,84 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { priceSeries, splitFactorAt, trailingDividends, type PriceBar } from "@/lib/adjustments";
+import { YahooProvider } from "@/lib/providers/yahoo";
+
+const bar = (date: string, close: number, volume = 1000): PriceBar =>
+    ({ date: `${date}T13:30:00.000Z`, open: close, high: close, low: close, close, adjClose: close, volume });
+
+// As traded around a 2:1 split effective 2024-06-10, with a $0.50 dividend before it
+const asTraded = [bar("2024-06-06", 200), bar("2024-06-07", 202), bar("2024-06-10", 102, 2000), bar("2024-06-11", 103, 2000)];
+const splits = [{ date: "2024-06-10T13:30:00.000Z", numerator: 2, denominator: 1 }];
+const dividends = [{ date: "2024-06-07T13:30:00.000Z", amount: 0.5 }];
+
+const close = (a: number, b: number) => Math.abs(a - b) < 1e-9;
+
+describe("splitFactorAt", () => {
+    it("multiplies the ratios of splits after the date only", () => {
+        const twoSplits = [...splits, { date: "2025-01-02", numerator: 3, denominator: 1 }];
+        assert.equal(splitFactorAt("2024-06-07", twoSplits), 1 / 6);
+        assert.equal(splitFactorAt("2024-06-10", twoSplits), 1 / 3);
+        assert.equal(splitFactorAt("2025-01-02", twoSplits), 1);
+    });
+});
+
+describe("priceSeries", () => {
+    it("applies a known split exactly once on the adjusted basis", () => {
+        const { history, changes, dividends: adjustedDividends } = priceSeries(asTraded, splits, dividends, "adjusted");
+        assert.deepEqual(history.map(b => b.close), [100, 101, 102, 103]);
+        assert.deepEqual(history.map(b => b.volume), [2000, 2000, 2000, 2000]);
+        assert.equal(adjustedDividends[0].amount, 0.25);
+        // The split day is an ordinary +1% session, not a -50% gap; the ex-date adds the payout
+        assert.ok(close(changes[2], ((102 - 101) / 101) * 100));
+        assert.ok(close(changes[1], ((101 + 0.25 - 100) / 100) * 100));
+    });
+
+    it("leaves prices as traded on the raw basis", () => {
+        const { history, changes } = priceSeries(asTraded, splits, dividends, "raw");
+        assert.deepEqual(history.map(b => b.close), [200, 202, 102, 103]);
+        assert.ok(changes[2] < -49);
+    });
+});
+
+describe("trailingDividends", () => {
+    it("restates dividends paid before a split inside the trailing year to today's shares", () => {
+        // $1.00 a quarter before a 4:1 split, $0.25 after: $0.25 a quarter per share held today
+        const fourForOne = [{ date: "2024-06-10", numerator: 4, denominator: 1 }];
+        const quarterly = [
+            { date: "2023-12-08", amount: 1 },
+            { date: "2024-03-08", amount: 1 },
+            { date: "2024-06-07", amount: 1 },
+            { date: "2024-09-06", amount: 0.25 },
+            { date: "2024-12-06", amount: 0.25 }
+        ];
+        assert.equal(trailingDividends(quarterly, fourForOne, "2023-12-31"), 1);
+        // Adding the amounts as paid would overstate the yield: 2.5 instead of 1
+        assert.equal(trailingDividends(quarterly, [], "2023-12-31"), 2.5);
+    });
+});
+
+describe("YahooProvider", () => {
+    // Yahoo's historical() answers with bars and dividends already back-adjusted for the split
+    const provider = new YahooProvider();
+    (provider as unknown as { yf: unknown }).yf = {
+        historical: async (_symbol: string, { events }: { events?: string }) => {
+            if (events === "split") return [{ date: new Date(splits[0].date), stockSplits: "2:1" }];
+            if (events === "dividends") return [{ date: new Date(dividends[0].date), dividends: 0.25 }];
+            return priceSeries(asTraded, splits, [], "adjusted").history.map(b => ({ ...b, date: new Date(b.date) }));
+        }
+    };
+    const range = { period1: new Date("2024-06-01"), period2: new Date("2024-06-12") };
+
+    it("undoes Yahoo's split adjustment so bars and dividends are as traded", async () => {
+        const bars = await provider.history("TEST", range, "1d");
+        assert.deepEqual(bars.map(b => b.close), [200, 202, 102, 103]);
+        assert.deepEqual(bars.map(b => b.volume), [1000, 1000, 2000, 2000]);
+        assert.deepEqual((await provider.dividends("TEST", range)).map(d => d.amount), [0.5]);
+    });
+
+    it("ends up adjusted once after priceSeries", async () => {
+        const bars = (await provider.history("TEST", range, "1d")).map(b => ({ ...b, date: b.date.toISOString(), adjClose: b.adjClose ?? b.close }));
+        const events = (await provider.splits("TEST", range)).map(s => ({ ...s, date: s.date.toISOString() }));
+        assert.deepEqual(priceSeries(bars, events, [], "adjusted").history.map(b => b.close), [100, 101, 102, 103]);
+    });
+});
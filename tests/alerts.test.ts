@@ -0,0 +1,146 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import type { MarketData } from "@/components/MarketStatus";
+import { deliverAlert, type AlertEvent, type AlertRule } from "@/lib/alerts";
+import { WebhookNotifier } from "@/lib/alerts/notifiers";
+import { AlertRuleError, describeCondition, evaluateCondition, parseCondition, type SymbolSnapshot } from "@/lib/alerts/rules";
+import { defaultProvenance, type Provenance } from "@/lib/provenance";
+
+// Changes alternate ±1%: mean 0, population SD 1
+const snapshot = (changePercent: number, closes = [100, 101, 100, 101]): SymbolSnapshot => ({
+    symbol: "AAPL",
+    changePercent,
+    changes: [1, -1, 1, -1, 1, -1],
+    closes
+});
+
+const live: Provenance = { source: "test", asOf: "2026-10-16", status: "live" };
+const gauge = (current: number | null, provenance = live) => ({ current, date: null, change: 0, history: [], provenance });
+const market = (vix: number, fearGreed: number | null, fearGreedProvenance = live): MarketData => ({
+    vix: { current: vix, date: null, history: [], provenance: live },
+    indices: {
+        kospi: { symbol: "^KS11", current: null, change: 0, changePercent: 0, date: null, history: [], provenance: defaultProvenance() },
+        kosdaq: { symbol: "^KQ11", current: null, change: 0, changePercent: 0, date: null, history: [], provenance: defaultProvenance() }
+    },
+    metrics: { gex: gauge(null), dix: gauge(null), fearGreed: gauge(fearGreed, fearGreedProvenance) }
+});
+
+describe("parseCondition", () => {
+    it("normalizes the symbol, fills band defaults and drops unknown fields", () => {
+        assert.deepEqual(parseCondition({ kind: "bandCross", symbol: " aapl ", band: "lower", extra: 1 }),
+            { kind: "bandCross", symbol: "AAPL", band: "lower", period: 20, k: 2 });
+    });
+
+    it("rejects malformed rules with an AlertRuleError", () => {
+        assert.throws(() => parseCondition({ kind: "sigmaMove", symbol: "AAPL", direction: "below", sigma: 0 }), AlertRuleError);
+        assert.throws(() => parseCondition({ kind: "sigmaMove", symbol: "", direction: "below", sigma: 2 }), AlertRuleError);
+        assert.throws(() => parseCondition({ kind: "market", metric: "vix", operator: ">=", value: 25 }), AlertRuleError);
+        assert.throws(() => parseCondition({ kind: "bandCross", symbol: "AAPL", band: "lower", period: 1.5 }), AlertRuleError);
+        assert.throws(() => parseCondition(null), AlertRuleError);
+    });
+
+    it("describes rules for their default name", () => {
+        assert.equal(describeCondition({ kind: "sigmaMove", symbol: "AAPL", direction: "below", sigma: 2 }), "AAPL daily change below -2σ");
+        assert.equal(describeCondition({ kind: "market", metric: "vix", operator: ">", value: 25 }), "VIX > 25");
+    });
+});
+
+describe("evaluateCondition", () => {
+    const drop = { kind: "sigmaMove", symbol: "AAPL", direction: "below", sigma: 2 } as const;
+
+    it("triggers a sigma move at or beyond the threshold", () => {
+        assert.equal(evaluateCondition(drop, { AAPL: snapshot(-2) }, null)?.triggered, true);
+        assert.equal(evaluateCondition(drop, { AAPL: snapshot(-1.9) }, null)?.triggered, false);
+        assert.equal(evaluateCondition({ ...drop, direction: "above" }, { AAPL: snapshot(2.5) }, null)?.triggered, true);
+    });
+
+    it("returns null without the symbol's data or without spread", () => {
+        assert.equal(evaluateCondition(drop, {}, null), null);
+        assert.equal(evaluateCondition(drop, { AAPL: { ...snapshot(-5), changes: [0, 0, 0] } }, null), null);
+    });
+
+    it("compares the last close with its Bollinger band", () => {
+        const band = { kind: "bandCross", symbol: "AAPL", band: "lower", period: 4, k: 1 } as const;
+        const result = evaluateCondition(band, { AAPL: snapshot(-10, [100, 100, 100, 90]) }, null);
+        assert.equal(result?.triggered, true);
+        assert.equal(result?.value, 90);
+        assert.equal(evaluateCondition(band, { AAPL: snapshot(0, [100, 100, 100, 100]) }, null)?.triggered, false);
+        // Not enough closes for the window
+        assert.equal(evaluateCondition({ ...band, period: 10 }, { AAPL: snapshot(0) }, null), null);
+    });
+
+    it("reads market gauges but ignores placeholder values", () => {
+        const vix = { kind: "market", metric: "vix", operator: ">", value: 25 } as const;
+        assert.equal(evaluateCondition(vix, {}, market(30, 50))?.triggered, true);
+        assert.equal(evaluateCondition(vix, {}, market(20, 50))?.triggered, false);
+        assert.equal(evaluateCondition(vix, {}, null), null);
+
+        const fear = { kind: "market", metric: "fearGreed", operator: "<", value: 60 } as const;
+        assert.equal(evaluateCondition(fear, {}, market(20, 50))?.triggered, true);
+        assert.equal(evaluateCondition(fear, {}, market(20, 50, defaultProvenance("Neutral placeholder"))), null);
+    });
+});
+
+describe("WebhookNotifier", () => {
+    const rule: AlertRule = {
+        id: "rule-1",
+        name: "VIX > 25",
+        enabled: true,
+        createdAt: "2026-10-16T00:00:00.000Z",
+        condition: { kind: "market", metric: "vix", operator: ">", value: 25 }
+    };
+    const event: AlertEvent = {
+        id: "rule-1-event",
+        ruleId: rule.id,
+        ruleName: rule.name,
+        firedAt: "2026-10-16T14:00:00.000Z",
+        message: "VIX 30 > 25",
+        value: 30,
+        deliveries: []
+    };
+
+    // Local stand-in for the webhook: records each request, answers with `status`
+    const received: { method?: string; url?: string; contentType?: string; body: string }[] = [];
+    let status = 204;
+    const server = http.createServer((req, res) => {
+        let body = "";
+        req.on("data", chunk => { body += chunk; });
+        req.on("end", () => {
+            received.push({ method: req.method, url: req.url, contentType: req.headers["content-type"], body });
+            res.writeHead(status).end();
+        });
+    });
+    let url = "";
+
+    before(async () => {
+        await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks/alerts`;
+    });
+    after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+    it("POSTs the event and rule as JSON", async () => {
+        status = 204;
+        received.length = 0;
+        await new WebhookNotifier(url).send(event, rule);
+
+        assert.equal(received.length, 1);
+        assert.equal(received[0].method, "POST");
+        assert.equal(received[0].url, "/hooks/alerts");
+        assert.equal(received[0].contentType, "application/json");
+        assert.deepEqual(JSON.parse(received[0].body), { event, rule });
+    });
+
+    it("throws on a non-2xx reply, which deliverAlert records as a failed delivery", async (t) => {
+        t.mock.method(console, "error", () => {});
+        status = 503;
+        const notifier = new WebhookNotifier(url);
+        await assert.rejects(notifier.send(event, rule), { message: "HTTP 503" });
+
+        assert.deepEqual(await deliverAlert(event, rule, [notifier]),
+            [{ channel: notifier.name, ok: false, error: "HTTP 503" }]);
+        status = 200;
+        assert.deepEqual(await deliverAlert(event, rule, [notifier]), [{ channel: notifier.name, ok: true }]);
+    });
+});
@@ -0,0 +1,107 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { dailyReturns } from "@/lib/adjustments";
+import {
+    calendarRule, firstBarRule, monthlyDcaPreset, runBacktest, sigmaZoneRule, type BacktestConfig, type BacktestSeries
+} from "@/lib/backtest";
+import { KRX_CALENDAR } from "@/lib/exchanges";
+
+// Daily bars at 14:30 UTC from `start`, weekends included unless skipped
+function seriesOf(closes: number[], start = "2024-01-01", dividends: BacktestSeries["dividends"] = []): BacktestSeries {
+    const first = new Date(`${start}T14:30:00Z`);
+    const bars = closes.map((close, i) => ({ date: new Date(first.getTime() + i * 86400000).toISOString(), close }));
+    return { bars, changes: dailyReturns(bars), dividends };
+}
+
+const buyOnce: BacktestConfig = { entry: [firstBarRule()], sizing: { type: "shares", shares: 10 }, dividends: "cash" };
+
+describe("runBacktest", () => {
+    it("funds each buy with a contribution and marks the position at the current price", () => {
+        const result = runBacktest(seriesOf([100, 110, 120]), buyOnce, 150);
+        assert.equal(result.totalBuys, 1);
+        assert.equal(result.totalInvested, 1000);
+        assert.equal(result.currentValue, 1500);
+        assert.equal(result.totalReturn, 50);
+        assert.deepEqual(result.history.map(p => p.value), [1000, 1100, 1200]);
+    });
+
+    it("applies slippage and commissions to fills", () => {
+        const result = runBacktest(seriesOf([100, 100]), { ...buyOnce, slippageBps: 100, commission: { perTrade: 5 } });
+        const [trade] = result.trades;
+        assert.equal(trade.price, 101);
+        assert.equal(trade.amount, 10 * 101 + 5);
+        assert.equal(result.totalCommissions, 5);
+    });
+
+    it("pays dividends as cash or reinvests them at the close", () => {
+        const series = seriesOf([100, 100, 100], "2024-01-01", [{ date: "2024-01-02T00:00:00.000Z", amount: 2 }]);
+        const cash = runBacktest(series, buyOnce);
+        assert.equal(cash.totalDividends, 20);
+        assert.equal(cash.cash, 20);
+        assert.equal(cash.shares, 10);
+
+        const reinvest = runBacktest(series, { ...buyOnce, dividends: "reinvest" });
+        assert.equal(reinvest.cash, 0);
+        assert.equal(reinvest.shares, 10.2);
+    });
+
+    it("sells on take-profit with a fixed balance and realizes the gain", () => {
+        const config: BacktestConfig = {
+            ...buyOnce,
+            initialCash: 1000,
+            exit: { rules: [], takeProfitPercent: 10, fraction: 1 }
+        };
+        const result = runBacktest(seriesOf([100, 105, 112, 90]), config);
+        assert.equal(result.totalSells, 1);
+        assert.equal(result.trades[1].date, seriesOf([100, 105, 112]).bars[2].date);
+        assert.equal(result.realized, 120);
+        assert.equal(result.currentValue, 1120);
+    });
+
+    it("rejects percent-of-equity sizing without a starting balance", () => {
+        assert.throws(() => runBacktest(seriesOf([100]), { ...buyOnce, sizing: { type: "percentEquity", percent: 10 } }));
+    });
+});
+
+describe("sigmaZoneRule", () => {
+    // 40 calm bars alternating ±1%, then a -5% drop
+    const calm = Array.from({ length: 40 }, (_, i) => 100 * (i % 2 === 0 ? 1 : 1.01));
+    const closes = [...calm, calm[calm.length - 1] * 0.95];
+
+    it("fires on a drop beyond -2σ of the returns before it", () => {
+        const fires = sigmaZoneRule(["-2"])(seriesOf(closes));
+        assert.equal(fires(closes.length - 1), true);
+        assert.equal(closes.slice(0, -1).some((_, i) => fires(i)), false);
+    });
+
+    it("doesn't fire before there is enough history", () => {
+        const short = [100, 101, 100, 80];
+        assert.equal(sigmaZoneRule(["-2", "-1"])(seriesOf(short))(3), false);
+    });
+
+    it("only knows later bars with the full-sample window", () => {
+        // The crash inflates the whole-series SD, so the 1% moves before it
+        // look normal there, while the expanding window still sees them as -1σ
+        const crash = [...closes, 40];
+        const expanding = sigmaZoneRule(["-1"])(seriesOf(crash));
+        const fullSample = sigmaZoneRule(["-1"], "fullSample")(seriesOf(crash));
+        const earlyDrops = crash.slice(21, 40).map((_, k) => 21 + k).filter(i => crash[i] < crash[i - 1]);
+        assert.ok(earlyDrops.some(i => expanding(i)));
+        assert.ok(earlyDrops.every(i => !fullSample(i)));
+    });
+});
+
+describe("calendarRule", () => {
+    it("buys on the first KRX trading day of each month, skipping holidays", () => {
+        // 2024-12-31 is the year-end closure, 2025-01-01 a holiday, 2025-02-01 and 02-02 a weekend
+        const series = { ...seriesOf(Array(45).fill(100), "2024-12-30"), calendar: KRX_CALENDAR };
+        const result = runBacktest(series, monthlyDcaPreset());
+        assert.deepEqual([...result.buyDates].map(d => d.slice(0, 10)), ["2024-12-30", "2025-01-02", "2025-02-03"]);
+    });
+
+    it("fires on the first bar of each week", () => {
+        const fires = calendarRule("week")(seriesOf(Array(14).fill(100), "2024-01-01"));
+        // 2024-01-01 and 2024-01-08 are Mondays
+        assert.deepEqual(Array.from({ length: 14 }, (_, i) => i).filter(fires), [0, 7]);
+    });
+});
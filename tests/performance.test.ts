@@ -0,0 +1,91 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { BacktestPoint } from "@/lib/backtest";
+import { cashFlows, performanceMetrics, xirr } from "@/lib/performance";
+
+// Daily points from `start`; a fixed amount invested unless given per day
+function historyOf(values: number[], invested: number | number[] = 100, start = "2024-01-01"): BacktestPoint[] {
+    const first = new Date(`${start}T14:30:00Z`).getTime();
+    return values.map((value, i) => ({
+        date: new Date(first + i * 86400000).toISOString(),
+        invested: Array.isArray(invested) ? invested[i] : invested,
+        cash: 0,
+        shares: 0,
+        value
+    }));
+}
+
+const close = (a: number | null, b: number, tolerance = 1e-6) => a !== null && Math.abs(a - b) < tolerance;
+
+describe("xirr", () => {
+    it("finds the rate of a known set of flows", () => {
+        // 1,000 in, 1,100 back 365 days later: 10% over 365/365.25 of a year
+        const rate = xirr([{ date: "2023-01-01", amount: -1000 }, { date: "2024-01-01", amount: 1100 }]);
+        assert.ok(close(rate, (Math.pow(1.1, 365.25 / 365) - 1) * 100), `got ${rate}`);
+
+        // Two equal yearly contributions growing to 2,310 at 10% a year (1,000 * 1.1^2 + 1,000 * 1.1)
+        const twoYears = xirr([
+            { date: "2023-01-01", amount: -1000 },
+            { date: "2024-01-01", amount: -1000 },
+            { date: "2025-01-01", amount: 2310 }
+        ]);
+        assert.ok(close(twoYears, 10, 0.05), `got ${twoYears}`);
+    });
+
+    it("falls back to bisection when Newton's method leaves the domain", () => {
+        // Almost everything lost: the first Newton step from 10% lands below -100%
+        const rate = xirr([{ date: "2023-01-01", amount: -1000 }, { date: "2024-01-01", amount: 1 }]);
+        assert.ok(close(rate, (Math.pow(0.001, 365.25 / 365) - 1) * 100), `got ${rate}`);
+    });
+
+    it("returns null without both money in and money out", () => {
+        assert.equal(xirr([{ date: "2023-01-01", amount: -1000 }, { date: "2024-01-01", amount: -500 }]), null);
+        assert.equal(xirr([]), null);
+    });
+});
+
+describe("cashFlows", () => {
+    it("turns contributions into outflows and the final value into an inflow", () => {
+        const flows = cashFlows(historyOf([100, 210, 220], [100, 200, 200]));
+        assert.deepEqual(flows.map(f => f.amount), [-100, -100, 220]);
+    });
+});
+
+describe("performanceMetrics", () => {
+    it("measures the deepest drawdown and the days from its peak to recovery", () => {
+        // Peak 120 on day 1, trough 60 on day 3, back to 120 on day 5
+        const metrics = performanceMetrics(historyOf([100, 120, 90, 60, 96, 120, 130]), { interval: "1d" });
+        assert.ok(close(metrics.maxDrawdown, 50));
+        assert.equal(metrics.maxDrawdownDays, 4);
+        assert.ok(close(metrics.totalReturn, 30));
+    });
+
+    it("counts a drawdown that has not recovered up to the last bar", () => {
+        const metrics = performanceMetrics(historyOf([100, 120, 90, 108, 100]), { interval: "1d" });
+        assert.ok(close(metrics.maxDrawdown, 25));
+        assert.equal(metrics.maxDrawdownDays, 3);
+    });
+
+    it("does not count contributions as gains", () => {
+        const metrics = performanceMetrics(historyOf([100, 200, 200], [100, 200, 200]), { interval: "1d" });
+        assert.ok(close(metrics.totalReturn, 0));
+        assert.equal(metrics.maxDrawdown, 0);
+        assert.equal(metrics.sharpe, null);
+    });
+
+    it("annualizes CAGR over calendar time and Sharpe/Sortino over bars", () => {
+        const doubled = performanceMetrics([
+            { date: "2023-01-01T00:00:00.000Z", invested: 100, cash: 0, shares: 0, value: 100 },
+            { date: "2023-01-02T00:00:00.000Z", invested: 100, cash: 0, shares: 0, value: 100 },
+            { date: "2025-01-01T00:00:00.000Z", invested: 100, cash: 0, shares: 0, value: 200 }
+        ], { interval: "1wk" });
+        // Time-weighted returns start at the second point, 730 days before the last
+        assert.ok(close(doubled.cagr, (Math.pow(2, 365.25 / 730) - 1) * 100));
+
+        // Bar returns +2% and -1%: mean 0.5%, SD 1.5%, downside deviation sqrt(0.01% / 2)
+        const metrics = performanceMetrics(historyOf([100, 102, 100.98]), { interval: "1d" });
+        assert.ok(close(metrics.sharpe, (0.005 / 0.015) * Math.sqrt(252)));
+        assert.ok(close(metrics.sortino, (0.005 / Math.sqrt(0.00005)) * Math.sqrt(252)));
+        assert.ok(close(metrics.volatility, 0.015 * Math.sqrt(252) * 100));
+    });
+});
@@ -0,0 +1,75 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildPosition, validateLot, type Lot, type MarketSeries } from "@/lib/portfolio";
+
+let nextId = 0;
+const lot = (side: Lot["side"], date: string, quantity: number, price: number, fees = 0): Lot =>
+    ({ id: `lot-${++nextId}`, symbol: "AAPL", side, date, quantity, price, currency: "USD", fees });
+
+const market = (currentPrice: number, extra: Partial<MarketSeries> = {}): MarketSeries =>
+    ({ currency: "USD", currentPrice, history: [], dividends: [], splits: [], ...extra });
+
+const close = (a: number | null, b: number) => a !== null && Math.abs(a - b) < 1e-9;
+
+describe("buildPosition", () => {
+    it("matches a sell against the oldest lots first, across two lots", () => {
+        const first = lot("buy", "2024-01-02", 10, 100, 10);
+        const second = lot("buy", "2024-02-01", 10, 120);
+        const sell = lot("sell", "2024-03-01", 15, 130, 15);
+        const position = buildPosition("AAPL", [sell, second, first], market(140));
+
+        // Fees raise the buy's cost to 101/share and cut the sell's proceeds to 129/share
+        assert.deepEqual(position.closedLots.map(c => [c.buyLotId, c.quantity]), [[first.id, 10], [second.id, 5]]);
+        assert.ok(close(position.closedLots[0].costBasis, 1010));
+        assert.ok(close(position.closedLots[0].realized, 280));
+        assert.ok(close(position.closedLots[1].costBasis, 600));
+        assert.ok(close(position.closedLots[1].realized, 45));
+        assert.ok(close(position.realized, 325));
+        assert.equal(position.fees, 25);
+
+        // What is left is half of the second lot, valued at today's price
+        assert.equal(position.quantity, 5);
+        assert.ok(close(position.costBasis, 600));
+        assert.ok(close(position.marketValue, 700));
+        assert.ok(close(position.unrealized, 100));
+        assert.ok(close(position.unrealizedPercent, (100 / 600) * 100));
+    });
+
+    it("includes buy fees in the cost basis of open lots", () => {
+        const position = buildPosition("AAPL", [lot("buy", "2024-01-02", 4, 50, 2)]);
+        assert.equal(position.openLots[0].costPerShare, 50.5);
+        assert.equal(position.costBasis, 202);
+        // No market data: cost-side figures only
+        assert.equal(position.marketValue, null);
+        assert.equal(position.unrealized, null);
+    });
+
+    it("restates lots on today's share basis across a split", () => {
+        const splits = [{ date: "2024-06-10", numerator: 2, denominator: 1 }];
+        const buy = lot("buy", "2024-06-03", 10, 200);
+        const sell = lot("sell", "2024-06-20", 15, 110);
+        const dividends = [{ date: "2024-06-05", amount: 1 }];
+        const position = buildPosition("AAPL", [buy, sell], market(120, { splits, dividends }));
+
+        // 10 pre-split shares at 200 are 20 at 100; 15 of them sold at 110
+        assert.equal(position.closedLots[0].quantity, 15);
+        assert.ok(close(position.closedLots[0].costBasis, 1500));
+        assert.ok(close(position.realized, 150));
+        assert.equal(position.quantity, 5);
+        assert.ok(close(position.openLots[0].costPerShare, 100));
+        assert.ok(close(position.unrealized, 5 * (120 - 100)));
+        // $1 on each of the 10 shares held before the split
+        assert.ok(close(position.dividendIncome, 10));
+    });
+});
+
+describe("validateLot", () => {
+    it("compares shares on either side of a split in the same units", () => {
+        const splits = [{ date: "2024-06-10", numerator: 2, denominator: 1 }];
+        const held = [lot("buy", "2024-06-03", 10, 200)];
+        assert.equal(validateLot(held, lot("sell", "2024-06-20", 20, 110), splits), null);
+        assert.match(validateLot(held, lot("sell", "2024-06-20", 21, 110), splits) ?? "", /exceeds/);
+        // Without the split, 20 shares would be more than the 10 bought
+        assert.match(validateLot(held, lot("sell", "2024-06-20", 20, 110)) ?? "", /exceeds/);
+    });
+});
@@ -0,0 +1,58 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import path from "path";
+import type { StockData } from "@/components/StockDashboard";
+import { defaultProvenance } from "@/lib/provenance";
+import { renderReport } from "@/lib/report";
+
+const fixture = JSON.parse(readFileSync(path.join(process.cwd(), "fixtures/market-data/AAPL.json"), "utf8"));
+const cached = { source: "Recorded fixture", asOf: "2026-10-16", status: "cached" as const };
+
+const stock: StockData = {
+    symbol: "AAPL",
+    name: "Apple <Inc.>",
+    currentPrice: fixture.quote.regularMarketPrice,
+    currency: "USD",
+    change: fixture.quote.regularMarketChange,
+    changePercent: fixture.quote.regularMarketChangePercent,
+    trailingPE: fixture.quote.trailingPE,
+    range: "1y",
+    interval: "1d",
+    history: fixture.history,
+    dividends: fixture.dividends,
+    splits: [],
+    provenance: { quote: cached, dividendYield: defaultProvenance(), history: cached, geminiMetrics: null }
+};
+const generatedAt = new Date("2026-10-19T09:00:00Z");
+
+describe("renderReport", () => {
+    const html = renderReport({ stock, market: null, generatedAt });
+
+    it("is deterministic for equal input", () => {
+        assert.equal(renderReport({ stock, market: null, generatedAt }), html);
+    });
+
+    it("renders the header, statistics, charts and both simulations", () => {
+        assert.ok(html.startsWith("<!DOCTYPE html>"));
+        assert.match(html, /<div class="price">\$186\.56<\/div>/);
+        assert.match(html, /-0\.96 \(-0\.51%\)/);
+        assert.match(html, /TTM PER<\/div><div class="value">33\.10/);
+        assert.equal(html.match(/src="data:image\/svg\+xml/g)?.length, 3);
+        assert.match(html, /Volatility \(20-Day rolling SD of % change\)/);
+        assert.match(html, /<h2>Volatility Trading Simulation<\/h2><p class="muted">Buy 1 share on bars whose change falls in: ≤ -2σ/);
+        assert.match(html, /<h2>Monthly DCA Simulation<\/h2><p class="muted">Buy 1 share/);
+        assert.match(html, /Generated 2026-10-19T09:00:00\.000Z/);
+    });
+
+    it("escapes text from the data source", () => {
+        assert.ok(html.includes("Apple &lt;Inc.&gt;"));
+        assert.ok(!html.includes("Apple <Inc.>"));
+    });
+
+    it("says so when market data or history is missing", () => {
+        assert.match(html, /Market data was unavailable/);
+        const empty = renderReport({ stock: { ...stock, history: [], dividends: [] }, market: null, generatedAt });
+        assert.equal(empty.match(/Not enough history to simulate/g)?.length, 2);
+    });
+});
@@ -0,0 +1,71 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import path from "path";
+import { parseCnnFearGreed, parseSqueezeMetricsCsv } from "@/lib/sentiment";
+import { CnnFearGreedSource } from "@/lib/sentiment/cnn";
+import { SqueezeMetricsSource } from "@/lib/sentiment/squeezemetrics";
+
+const fixture = (name: string) => readFileSync(path.join(process.cwd(), "fixtures/sentiment", name), "utf8");
+const document = (text: string) => ({ location: "test", recorded: true, read: async () => text });
+
+describe("parseSqueezeMetricsCsv", () => {
+    it("converts DIX to % and GEX to billions, sorted by date", () => {
+        const { dix, gex } = parseSqueezeMetricsCsv([
+            "date,price,dix,gex",
+            "2026-05-05,652.00,0.445967,4762241077.42",
+            "2026-05-04,656.79,0.440988,4523782396.32",
+        ].join("\r\n"));
+        assert.deepEqual(dix.map(p => p.date), ["2026-05-04", "2026-05-05"]);
+        assert.ok(Math.abs(dix[0].value - 44.0988) < 1e-9);
+        assert.ok(Math.abs(gex[1].value - 4.76224107742) < 1e-9);
+    });
+
+    it("finds columns by name and skips rows without a date or value", () => {
+        const { dix, gex } = parseSqueezeMetricsCsv("GEX,DIX,Date\n1e9,0.4,2026-05-04\n,0.5,2026-05-05\n2e9,0.6,not a date\n");
+        assert.deepEqual(dix, [{ date: "2026-05-04", value: 40 }, { date: "2026-05-05", value: 50 }]);
+        assert.deepEqual(gex, [{ date: "2026-05-04", value: 1 }]);
+    });
+
+    it("rejects an unexpected header", () => {
+        assert.throws(() => parseSqueezeMetricsCsv("<html>Service unavailable</html>"), /Unexpected DIX.csv header/);
+    });
+
+    it("parses the recorded sample", async () => {
+        const readings = await new SqueezeMetricsSource(document(fixture("DIX.csv"))).fetch();
+        assert.ok(readings.dix && readings.dix.points.length > 20);
+        assert.ok(readings.dix.points.every(p => p.value > 20 && p.value < 70));
+        assert.equal(readings.gex?.source.estimated, false);
+    });
+});
+
+describe("parseCnnFearGreed", () => {
+    it("reads the daily history and lets the current score win for its date", () => {
+        const points = parseCnnFearGreed(JSON.stringify({
+            fear_and_greed: { score: 51.7189, timestamp: "2026-10-16T23:59:00+00:00" },
+            fear_and_greed_historical: {
+                data: [
+                    { x: Date.UTC(2026, 9, 16), y: 48.2 },
+                    { x: Date.UTC(2026, 9, 15), y: 44.6 },
+                    { x: Date.UTC(2026, 9, 14), y: null }
+                ]
+            }
+        }));
+        assert.deepEqual(points, [{ date: "2026-10-15", value: 45 }, { date: "2026-10-16", value: 52 }]);
+    });
+
+    it("returns no points for a payload without scores", () => {
+        assert.deepEqual(parseCnnFearGreed("{}"), []);
+        assert.throws(() => parseCnnFearGreed("<html>"), SyntaxError);
+    });
+
+    it("parses the recorded sample, and the source refuses an empty one", async () => {
+        const readings = await new CnnFearGreedSource(document(fixture("fearandgreed.json"))).fetch();
+        const points = readings.fearGreed!.points;
+        assert.ok(points.length > 20);
+        assert.ok(points.every(p => Number.isInteger(p.value) && p.value >= 0 && p.value <= 100));
+        assert.equal(points[points.length - 1].date, "2026-10-16");
+
+        await assert.rejects(new CnnFearGreedSource(document("{}")).fetch(), /no scores/);
+    });
+});